@@ -1,6 +1,6 @@
 import './App.css'
 import { BrowserRouter, Routes, Route } from "react-router-dom";
-import EComDataFinder from './components/EcomDataFinder';
+import EComDataFinder from './components/EComDataFinder';
 
 function App() {
 
@@ -0,0 +1,58 @@
+import type { ProgressEvent } from "./types";
+
+// Base URL of the worker API (wrangler dev listens on 8787)
+export const API_BASE = import.meta.env.VITE_API_URL || "http://localhost:8787";
+
+/**
+ * POST `body` to one of the streaming endpoints and pass each Server-Sent Event to
+ * `onEvent`. Resolves with the `done` event's result; a stream that ends without
+ * one failed, and rejects with its last error. Aborting `signal` closes the stream,
+ * which also stops the server's work.
+ */
+export async function postEventStream<T>(
+  path: string,
+  body: unknown,
+  onEvent: (event: ProgressEvent) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const response = await fetch(`${API_BASE}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", Accept: "text/event-stream" },
+    body: JSON.stringify(body),
+    signal
+  });
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.error || `${path} failed with ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+  let lastError = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += value || "";
+
+    // Events end with a blank line; the last block may still be arriving
+    const blocks = buffer.split(/\r?\n\r?\n/);
+    buffer = done ? "" : blocks.pop() || "";
+
+    for (const block of blocks) {
+      let type = "message";
+      const data: string[] = [];
+      for (const line of block.split(/\r?\n/)) {
+        if (line.startsWith("event:")) type = line.slice(6).trim();
+        else if (line.startsWith("data:")) data.push(line.slice(5).trimStart());
+      }
+      if (data.length === 0) continue;
+
+      const event = { type, ...JSON.parse(data.join("\n")) } as ProgressEvent;
+      onEvent(event);
+      if (event.type === "done") return event.result as T;
+      if (event.type === "error") lastError = event.message;
+    }
+
+    if (done) throw new Error(lastError || `${path} ended before finishing`);
+  }
+}
@@ -0,0 +1,102 @@
+import { postEventStream } from "./api";
+import type { SiteCheckResult } from "./types";
+
+// Sites per /checkSites request; small chunks keep pause and cancel prompt
+const CHUNK_SIZE = 10;
+// /checkSites requests in flight at once (the server checks each chunk in parallel too)
+const CONCURRENCY = 3;
+
+export type CheckRunState = "running" | "paused" | "cancelled" | "finished";
+
+export interface CheckRunOptions {
+  // Milliseconds the full homepage download may take for a site to count as fast
+  fastThreshold?: number;
+  // Called once per site that was checked; `error` is set when the check failed
+  onResult: (link: string, result: SiteCheckResult | null, error?: string) => void;
+  onStateChange?: (state: CheckRunState) => void;
+}
+
+export interface CheckRun {
+  pause(): void;
+  resume(): void;
+  cancel(): void;
+  // Resolves once the run finished or was cancelled; the links never checked are returned
+  done: Promise<string[]>;
+}
+
+/**
+ * Check `links` against the server in small concurrent chunks. Pausing lets the
+ * chunks in flight finish and starts no more; cancelling aborts them as well.
+ */
+export function startCheckRun(links: string[], { fastThreshold, onResult, onStateChange }: CheckRunOptions): CheckRun {
+  const queue: string[][] = [];
+  for (let i = 0; i < links.length; i += CHUNK_SIZE) queue.push(links.slice(i, i + CHUNK_SIZE));
+
+  const reported = new Set<string>();
+  const controller = new AbortController();
+  let state: CheckRunState = "running";
+  let wake: (() => void) | null = null;
+  let paused: Promise<void> | null = null;
+
+  const setState = (next: CheckRunState) => {
+    state = next;
+    onStateChange?.(next);
+  };
+
+  const report = (link: string, result: SiteCheckResult | null, error?: string) => {
+    if (reported.has(link)) return;
+    reported.add(link);
+    onResult(link, result, error);
+  };
+
+  const checkChunk = async (chunk: string[]) => {
+    try {
+      await postEventStream("/checkSites", { urls: chunk, fastThreshold }, event => {
+        if (event.type === "site" && event.stage === "check") report(chunk[event.index], event.result);
+        if (event.type === "error" && event.index !== undefined) report(chunk[event.index], null, event.message);
+      }, controller.signal);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      const message = err instanceof Error ? err.message : "Site check failed";
+      chunk.forEach(link => report(link, null, message));
+    }
+  };
+
+  const worker = async () => {
+    while (queue.length > 0 && state !== "cancelled") {
+      if (paused) {
+        await paused;
+        continue;
+      }
+      const chunk = queue.shift();
+      if (chunk) await checkChunk(chunk);
+    }
+  };
+
+  const done = Promise.all(Array.from({ length: CONCURRENCY }, worker)).then(() => {
+    if (state !== "cancelled") setState("finished");
+    return links.filter(link => !reported.has(link));
+  });
+
+  return {
+    pause() {
+      if (state !== "running") return;
+      paused = new Promise(resolve => { wake = resolve; });
+      setState("paused");
+    },
+    resume() {
+      if (state !== "paused") return;
+      paused = null;
+      wake?.();
+      setState("running");
+    },
+    cancel() {
+      if (state === "cancelled" || state === "finished") return;
+      setState("cancelled");
+      controller.abort();
+      paused = null;
+      wake?.();
+    },
+    done
+  };
+}
@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef } from "react";
+import { Loader2, Play, Square, RotateCcw } from "lucide-react";
+import { API_BASE } from "../api";
+import type { Job, JobSite, JobStage, SearchProviderName, Website } from "../types";
+
+const ACTIVE_JOB_KEY = "ecom_finder_active_job";
+const POLL_INTERVAL = 3000;
+
+const STAGE_LABELS: Record<JobStage, string> = {
+  search: "Searching",
+  check: "Checking websites",
+  email: "Fetching email IDs",
+  done: "Done"
+};
+
+interface BackgroundJobPanelProps {
+  keyword: string;
+  region: string;
+  count: number;
+  provider: SearchProviderName;
+  disabled: boolean;
+  // Called with partial results on every poll and with the final results once the job completes
+  onResults: (job: Job, sites: Website[]) => void;
+}
+
+const toWebsite = (site: JobSite): Website => ({
+  title: site.title,
+  link: site.link,
+  position: site.position,
+  source: site.source,
+  domain: site.domain,
+  homepage: site.homepage,
+  isNew: site.isNew,
+  isDomainActive: site.check?.isDomainActive,
+  platform: site.check?.platform,
+  classification: site.check?.classification || site.classification,
+  shopify: site.check?.shopify,
+  tech: site.check?.tech,
+  isFastLoading: site.check?.loadsFast,
+  metrics: site.check?.metrics,
+  emails: site.email?.emails,
+  contacts: site.email?.contacts,
+  skippedPages: site.email?.skipped,
+  emailStatus: site.email?.status
+});
+
+export default function BackgroundJobPanel({ keyword, region, count, provider, disabled, onResults }: BackgroundJobPanelProps) {
+  const [job, setJob] = useState<Job | null>(null);
+  const [error, setError] = useState("");
+
+  const jobRequest = async (path: string, init?: RequestInit): Promise<Job> => {
+    const response = await fetch(`${API_BASE}${path}`, init);
+    const body = await response.json();
+    if (!response.ok) throw new Error(body.error || `Request failed with ${response.status}`);
+    return body;
+  };
+
+  // Re-attach to a job started before the tab was closed
+  useEffect(() => {
+    const savedJobId = localStorage.getItem(ACTIVE_JOB_KEY);
+    if (!savedJobId) return;
+
+    jobRequest(`/jobs/${savedJobId}`)
+      .then(setJob)
+      .catch(() => localStorage.removeItem(ACTIVE_JOB_KEY));
+  }, []);
+
+  // Poll while the job is running
+  useEffect(() => {
+    if (!job || job.status !== "running") return;
+
+    const timer = setTimeout(async () => {
+      try {
+        setJob(await jobRequest(`/jobs/${job.id}`));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to fetch job status");
+      }
+    }, POLL_INTERVAL);
+
+    return () => clearTimeout(timer);
+  }, [job]);
+
+  // onResults is a fresh closure on every parent render; only new job data should call it
+  const onResultsRef = useRef(onResults);
+  useEffect(() => {
+    onResultsRef.current = onResults;
+  });
+
+  useEffect(() => {
+    if (job?.sites) onResultsRef.current(job, job.sites.map(toWebsite));
+  }, [job]);
+
+  const startJob = async () => {
+    setError("");
+    try {
+      const started = await jobRequest("/jobs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ keyword, region, count, provider })
+      });
+      localStorage.setItem(ACTIVE_JOB_KEY, started.id);
+      setJob(started);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to start job");
+    }
+  };
+
+  const updateJob = async (action: "cancel" | "resume") => {
+    if (!job) return;
+    try {
+      const updated = await jobRequest(`/jobs/${job.id}/${action}`, { method: "POST" });
+      setJob({ ...updated, sites: job.sites });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to ${action} job`);
+    }
+  };
+
+  const running = job?.status === "running";
+  const percent = job && job.progress.total > 0 ? Math.round((job.progress.done / job.progress.total) * 100) : 0;
+
+  return (
+    <div className="space-y-2">
+      <button
+        className="w-full flex items-center justify-center gap-2 bg-white hover:bg-gray-100 border border-gray-300 p-2 rounded text-gray-800 disabled:text-gray-400"
+        onClick={startJob}
+        disabled={disabled || running || !keyword || !region}
+      >
+        <Play size={18} />
+        Run as background job
+      </button>
+
+      {job && (
+        <div className="text-sm text-gray-600 space-y-1">
+          <div className="flex items-center gap-2">
+            {running && <Loader2 size={14} className="animate-spin" />}
+            <span>
+              {job.status === "running" ? STAGE_LABELS[job.stage] : `Job ${job.status}`}
+              {job.stage !== "search" && job.stage !== "done" && ` (${job.progress.done}/${job.progress.total})`}
+            </span>
+            {running && (
+              <button className="ml-auto flex items-center gap-1 text-red-600 hover:text-red-800" onClick={() => updateJob("cancel")}>
+                <Square size={14} /> Cancel
+              </button>
+            )}
+            {(job.status === "cancelled" || job.status === "failed") && (
+              <button className="ml-auto flex items-center gap-1 text-blue-600 hover:text-blue-800" onClick={() => updateJob("resume")}>
+                <RotateCcw size={14} /> Resume
+              </button>
+            )}
+          </div>
+          {running && (
+            <div className="w-full bg-gray-200 rounded h-1.5">
+              <div className="bg-gray-800 h-1.5 rounded" style={{ width: `${percent}%` }} />
+            </div>
+          )}
+          {job.error && <div className="text-red-600">{job.error}</div>}
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
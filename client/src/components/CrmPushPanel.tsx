@@ -0,0 +1,197 @@
+import { useState, useEffect } from "react";
+import { Loader2, Plus, Send, X } from "lucide-react";
+import { API_BASE } from "../api";
+import { usableEmails } from "../export";
+import { CATEGORY_LABELS, CONNECTOR_LABELS, PLATFORM_LABELS } from "../labels";
+import type { ConnectorInfo, ConnectorName, FieldMapping, LeadField, SyncRecord, Website } from "../types";
+
+const MAPPINGS_KEY = "ecom_finder_crm_mappings";
+// The server pushes at most this many leads per request
+const PUSH_BATCH_SIZE = 100;
+
+const LEAD_FIELD_LABELS: Record<LeadField, string> = {
+  name: "Name",
+  domain: "Domain",
+  website: "Website",
+  email: "Best email",
+  phone: "Phone",
+  score: "Score",
+  platform: "Platform",
+  siteType: "Site type",
+  country: "Store country",
+  tech: "Tech stack"
+};
+
+const LEAD_FIELDS = Object.keys(LEAD_FIELD_LABELS) as LeadField[];
+
+const TARGET_HINTS: Record<ConnectorName, string> = {
+  hubspot: "Creates or updates HubSpot companies, matched on their domain. Properties are HubSpot internal names.",
+  pipedrive: "Creates or updates Pipedrive organizations. The domain goes to the custom field set in PIPEDRIVE_DOMAIN_FIELD, which is how existing organizations are found.",
+  webhook: "Posts each lead as signed JSON to the configured webhook URL, keyed by domain."
+};
+
+const toPushLead = (site: Website) => ({
+  domain: site.domain || new URL(site.link).hostname,
+  name: site.title,
+  website: site.homepage || site.link,
+  email: usableEmails(site)[0]?.address,
+  phone: site.contacts?.phones[0]?.number,
+  score: site.score?.score,
+  platform: site.platform && site.platform.name !== "unknown" ? PLATFORM_LABELS[site.platform.name] : undefined,
+  siteType: site.classification ? CATEGORY_LABELS[site.classification.category] : undefined,
+  country: site.shopify?.country,
+  tech: site.tech?.map(tech => tech.name)
+});
+
+// Kept as rows rather than a FieldMapping so a half-typed or repeated property name is not lost
+type MappingRow = [string, LeadField];
+
+const loadMappings = (): Partial<Record<ConnectorName, MappingRow[]>> => {
+  try {
+    return JSON.parse(localStorage.getItem(MAPPINGS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+interface CrmPushPanelProps {
+  sites: Website[];
+  disabled: boolean;
+  onSynced: (synced: { link: string; record: SyncRecord }[]) => void;
+}
+
+export default function CrmPushPanel({ sites, disabled, onSynced }: CrmPushPanelProps) {
+  const [connectors, setConnectors] = useState<ConnectorInfo[]>([]);
+  const [selected, setSelected] = useState<ConnectorName>("hubspot");
+  const [mappings, setMappings] = useState(loadMappings);
+  const [pushing, setPushing] = useState(false);
+  const [summary, setSummary] = useState("");
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    fetch(`${API_BASE}/connectors`)
+      .then(response => (response.ok ? response.json() : Promise.reject(new Error(`Request failed with ${response.status}`))))
+      .then((body: { connectors: ConnectorInfo[] }) => {
+        setConnectors(body.connectors);
+        const configured = body.connectors.find(connector => connector.configured);
+        if (configured) setSelected(configured.name);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load connectors"));
+  }, []);
+
+  const connector = connectors.find(c => c.name === selected);
+  const rows = mappings[selected] || Object.entries(connector?.defaultMapping || {});
+
+  const updateMapping = (next: MappingRow[]) => {
+    const updated = { ...mappings, [selected]: next };
+    setMappings(updated);
+    localStorage.setItem(MAPPINGS_KEY, JSON.stringify(updated));
+  };
+
+  const pushSites = async () => {
+    setPushing(true);
+    setSummary("");
+    setError("");
+
+    const synced: { link: string; record: SyncRecord }[] = [];
+    try {
+      for (let i = 0; i < sites.length; i += PUSH_BATCH_SIZE) {
+        const batch = sites.slice(i, i + PUSH_BATCH_SIZE);
+        const response = await fetch(`${API_BASE}/connectors/${selected}/push`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            leads: batch.map(toPushLead),
+            // Blank property names are still being typed; leave them out
+            mapping: Object.fromEntries(rows.filter(([property]) => property.trim())) as FieldMapping
+          })
+        });
+        const body = await response.json();
+        if (!response.ok) throw new Error(body?.error || `Push failed with ${response.status}`);
+
+        // Results come back in the order the leads were sent
+        const results: SyncRecord[] = body.results;
+        synced.push(...results.map((record, index) => ({ link: batch[index].link, record })));
+      }
+
+      const failed = synced.filter(({ record }) => record.status === "failed").length;
+      setSummary(`Pushed ${synced.length - failed} of ${synced.length} leads to ${CONNECTOR_LABELS[selected]}${failed ? `; ${failed} failed` : ""}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Push failed");
+    } finally {
+      // Batches pushed before a failure still update their rows
+      if (synced.length > 0) onSynced(synced);
+      setPushing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="p-2 bg-white border border-gray-300 rounded"
+          value={selected}
+          onChange={(e) => setSelected(e.target.value as ConnectorName)}
+          disabled={pushing}
+        >
+          {connectors.map(c => (
+            <option key={c.name} value={c.name}>
+              {CONNECTOR_LABELS[c.name]}{c.configured ? "" : " (not configured)"}
+            </option>
+          ))}
+        </select>
+        <button
+          className="ml-auto flex items-center gap-2 bg-gray-800 hover:bg-gray-700 px-4 py-2 rounded text-white disabled:bg-gray-400"
+          onClick={pushSites}
+          disabled={disabled || pushing || !connector?.configured || sites.length === 0}
+          title={connector && !connector.configured ? "Set this connector's credentials as worker secrets first" : undefined}
+        >
+          {pushing ? <Loader2 size={18} className="animate-spin" /> : <Send size={18} />}
+          Push {sites.length} shown {sites.length === 1 ? "lead" : "leads"}
+        </button>
+      </div>
+
+      {connector && <div className="text-gray-600">{TARGET_HINTS[connector.name]}</div>}
+
+      {connector && (
+        <div className="space-y-1">
+          {rows.map(([property, field], index) => (
+            <div key={index} className="flex items-center gap-2">
+              <input
+                type="text"
+                className="flex-1 p-1 bg-white border border-gray-300 rounded"
+                placeholder="Property name"
+                value={property}
+                onChange={(e) => updateMapping(rows.map((row, i) => (i === index ? [e.target.value, row[1]] : row)))}
+              />
+              <span className="text-gray-400">←</span>
+              <select
+                className="flex-1 p-1 bg-white border border-gray-300 rounded"
+                value={field}
+                onChange={(e) => updateMapping(rows.map((row, i) => (i === index ? [row[0], e.target.value as LeadField] : row)))}
+              >
+                {LEAD_FIELDS.map(name => (
+                  <option key={name} value={name}>{LEAD_FIELD_LABELS[name]}</option>
+                ))}
+              </select>
+              <button className="text-red-500 hover:text-red-700" onClick={() => updateMapping(rows.filter((_, i) => i !== index))}>
+                <X size={14} />
+              </button>
+            </div>
+          ))}
+          <div className="flex gap-3">
+            <button className="flex items-center gap-1 text-blue-600 hover:text-blue-800" onClick={() => updateMapping([...rows, ["", "name"]])}>
+              <Plus size={14} /> Add field
+            </button>
+            <button className="text-gray-500 hover:text-gray-700" onClick={() => updateMapping(Object.entries(connector.defaultMapping))}>
+              Reset to defaults
+            </button>
+          </div>
+        </div>
+      )}
+
+      {summary && <div className="text-gray-600">{summary}</div>}
+      {error && <div className="text-red-600">{error}</div>}
+    </div>
+  );
+}
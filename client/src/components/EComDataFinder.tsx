@@ -1,287 +1,567 @@
-import { useState, useEffect } from "react";
-import { Search, Filter, Mail, Download, FileSpreadsheet, Loader2 } from "lucide-react";
-
-interface Website {
-  title: string;
-  link: string;
-  isDomainActive?: boolean;
-  isShopify?: boolean;
-  isFastLoading?: boolean;
-  error?: boolean;
-}
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import { Search, Filter, Mail, Download, Loader2, Database, Pause, Play, Square, RotateCcw, Trash2 } from "lucide-react";
+import { API_BASE, postEventStream } from "../api";
+import { startCheckRun } from "../checkRun";
+import type { CheckRun, CheckRunState } from "../checkRun";
+import { DEFAULT_FILTERS, fastThreshold, filterSites } from "../filters";
+import type { SiteFilters, SpeedMetric } from "../filters";
+import { CATEGORY_LABELS, PLATFORM_LABELS } from "../labels";
+import {
+  createSearch,
+  findSearch,
+  loadProjects,
+  loadResults,
+  saveActiveSearch,
+  saveProjects,
+  saveResults,
+  searchName,
+  updateProject,
+  updateSearch
+} from "../projects";
+import type { ActiveSearch, Project, SavedSearch, SearchParams } from "../projects";
+import { DEFAULT_TABLE_VIEW, rowKey, viewRows } from "../resultsTable";
+import type { RowStatus, TableView } from "../resultsTable";
+import BackgroundJobPanel from "./BackgroundJobPanel";
+import CrmPushPanel from "./CrmPushPanel";
+import ExportDialog from "./ExportDialog";
+import ImportPanel from "./ImportPanel";
+import ProjectSidebar from "./ProjectSidebar";
+import ResultsTable from "./ResultsTable";
+import ScoringPanel from "./ScoringPanel";
+import type {
+  EmailResult,
+  Job,
+  Lead,
+  LeadScore,
+  PlatformName,
+  ProgressEvent,
+  ProgressStage,
+  SearchMetadata,
+  SearchProviderName,
+  SearchStopReason,
+  SiteCategory,
+  SiteCheckResult,
+  SyncRecord,
+  Website
+} from "../types";
+
+const SEARCH_PROVIDER_LABELS: Record<SearchProviderName, string> = {
+  serpapi: "Google (SerpAPI)",
+  bing: "Bing",
+  brave: "Brave Search",
+  fixture: "Offline fixture"
+};
+
+const STOP_REASON_LABELS: Record<SearchStopReason, string> = {
+  count_reached: "requested count reached",
+  exhausted: "no more results from the search engine",
+  page_budget: "page limit reached",
+  provider_error: "search engine error"
+};
+
+// The server scrapes at most this many sites per /fetchEmail request
+const EMAIL_BATCH_SIZE = 20;
 
-const STORAGE_KEYS = {
-  FULL_RESULTS: "ecom_finder_full_results",
-  FILTERED_RESULTS: "ecom_finder_filtered_results",
-  DOMAIN_ACTIVE: "ecom_finder_domain_active",
-  SHOPIFY: "ecom_finder_shopify",
-  FAST_LOADING: "ecom_finder_fast_loading"
+// Most leads loaded from the lead store at once
+const SAVED_LEADS_LIMIT = 500;
+
+const leadToWebsite = (lead: Lead): Website => ({
+  title: lead.title,
+  link: lead.link,
+  domain: lead.domain,
+  isDomainActive: lead.enrichment.check?.isDomainActive,
+  platform: lead.enrichment.check?.platform,
+  classification: lead.enrichment.check?.classification,
+  shopify: lead.enrichment.check?.shopify,
+  tech: lead.enrichment.check?.tech,
+  isFastLoading: lead.enrichment.check?.loadsFast,
+  metrics: lead.enrichment.check?.metrics,
+  emails: lead.enrichment.email?.emails,
+  contacts: lead.enrichment.email?.contacts,
+  skippedPages: lead.enrichment.email?.skipped,
+  emailStatus: lead.enrichment.email?.status
+});
+
+// Choices for the "newest Shopify product" filter, in days
+const ACTIVITY_WINDOWS = [30, 90, 180, 365];
+
+const SPEED_METRIC_LABELS: Record<SpeedMetric, string> = {
+  downloadTime: "Load time (ms)",
+  ttfb: "Time to first byte (ms)",
+  htmlBytes: "Page size (KB)"
 };
 
+const PROGRESS_STAGE_LABELS: Record<ProgressStage, string> = {
+  search: "Searching",
+  check: "Checking websites",
+  email: "Fetching email IDs"
+};
+
+interface ErrorLogEntry {
+  stage: ProgressStage;
+  url?: string;
+  message: string;
+}
+
+const withCheckResult = (site: Website, result: SiteCheckResult | null): Website =>
+  result
+    ? {
+        ...site,
+        isDomainActive: result.isDomainActive,
+        platform: result.platform,
+        // The page-level classification supersedes the one made from the search result
+        classification: result.classification || site.classification,
+        shopify: result.shopify,
+        tech: result.tech,
+        isFastLoading: result.loadsFast,
+        metrics: result.metrics,
+        error: false
+      }
+    : { ...site, isDomainActive: false, isFastLoading: false, error: true };
+
+// Rows whose check failed, or that a cancelled run never reached
+const needsCheck = (site: Website) => site.error || site.isDomainActive === undefined;
+
 export default function EComDataFinder() {
-  const [keyword, setKeyword] = useState("");
+  const [city, setCity] = useState("");
   const [region, setRegion] = useState("");
   const [count, setCount] = useState("100");
   const [industryKeyword, setIndustryKeyword] = useState("");
+  const [searchProvider, setSearchProvider] = useState<SearchProviderName>("serpapi");
+
+  const [filters, setFilters] = useState<SiteFilters>(DEFAULT_FILTERS);
 
-  const [domainActive, setDomainActive] = useState(false);
-  const [onlyShopify, setOnlyShopify] = useState(false);
-  const [fastLoading, setFastLoading] = useState(false);
-  const [excludeWebsites, setExcludeWebsites] = useState("");
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [active, setActive] = useState<ActiveSearch>({ projectId: "", searchId: null });
+  // Mirrors `projects` for searches and checks that outlive the render they started in
+  const projectsRef = useRef<Project[]>([]);
 
   const [fullResults, setFullResults] = useState<Website[]>([]);
   const [websiteData, setWebsiteData] = useState<Website[]>([]);
   const [loading, setLoading] = useState(false);
   const [checkingFilters, setCheckingFilters] = useState(false);
+  const [fetchingEmails, setFetchingEmails] = useState(false);
   const [error, setError] = useState("");
+  const [searchMetadata, setSearchMetadata] = useState<SearchMetadata | null>(null);
+  const [leadQuery, setLeadQuery] = useState("");
+  const [loadingLeads, setLoadingLeads] = useState(false);
   const [phase, setPhase] = useState("idle"); // idle, fetching, checking, ready
+  // Live progress of the running search, check or email lookup
+  const [progress, setProgress] = useState<{ stage: ProgressStage; done: number; total: number } | null>(null);
+  const [errorLog, setErrorLog] = useState<ErrorLogEntry[]>([]);
+  // Where each row stands in the running check or email lookup, by link
+  const [rowStatuses, setRowStatuses] = useState<Record<string, RowStatus>>({});
+  const [checkRunState, setCheckRunState] = useState<CheckRunState | null>(null);
+  const checkRun = useRef<CheckRun | null>(null);
+  const [view, setView] = useState<TableView>(DEFAULT_TABLE_VIEW);
+  // Row keys of the selected results
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [exportSites, setExportSites] = useState<Website[] | null>(null);
+
+  const setFilter = <K extends keyof SiteFilters>(key: K, value: SiteFilters[K]) =>
+    setFilters(prev => ({ ...prev, [key]: value }));
+
+  const searchParams = (): SearchParams => ({
+    industryKeyword,
+    region,
+    city,
+    count: parseInt(count) || 100,
+    provider: searchProvider
+  });
+
+  const showSearchParams = useCallback((params: SearchParams) => {
+    setIndustryKeyword(params.industryKeyword);
+    setRegion(params.region);
+    setCity(params.city);
+    setCount(String(params.count));
+    setSearchProvider(params.provider);
+  }, []);
+
+  const changeProjects = (next: Project[]) => {
+    saveProjects(next);
+    projectsRef.current = next;
+    setProjects(next);
+  };
 
-  const sampleData: Website[] = [
-    {
-      title: "Irish Clothing",
-      link: "https://www.theirishstore.com/irish-clothing",
-      isDomainActive: true,
-      isShopify: false,
-      isFastLoading: true
-    },
-    {
-      title: "Dunnes Stores: Home",
-      link: "https://www.dunnesstores.com/",
-      isDomainActive: true,
-      isShopify: false,
-      isFastLoading: true
-    },
-    {
-      title: "Pamela Scott",
-      link: "https://www.pamelascott.com/",
-      isDomainActive: true,
-      isShopify: true,
-      isFastLoading: false
-    },
-    {
-      title: "Born Clothing",
-      link: "https://bornclothing.ie/",
-      isDomainActive: true,
-      isShopify: true,
-      isFastLoading: true
-    },
-    {
-      title: "Very Ireland",
-      link: "https://www.very.ie/",
-      isDomainActive: false,
-      isShopify: false,
-      isFastLoading: false
+  // Update the project index, reporting rather than throwing when storage is full
+  const commitProjects = (update: (projects: Project[]) => Project[]) => {
+    try {
+      changeProjects(update(projectsRef.current));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the project");
     }
-  ];
+  };
 
-  // Initialize from localStorage on first load
-  useEffect(() => {
+  // Save a search's results and bring its entry in the index up to date
+  const persistResults = (searchId: string | null, sites: Website[], changes: Partial<SavedSearch> = {}) => {
+    if (!searchId) return;
     try {
-      const savedFullResults = localStorage.getItem(STORAGE_KEYS.FULL_RESULTS);
-      const savedFilteredResults = localStorage.getItem(STORAGE_KEYS.FILTERED_RESULTS);
-      
-      if (savedFullResults) {
-        const parsedFullResults = JSON.parse(savedFullResults);
-        setFullResults(parsedFullResults);
-        
-        // If we have filtered results, use those for display
-        if (savedFilteredResults) {
-          setWebsiteData(JSON.parse(savedFilteredResults));
-        } else {
-          setWebsiteData(parsedFullResults);
-        }
-        
-        // Set phase to ready since we already have data
-        setPhase("ready");
-      }
+      saveResults(searchId, sites);
     } catch (err) {
-      console.error("Error loading data from localStorage:", err);
+      setError(err instanceof Error ? err.message : "Failed to save the results");
+      return;
+    }
+    commitProjects(list => updateSearch(list, searchId, { ...changes, resultCount: sites.length }));
+  };
+
+  const selectActive = useCallback((target: ActiveSearch) => {
+    setActive(target);
+    try {
+      saveActiveSearch(target);
+    } catch (err) {
+      console.error("Error saving the open search:", err);
     }
   }, []);
 
-  // Function to check if a website is valid (simulating the checkSite endpoint but locally)
-  const checkWebsite = async (url: string) => {
+  // Show a saved search with the filters it was last viewed with
+  const openSearch = useCallback((target: ActiveSearch) => {
+    const search = findSearch(projectsRef.current, target.searchId);
+    const sites = search ? loadResults(search.id) : [];
+    const searchFilters = search?.filters || DEFAULT_FILTERS;
+
+    selectActive(target);
+    if (search?.params) showSearchParams(search.params);
+    setFilters(searchFilters);
+    setFullResults(sites);
+    setWebsiteData(filterSites(sites, searchFilters));
+    setSearchMetadata(search?.metadata || null);
+    setError("");
+    setErrorLog([]);
+    setRowStatuses({});
+    setSelected(new Set());
+    // Keep the sort order, but column filters were meant for the last results
+    setView(prev => ({ ...prev, filters: {}, quickSearch: "" }));
+    setPhase(sites.length > 0 ? "ready" : "idle");
+  }, [selectActive, showSearchParams]);
+
+  // Restore the projects and open the search that was open last time
+  useEffect(() => {
     try {
-      // Simulate network request with a short delay (200-800ms)
-      await new Promise(resolve => setTimeout(resolve, 200 + Math.random() * 600));
-      
-      // For demo purposes, generate somewhat random results
-      // In a real app, you would make actual fetch requests to check
-      const isDomainActive = Math.random() > 0.2;
-      const isShopify = url.includes("shopify") || Math.random() > 0.7;
-      const isFastLoading = Math.random() > 0.4;
-      
-      return { isDomainActive, isShopify, isFastLoading, error: false };
+      const loaded = loadProjects();
+      projectsRef.current = loaded.projects;
+      setProjects(loaded.projects);
+      openSearch(loaded.active);
     } catch (err) {
-      return { isDomainActive: false, isShopify: false, isFastLoading: false, error: true };
+      console.error("Error loading data from localStorage:", err);
     }
+  }, [openSearch]);
+
+  // Deleting the open project or search moves on to the first one left
+  const updateProjects = (next: Project[]) => {
+    changeProjects(next);
+    const project = next.find(p => p.id === active.projectId) || next[0];
+    const searchId = project.searches.some(s => s.id === active.searchId) ? active.searchId : project.searches[0]?.id || null;
+    if (project.id !== active.projectId || searchId !== active.searchId) openSearch({ projectId: project.id, searchId });
+  };
+
+  // Add a search to the open project and make it the one shown
+  const addSearch = (search: SavedSearch) => {
+    commitProjects(list => updateProject(list, active.projectId, p => ({ ...p, searches: [...p.searches, search] })));
+    selectActive({ projectId: active.projectId, searchId: search.id });
+    setFilters(search.filters);
   };
 
-  // Function to fetch websites
-  const fetchWebsites = async () => {
+  const activeSearch = findSearch(projects, active.searchId);
+
+  const logError = (event: Extract<ProgressEvent, { type: "error" }>) =>
+    setErrorLog(prev => [...prev, { stage: event.stage, url: event.url, message: event.message }]);
+
+  const setRowStatus = (links: string[], status: RowStatus) =>
+    setRowStatuses(prev => ({ ...prev, ...Object.fromEntries(links.map(link => [link, status])) }));
+
+  // Run a search, saving it alongside the project's others; re-running a saved search replaces its results
+  const fetchWebsites = async (params: SearchParams, rerun?: SavedSearch) => {
     setPhase("fetching");
     setLoading(true);
     setError("");
-    
-    // Clear all localStorage data for a fresh start
-    Object.values(STORAGE_KEYS).forEach(key => localStorage.removeItem(key));
-    
-    // Also clear the current state data
+
+    const search = rerun || createSearch(searchName(params), params);
+    if (rerun) {
+      selectActive({ projectId: active.projectId, searchId: rerun.id });
+      setFilters(rerun.filters);
+    } else {
+      addSearch(search);
+    }
+
+    // Clear the current state data
     setWebsiteData([]);
     setFullResults([]);
+    setSearchMetadata(null);
+    setErrorLog([]);
+    setRowStatuses({});
     
+    let initialData: Website[];
+    let metadata: SearchMetadata | null;
     try {
-      // Make API call to get websites with correct parameters
-      const response = await fetch("http://localhost:8787/getWebsites", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          keyword: industryKeyword,
-          region: region,
-          count: parseInt(count) || 100
-        })
-      });
-      
-      // Parse response (or use sample data if API fails)
-      let rawData: Website[] = [];
-      try {
-        rawData = await response.json();
-      } catch (err) {
-        console.warn("Error parsing API response, using sample data");
-      }
-      
-      const initialData = rawData && rawData.length > 0 ? rawData : sampleData;
-      
-      // Show initial data before enrichment
-      setWebsiteData(initialData);
-      setFullResults(initialData);
-      
-      // Move to checking phase
-      setPhase("checking");
-      setLoading(false);
-      setCheckingFilters(true);
-      
-      // Enrich all websites with additional data
-      const enrichedDataPromises = initialData.map(async (site) => {
-        // Check each website
-        const checkResult = await checkWebsite(site.link);
-        
-        // Return enriched website data
-        return {
-          ...site,
-          isDomainActive: checkResult.isDomainActive,
-          isShopify: checkResult.isShopify,
-          isFastLoading: checkResult.isFastLoading,
-          error: checkResult.error
-        };
-      });
-      
-      // Wait for all checks to complete
-      const enrichedData = await Promise.all(enrichedDataPromises);
-      
-      // Update state with fully enriched data
-      setFullResults(enrichedData);
-      setWebsiteData(enrichedData);
-      
-      // Save to localStorage
-      localStorage.setItem(STORAGE_KEYS.FULL_RESULTS, JSON.stringify(enrichedData));
-      localStorage.setItem(STORAGE_KEYS.FILTERED_RESULTS, JSON.stringify(enrichedData));
-      
-      // Save specific filter results
-      const domainActiveResults = enrichedData.filter(site => site.isDomainActive);
-      const shopifyResults = enrichedData.filter(site => site.isShopify);
-      const fastLoadingResults = enrichedData.filter(site => site.isFastLoading);
-      
-      localStorage.setItem(STORAGE_KEYS.DOMAIN_ACTIVE, JSON.stringify(domainActiveResults));
-      localStorage.setItem(STORAGE_KEYS.SHOPIFY, JSON.stringify(shopifyResults));
-      localStorage.setItem(STORAGE_KEYS.FAST_LOADING, JSON.stringify(fastLoadingResults));
-      
+      // Search, following the server's progress as result pages come in
+      const body = await postEventStream<{ results?: Website[]; metadata?: SearchMetadata }>(
+        "/getWebsites",
+        {
+          keyword: params.industryKeyword,
+          // The search engines take the state or city as part of the query
+          region: [params.city, params.region].filter(Boolean).join(" "),
+          count: params.count,
+          provider: params.provider
+        },
+        event => {
+          if (event.type === "progress") setProgress(event);
+          if (event.type === "error") logError(event);
+        }
+      );
+      initialData = body.results || [];
+      metadata = body.metadata || null;
+      setSearchMetadata(metadata);
     } catch (err) {
       console.error("Error fetching websites:", err);
-      setError("Failed to fetch websites. Using sample data instead.");
-      
-      // Use sample data as fallback
-      setFullResults(sampleData);
-      setWebsiteData(sampleData);
-      
-      // Save sample data to localStorage
-      localStorage.setItem(STORAGE_KEYS.FULL_RESULTS, JSON.stringify(sampleData));
-    } finally {
-      setCheckingFilters(false);
+      setError(`Search failed: ${err instanceof Error ? err.message : "unknown error"}`);
+      setLoading(false);
+      setProgress(null);
+      setPhase("idle");
+      return;
+    }
+
+    // Show the search results before enrichment
+    setWebsiteData(initialData);
+    setFullResults(initialData);
+    setLoading(false);
+    persistResults(search.id, initialData, { metadata });
+
+    if (initialData.length === 0) {
+      setError("The search returned no websites.");
       setPhase("ready");
+      return;
     }
+    const checked = await runChecks(initialData, initialData, search.id);
+    setWebsiteData(filterSites(checked, search.filters));
   };
 
-  // Function to apply filters (no API calls, just client-side filtering)
-  const applyFilters = () => {
-    // Start with the full dataset
-    let filtered = [...fullResults];
-    
-    // Apply domain active filter
-    if (domainActive) {
-      filtered = filtered.filter(site => site.isDomainActive);
-    }
-    
-    // Apply Shopify filter
-    if (onlyShopify) {
-      filtered = filtered.filter(site => site.isShopify);
-    }
-    
-    // Apply fast loading filter
-    if (fastLoading) {
-      filtered = filtered.filter(site => site.isFastLoading);
+  const rerunSearch = (search: SavedSearch) => {
+    if (!search.params) return;
+    showSearchParams(search.params);
+    fetchWebsites(search.params, search);
+  };
+
+  // Check `targets` on the server, updating their rows as results arrive, then save
+  // `all` (the full result list) with the checked rows merged in
+  const runChecks = async (all: Website[], targets: Website[], searchId: string | null) => {
+    const sitesByLink = new Map(targets.map(site => [site.link, site]));
+    const checkedByLink = new Map<string, Website>();
+    const merge = (sites: Website[]) => sites.map(site => checkedByLink.get(site.link) || site);
+
+    setPhase("checking");
+    setCheckingFilters(true);
+    setRowStatus([...sitesByLink.keys()], { stage: "check", state: "pending" });
+    setProgress({ stage: "check", done: 0, total: sitesByLink.size });
+
+    const run = startCheckRun([...sitesByLink.keys()], {
+      fastThreshold: fastThreshold(filters),
+      onResult: (link, result, message) => {
+        const site = sitesByLink.get(link);
+        if (!site) return;
+
+        checkedByLink.set(link, withCheckResult(site, result));
+        if (message) setErrorLog(prev => [...prev, { stage: "check", url: link, message }]);
+        setRowStatus([link], { stage: "check", state: result ? "done" : "failed" });
+        setProgress({ stage: "check", done: checkedByLink.size, total: sitesByLink.size });
+        setFullResults(merge);
+        setWebsiteData(merge);
+      },
+      onStateChange: setCheckRunState
+    });
+    checkRun.current = run;
+
+    // A cancelled run leaves the rows it never reached as they were
+    const unchecked = await run.done;
+    checkRun.current = null;
+    setCheckRunState(null);
+    setRowStatuses(prev => {
+      const next = { ...prev };
+      unchecked.forEach(link => delete next[link]);
+      return next;
+    });
+
+    const checked = merge(all);
+    persistResults(searchId, checked);
+    setCheckingFilters(false);
+    setProgress(null);
+    setPhase("ready");
+    return checked;
+  };
+
+  // Save an imported list as a new search and check it like fresh search results
+  const importSites = (sites: Website[], fileName: string) => {
+    const search = createSearch(fileName, null);
+    addSearch(search);
+    setError("");
+    setSearchMetadata(null);
+    setErrorLog([]);
+    setRowStatuses({});
+    setFullResults(sites);
+    setWebsiteData(sites);
+    persistResults(search.id, sites);
+    runChecks(sites, sites, search.id);
+  };
+
+  const failedCount = fullResults.filter(needsCheck).length;
+  const retryFailedChecks = () => runChecks(fullResults, fullResults.filter(needsCheck), active.searchId);
+
+  // Show a background job's results, saving them as a search once the job has finished
+  const showJobResults = (job: Job, sites: Website[]) => {
+    // Reopening the app re-attaches to the last job; its results are saved already
+    if (projectsRef.current.some(project => project.searches.some(search => search.jobId === job.id))) return;
+
+    setFullResults(sites);
+    setWebsiteData(sites);
+    setSearchMetadata(null);
+    setPhase("ready");
+
+    if (job.status !== "completed") {
+      // Nothing is saved until the job is done
+      selectActive({ projectId: active.projectId, searchId: null });
+      return;
     }
-    
-    // Apply excluded websites filter
-    if (excludeWebsites.trim()) {
-      const excluded = excludeWebsites
-        .split(",")
-        .map(term => term.trim().toLowerCase());
-      
-      filtered = filtered.filter(site => 
-        !excluded.some(term => site.link.toLowerCase().includes(term))
-      );
+    const params: SearchParams = {
+      industryKeyword: job.params.keyword,
+      region: job.params.region,
+      city: "",
+      count: job.params.count,
+      provider: job.params.provider
+    };
+    const search = { ...createSearch(searchName(params), params), jobId: job.id };
+    addSearch(search);
+    persistResults(search.id, sites);
+  };
+
+  // Load previously discovered leads from the server's lead store
+  const loadSavedLeads = async () => {
+    setLoadingLeads(true);
+    setError("");
+    setSearchMetadata(null);
+
+    try {
+      const params = new URLSearchParams({ limit: String(SAVED_LEADS_LIMIT) });
+      if (leadQuery.trim()) params.set("q", leadQuery.trim());
+
+      const response = await fetch(`${API_BASE}/leads?${params}`);
+      if (!response.ok) throw new Error(`leads failed with ${response.status}`);
+
+      const { leads }: { leads: Lead[] } = await response.json();
+      const sites = leads.map(leadToWebsite);
+      const search = createSearch(leadQuery.trim() ? `Saved leads: ${leadQuery.trim()}` : "Saved leads", null);
+      addSearch(search);
+      setFullResults(sites);
+      setWebsiteData(sites);
+      persistResults(search.id, sites);
+      setPhase("ready");
+    } catch (err) {
+      console.error("Error loading saved leads:", err);
+      setError("Failed to load saved leads.");
+    } finally {
+      setLoadingLeads(false);
     }
-    
-    // Update state and save to localStorage
-    setWebsiteData(filtered);
-    localStorage.setItem(STORAGE_KEYS.FILTERED_RESULTS, JSON.stringify(filtered));
   };
 
-  // Function to fetch email IDs (placeholder)
-  const fetchEmails = () => {
-    console.log("Fetching emails");
-    // Implement email fetching logic here
+  // Attach fresh scores to every result, including those hidden by the current filters
+  const applyScores = (scores: LeadScore[]) => {
+    const scoresByLink = new Map(scores.map(score => [score.link, score]));
+    const withScores = (sites: Website[]) => sites.map(site => ({ ...site, score: scoresByLink.get(site.link) || site.score }));
+
+    const scoredFull = withScores(fullResults);
+    const scoredFiltered = withScores(websiteData);
+    setFullResults(scoredFull);
+    setWebsiteData(scoredFiltered);
+    setView(prev => ({ ...prev, sort: DEFAULT_TABLE_VIEW.sort }));
+    persistResults(active.searchId, scoredFull);
   };
 
-  // Function to export results to CSV
-  const exportToCsv = () => {
-    if (websiteData.length === 0) return;
-    
-    // Create CSV content
-    const headers = ["Title", "URL", "Domain Active", "Shopify", "Fast Loading"];
-    const rows = websiteData.map(site => [
-      site.title,
-      site.link,
-      site.isDomainActive ? "Yes" : "No",
-      site.isShopify ? "Yes" : "No",
-      site.isFastLoading ? "Yes" : "No"
-    ]);
-    
-    const csvContent = [
-      headers.join(","),
-      ...rows.map(row => row.join(","))
-    ].join("\n");
-    
-    // Create and trigger download
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.setAttribute("href", url);
-    link.setAttribute("download", "ecom_websites.csv");
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
+  const applySyncs = (synced: { link: string; record: SyncRecord }[]) => {
+    const byLink = new Map(synced.map(({ link, record }) => [link, record]));
+    const withSyncs = (sites: Website[]) =>
+      sites.map(site => {
+        const record = byLink.get(site.link);
+        return record ? { ...site, syncs: { ...site.syncs, [record.connector]: record } } : site;
+      });
+
+    const syncedFull = withSyncs(fullResults);
+    const syncedFiltered = withSyncs(websiteData);
+    setFullResults(syncedFull);
+    setWebsiteData(syncedFiltered);
+    persistResults(active.searchId, syncedFull);
+  };
+
+  // The filtered results as the table shows them, after its quick search, column filters and sort
+  const displayedData = useMemo(() => viewRows(websiteData, view), [websiteData, view]);
+  const selectedSites = displayedData.filter(site => selected.has(rowKey(site)));
+
+  const removeSelected = () => {
+    if (!window.confirm(`Remove ${selectedSites.length} websites from these results?`)) return;
+    const removed = new Set(selectedSites.map(rowKey));
+    const keep = (sites: Website[]) => sites.filter(site => !removed.has(rowKey(site)));
+
+    const remaining = keep(fullResults);
+    setFullResults(remaining);
+    setWebsiteData(keep(websiteData));
+    setSelected(new Set());
+    persistResults(active.searchId, remaining);
+  };
+
+  // Every technology seen in the results, most common first
+  const techCounts = [...fullResults.reduce((counts, site) => {
+    (site.tech || []).forEach(tech => counts.set(tech.name, (counts.get(tech.name) || 0) + 1));
+    return counts;
+  }, new Map<string, number>())].sort((a, b) => b[1] - a[1]);
+
+  // Function to apply filters (no API calls, just client-side filtering)
+  const applyFilters = () => {
+    setWebsiteData(filterSites(fullResults, filters));
+    // Remember them with the search so they come back when it is reopened
+    const searchId = active.searchId;
+    if (searchId) commitProjects(list => updateSearch(list, searchId, { filters }));
+  };
+
+  // Function to fetch email IDs for the given websites, merging them into the results
+  const fetchEmails = async (targets: Website[]) => {
+    if (targets.length === 0) return;
+
+    setFetchingEmails(true);
+    setError("");
+
+    const emailsByLink = new Map<string, EmailResult>();
+    const mergeEmails = (sites: Website[]) =>
+      sites.map(site => {
+        const result = emailsByLink.get(site.link);
+        return result ? { ...site, emails: result.emails, contacts: result.contacts, emailStatus: result.status, skippedPages: result.skipped } : site;
+      });
+
+    const total = targets.length;
+    setRowStatus(targets.map(site => site.link), { stage: "email", state: "pending" });
+    setProgress({ stage: "email", done: 0, total });
+
+    try {
+      for (let i = 0; i < total; i += EMAIL_BATCH_SIZE) {
+        const batch = targets.slice(i, i + EMAIL_BATCH_SIZE);
+        await postEventStream("/fetchEmail", { links: batch.map(({ title, link }) => ({ title, link })), region }, event => {
+          if (event.type === "progress") setProgress({ stage: "email", done: i + event.done, total });
+          if (event.type === "error") logError(event);
+          if (event.type !== "site" || event.stage !== "email") return;
+
+          // Show each site's emails as soon as it is done
+          emailsByLink.set(event.result.link, event.result);
+          setRowStatus([batch[event.index].link], { stage: "email", state: event.result.status === "error" ? "failed" : "done" });
+          setWebsiteData(prev => mergeEmails(prev));
+          setFullResults(prev => mergeEmails(prev));
+        });
+      }
+    } catch (err) {
+      console.error("Error fetching emails:", err);
+      setError("Failed to fetch emails for some websites.");
+    } finally {
+      persistResults(active.searchId, mergeEmails(fullResults));
+      setRowStatuses(prev => Object.fromEntries(Object.entries(prev).map(([link, status]) =>
+        [link, status.state === "pending" ? { ...status, state: "failed" } : status])));
+      setProgress(null);
+      setFetchingEmails(false);
+    }
   };
 
   return (
@@ -292,283 +572,508 @@ export default function EComDataFinder() {
           <h1 className="text-xl font-semibold">E-Com Data Finder</h1>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-          {/* Fetch Websites Section */}
-          <div className="border border-gray-200 rounded-lg p-4">
-            <h2 className="font-medium mb-4">Fetch Websites</h2>
-            <div className="space-y-4">
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">Country</label>
-                <select
-                  className="w-full p-2 bg-white border border-gray-300 rounded"
-                  value={region}
-                  onChange={(e) => setRegion(e.target.value)}
-                  disabled={loading || checkingFilters}
-                >
-                  <option value="">Select country</option>
-                  <option value="United States">United States</option>
-                  <option value="Canada">Canada</option>
-                  <option value="United Kingdom">United Kingdom</option>
-                  <option value="Ireland">Ireland</option>
-                  <option value="India">India</option>
-                  <option value="Australia">Australia</option>
-                </select>
-              </div>
+        <div className="flex flex-col lg:flex-row gap-6">
+          <aside className="lg:w-64 shrink-0">
+            <ProjectSidebar
+              projects={projects}
+              active={active}
+              disabled={loading || checkingFilters || fetchingEmails || loadingLeads}
+              onSelect={openSearch}
+              onChange={updateProjects}
+              onRerun={rerunSearch}
+            />
+          </aside>
 
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">State/city keyword</label>
-                <input
-                  type="text"
-                  className="w-full p-2 bg-white border border-gray-300 rounded"
-                  placeholder="Texas"
-                  value={keyword}
-                  onChange={(e) => setKeyword(e.target.value)}
-                  disabled={loading || checkingFilters}
-                />
-              </div>
+          <div className="flex-1 min-w-0">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              {/* Fetch Websites Section */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h2 className="font-medium mb-4">Fetch Websites</h2>
+                <div className="space-y-4">
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Country</label>
+                    <select
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      value={region}
+                      onChange={(e) => setRegion(e.target.value)}
+                      disabled={loading || checkingFilters}
+                    >
+                      <option value="">Select country</option>
+                      <option value="United States">United States</option>
+                      <option value="Canada">Canada</option>
+                      <option value="United Kingdom">United Kingdom</option>
+                      <option value="Ireland">Ireland</option>
+                      <option value="India">India</option>
+                      <option value="Australia">Australia</option>
+                    </select>
+                  </div>
 
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">Industry keyword</label>
-                <input
-                  type="text"
-                  className="w-full p-2 bg-white border border-gray-300 rounded"
-                  placeholder="Eyeglasses store"
-                  value={industryKeyword}
-                  onChange={(e) => setIndustryKeyword(e.target.value)}
-                  disabled={loading || checkingFilters}
-                />
-              </div>
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">State/city keyword</label>
+                    <input
+                      type="text"
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      placeholder="Texas"
+                      value={city}
+                      onChange={(e) => setCity(e.target.value)}
+                      disabled={loading || checkingFilters}
+                    />
+                  </div>
 
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">Count</label>
-                <input
-                  type="number"
-                  className="w-full p-2 bg-white border border-gray-300 rounded"
-                  value={count}
-                  onChange={(e) => setCount(e.target.value)}
-                  disabled={loading || checkingFilters}
-                />
-              </div>
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Industry keyword</label>
+                    <input
+                      type="text"
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      placeholder="Eyeglasses store"
+                      value={industryKeyword}
+                      onChange={(e) => setIndustryKeyword(e.target.value)}
+                      disabled={loading || checkingFilters}
+                    />
+                  </div>
 
-              <button
-                className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 p-2 rounded text-white disabled:bg-gray-400"
-                onClick={fetchWebsites}
-                disabled={loading || checkingFilters}
-              >
-                {loading ? <Loader2 size={18} className="animate-spin" /> : <Search size={18} />}
-                {phase === "fetching" ? "Fetching Websites..." : 
-                 phase === "checking" ? "Checking Filters..." : 
-                 "Fetch Websites"}
-              </button>
-            </div>
-          </div>
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Count</label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={1000}
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      value={count}
+                      onChange={(e) => setCount(e.target.value)}
+                      disabled={loading || checkingFilters}
+                    />
+                  </div>
 
-          {/* Filter Section */}
-          <div className="border border-gray-200 rounded-lg p-4">
-            <h2 className="font-medium mb-4">Filter Websites</h2>
-            <div className="space-y-4">
-              <div className="bg-gray-100 p-3 rounded">
-                <label className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    className="rounded"
-                    checked={domainActive}
-                    onChange={() => setDomainActive(!domainActive)}
-                    disabled={checkingFilters}
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Search engine</label>
+                    <select
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      value={searchProvider}
+                      onChange={(e) => setSearchProvider(e.target.value as SearchProviderName)}
+                      disabled={loading || checkingFilters}
+                    >
+                      {(Object.keys(SEARCH_PROVIDER_LABELS) as SearchProviderName[]).map(name => (
+                        <option key={name} value={name}>{SEARCH_PROVIDER_LABELS[name]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <button
+                    className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 p-2 rounded text-white disabled:bg-gray-400"
+                    onClick={() => fetchWebsites(searchParams())}
+                    disabled={loading || checkingFilters}
+                  >
+                    {loading ? <Loader2 size={18} className="animate-spin" /> : <Search size={18} />}
+                    {phase === "fetching" ? "Fetching Websites..." : 
+                     phase === "checking" ? "Checking Filters..." : 
+                     "Fetch Websites"}
+                  </button>
+
+                  <BackgroundJobPanel
+                    keyword={industryKeyword}
+                    region={region}
+                    count={parseInt(count) || 100}
+                    provider={searchProvider}
+                    disabled={loading || checkingFilters}
+                    onResults={showJobResults}
                   />
-                  <span>Domain Active</span>
-                </label>
+                </div>
               </div>
 
-              <div className="bg-gray-100 p-3 rounded">
-                <label className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    className="rounded"
-                    checked={onlyShopify}
-                    onChange={() => setOnlyShopify(!onlyShopify)}
-                    disabled={checkingFilters}
-                  />
-                  <span>Only Shopify websites</span>
-                </label>
+              {/* Filter Section */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h2 className="font-medium mb-4">Filter Websites</h2>
+                <div className="space-y-4">
+                  <div className="bg-gray-100 p-3 rounded">
+                    <label className="flex items-center space-x-2">
+                      <input
+                        type="checkbox"
+                        className="rounded"
+                        checked={filters.domainActive}
+                        onChange={() => setFilter("domainActive", !filters.domainActive)}
+                        disabled={checkingFilters}
+                      />
+                      <span>Domain Active</span>
+                    </label>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Platform</label>
+                    <select
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      value={filters.platform}
+                      onChange={(e) => setFilter("platform", e.target.value as PlatformName | "")}
+                      disabled={checkingFilters}
+                    >
+                      <option value="">Any platform</option>
+                      {(Object.keys(PLATFORM_LABELS) as PlatformName[]).map(name => (
+                        <option key={name} value={name}>
+                          {PLATFORM_LABELS[name]} ({fullResults.filter(site => (site.platform?.name || "unknown") === name).length})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Site type</label>
+                    <select
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      value={filters.category}
+                      onChange={(e) => setFilter("category", e.target.value as SiteCategory | "")}
+                      disabled={checkingFilters}
+                    >
+                      <option value="">Any type</option>
+                      {(Object.keys(CATEGORY_LABELS) as SiteCategory[]).map(category => (
+                        <option key={category} value={category}>
+                          {CATEGORY_LABELS[category]} ({fullResults.filter(site => site.classification?.category === category).length})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Shopify products</label>
+                    <div className="flex gap-2">
+                      <input
+                        type="number"
+                        min="0"
+                        className="w-full p-2 bg-white border border-gray-300 rounded"
+                        placeholder="Min"
+                        value={filters.minProducts}
+                        onChange={(e) => setFilter("minProducts", e.target.value)}
+                        disabled={checkingFilters}
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        className="w-full p-2 bg-white border border-gray-300 rounded"
+                        placeholder="Max"
+                        value={filters.maxProducts}
+                        onChange={(e) => setFilter("maxProducts", e.target.value)}
+                        disabled={checkingFilters}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Newest Shopify product</label>
+                    <select
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      value={filters.activeWithinDays}
+                      onChange={(e) => setFilter("activeWithinDays", e.target.value)}
+                      disabled={checkingFilters}
+                    >
+                      <option value="">Any time</option>
+                      {ACTIVITY_WINDOWS.map(days => (
+                        <option key={days} value={days}>Within {days} days</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Tech stack</label>
+                    <div className="flex gap-2">
+                      <select
+                        className="w-full p-2 bg-white border border-gray-300 rounded"
+                        value={filters.usesTech}
+                        onChange={(e) => setFilter("usesTech", e.target.value)}
+                        disabled={checkingFilters}
+                      >
+                        <option value="">Uses anything</option>
+                        {techCounts.map(([name, siteCount]) => (
+                          <option key={name} value={name}>Uses {name} ({siteCount})</option>
+                        ))}
+                      </select>
+                      <select
+                        className="w-full p-2 bg-white border border-gray-300 rounded"
+                        value={filters.lacksTech}
+                        onChange={(e) => setFilter("lacksTech", e.target.value)}
+                        disabled={checkingFilters}
+                      >
+                        <option value="">Lacks nothing</option>
+                        {techCounts.map(([name]) => (
+                          <option key={name} value={name}>No {name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Speed</label>
+                    <div className="flex gap-2">
+                      <select
+                        className="w-full p-2 bg-white border border-gray-300 rounded"
+                        value={filters.speedMetric}
+                        onChange={(e) => setFilter("speedMetric", e.target.value as SpeedMetric)}
+                        disabled={checkingFilters}
+                      >
+                        {(Object.keys(SPEED_METRIC_LABELS) as SpeedMetric[]).map(metric => (
+                          <option key={metric} value={metric}>{SPEED_METRIC_LABELS[metric]}</option>
+                        ))}
+                      </select>
+                      <input
+                        type="number"
+                        min={0}
+                        className="w-full p-2 bg-white border border-gray-300 rounded"
+                        placeholder="At most"
+                        title="A load time limit also sets which sites the next check marks as fast"
+                        value={filters.speedLimit}
+                        onChange={(e) => setFilter("speedLimit", e.target.value)}
+                        disabled={checkingFilters}
+                      />
+                    </div>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-gray-600 mb-1">Exclude the websites</label>
+                    <input
+                      type="text"
+                      className="w-full p-2 bg-white border border-gray-300 rounded"
+                      placeholder="Comma separated substrings"
+                      value={filters.excludeWebsites}
+                      onChange={(e) => setFilter("excludeWebsites", e.target.value)}
+                      disabled={checkingFilters}
+                    />
+                  </div>
+
+                  <button
+                    className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 p-2 rounded text-white disabled:bg-gray-400"
+                    onClick={applyFilters}
+                    disabled={fullResults.length === 0 || checkingFilters}
+                  >
+                    <Filter size={18} />
+                    Apply Filters
+                  </button>
+                </div>
               </div>
 
-              <div className="bg-gray-100 p-3 rounded">
-                <label className="flex items-center space-x-2">
-                  <input
-                    type="checkbox"
-                    className="rounded"
-                    checked={fastLoading}
-                    onChange={() => setFastLoading(!fastLoading)}
-                    disabled={checkingFilters}
+              {/* Fetch Email IDs Section */}
+              <div className="border border-gray-200 rounded-lg p-4">
+                <h2 className="font-medium mb-4">Fetch Email IDs</h2>
+                <div className="space-y-4">
+                  <ImportPanel
+                    disabled={loading || checkingFilters || fetchingEmails}
+                    onImport={importSites}
                   />
-                  <span>Loads within 5 secs</span>
-                </label>
-              </div>
 
-              <div>
-                <label className="block text-sm text-gray-600 mb-1">Exclude the websites</label>
-                <input
-                  type="text"
-                  className="w-full p-2 bg-white border border-gray-300 rounded"
-                  placeholder="Comma separated substrings"
-                  value={excludeWebsites}
-                  onChange={(e) => setExcludeWebsites(e.target.value)}
-                  disabled={checkingFilters}
-                />
+                  <button
+                    className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 p-2 rounded text-white disabled:bg-gray-400"
+                    onClick={() => fetchEmails(displayedData)}
+                    disabled={displayedData.length === 0 || loading || checkingFilters || fetchingEmails}
+                  >
+                    {fetchingEmails ? <Loader2 size={18} className="animate-spin" /> : <Mail size={18} />}
+                    {fetchingEmails ? "Fetching Email IDs..." : "Fetch Email IDs"}
+                  </button>
+                </div>
               </div>
+            </div>
 
-              <button
-                className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 p-2 rounded text-white disabled:bg-gray-400"
-                onClick={applyFilters}
-                disabled={fullResults.length === 0 || checkingFilters}
-              >
-                <Filter size={18} />
-                Apply Filters
-              </button>
+            {/* Lead Scoring Section */}
+            <div className="border border-gray-200 rounded-lg p-4 mt-6">
+              <h2 className="font-medium mb-4">Lead Scoring</h2>
+              <ScoringPanel
+                sites={fullResults}
+                disabled={loading || checkingFilters || fetchingEmails}
+                onScores={applyScores}
+              />
             </div>
-          </div>
 
-          {/* Fetch Email IDs Section */}
-          <div className="border border-gray-200 rounded-lg p-4">
-            <h2 className="font-medium mb-4">Fetch Email IDs</h2>
-            <div className="space-y-4">
-              <div className="border-2 border-dashed border-gray-300 p-6 rounded flex flex-col items-center justify-center">
-                <FileSpreadsheet size={24} className="text-gray-400 mb-2" />
-                <p className="text-sm text-gray-600">Drop your CSV file here or</p>
-                <div className="flex gap-2 mt-2">
-                  <div className="text-gray-600 text-sm">Websites_filtered1.csv</div>
-                  <button className="text-sm text-blue-600 hover:text-blue-800">
-                    Browse Files
+            {/* CRM Push Section */}
+            <div className="border border-gray-200 rounded-lg p-4 mt-6">
+              <h2 className="font-medium mb-4">Push to CRM</h2>
+              <CrmPushPanel
+                sites={displayedData}
+                disabled={loading || checkingFilters || fetchingEmails}
+                onSynced={applySyncs}
+              />
+            </div>
+
+            {/* Results Section */}
+            <div className="mt-8">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="font-medium">
+                  Results 
+                  {activeSearch && <span className="text-gray-500 font-normal">· {activeSearch.name}</span>}
+                  {phase === "checking" && (
+                    <span className="text-sm text-gray-500 ml-2">
+                      (Checking and enriching data...)
+                    </span>
+                  )}
+                  {websiteData.length > 0 && phase === "ready" && (
+                    <span className="text-sm text-gray-500 ml-2">
+                      ({displayedData.length === websiteData.length ? websiteData.length : `${displayedData.length} of ${websiteData.length}`} websites)
+                    </span>
+                  )}
+                </h2>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    className="p-1 bg-white border border-gray-300 rounded text-sm"
+                    placeholder="Search saved leads"
+                    value={leadQuery}
+                    onChange={(e) => setLeadQuery(e.target.value)}
+                    disabled={loadingLeads}
+                  />
+                  <button
+                    className="flex items-center gap-2 bg-gray-200 hover:bg-gray-300 px-4 py-1 rounded text-sm disabled:bg-gray-100 disabled:text-gray-400"
+                    onClick={loadSavedLeads}
+                    disabled={loading || checkingFilters || fetchingEmails || loadingLeads}
+                  >
+                    {loadingLeads ? <Loader2 size={16} className="animate-spin" /> : <Database size={16} />}
+                    Saved leads
+                  </button>
+                  {failedCount > 0 && (
+                    <button
+                      className="flex items-center gap-2 bg-gray-200 hover:bg-gray-300 px-4 py-1 rounded text-sm disabled:bg-gray-100 disabled:text-gray-400"
+                      onClick={retryFailedChecks}
+                      disabled={loading || checkingFilters || fetchingEmails}
+                      title="Check again the websites whose check failed or was cancelled"
+                    >
+                      <RotateCcw size={16} />
+                      Retry {failedCount} unchecked
+                    </button>
+                  )}
+                  <button
+                    className="flex items-center gap-2 bg-gray-200 hover:bg-gray-300 px-4 py-1 rounded text-sm disabled:bg-gray-100 disabled:text-gray-400"
+                    onClick={() => setExportSites(displayedData)}
+                    disabled={displayedData.length === 0 || loading || checkingFilters || fetchingEmails}
+                  >
+                    <Download size={16} />
+                    Export...
                   </button>
                 </div>
               </div>
 
-              <button
-                className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 p-2 rounded text-white disabled:bg-gray-400"
-                onClick={fetchEmails}
-                disabled={websiteData.length === 0 || loading || checkingFilters}
-              >
-                <Mail size={18} />
-                Fetch Email IDs
-              </button>
-            </div>
-          </div>
-        </div>
+              {error && <div className="text-red-600 mb-4">{error}</div>}
+
+              {searchMetadata && (
+                <div className="text-sm text-gray-500 mb-4">
+                  Found {searchMetadata.returned} of {searchMetadata.requested} requested websites
+                  across {searchMetadata.pagesFetched} result {searchMetadata.pagesFetched === 1 ? "page" : "pages"}
+                  {" "}({STOP_REASON_LABELS[searchMetadata.stopReason]})
+                  {searchMetadata.newCount !== undefined && `, ${searchMetadata.newCount} new to the lead database`}
+                </div>
+              )}
 
-        {/* Results Section */}
-        <div className="mt-8">
-          <div className="flex justify-between items-center mb-4">
-            <h2 className="font-medium">
-              Results 
-              {phase === "checking" && (
-                <span className="text-sm text-gray-500 ml-2">
-                  (Checking and enriching data...)
-                </span>
+              {progress && (
+                <div className="text-sm text-gray-600 mb-4 space-y-1">
+                  <div className="flex items-center gap-2">
+                    {checkRunState !== "paused" && <Loader2 size={16} className="animate-spin" />}
+                    {PROGRESS_STAGE_LABELS[progress.stage]}: {progress.done} of {progress.total}
+                    {checkRunState === "paused" && " (paused; checks in flight finish first)"}
+                    {checkRunState === "running" && (
+                      <button className="ml-auto flex items-center gap-1 text-gray-700 hover:text-gray-900" onClick={() => checkRun.current?.pause()}>
+                        <Pause size={14} /> Pause
+                      </button>
+                    )}
+                    {checkRunState === "paused" && (
+                      <button className="ml-auto flex items-center gap-1 text-blue-600 hover:text-blue-800" onClick={() => checkRun.current?.resume()}>
+                        <Play size={14} /> Resume
+                      </button>
+                    )}
+                    {(checkRunState === "running" || checkRunState === "paused") && (
+                      <button className="flex items-center gap-1 text-red-600 hover:text-red-800" onClick={() => checkRun.current?.cancel()}>
+                        <Square size={14} /> Cancel
+                      </button>
+                    )}
+                  </div>
+                  <div className="w-full bg-gray-200 rounded h-1.5">
+                    <div
+                      className="bg-gray-800 h-1.5 rounded"
+                      style={{ width: `${progress.total ? Math.min((progress.done / progress.total) * 100, 100) : 0}%` }}
+                    />
+                  </div>
+                </div>
               )}
-              {websiteData.length > 0 && phase === "ready" && (
-                <span className="text-sm text-gray-500 ml-2">
-                  ({websiteData.length} websites)
-                </span>
+
+              {errorLog.length > 0 && (
+                <details className="text-sm border border-red-200 rounded p-2 mb-4">
+                  <summary className="cursor-pointer text-red-700">
+                    {errorLog.length} {errorLog.length === 1 ? "error" : "errors"} during the last run
+                    <button className="ml-3 text-xs text-gray-500 hover:text-gray-700" onClick={() => setErrorLog([])}>
+                      Clear
+                    </button>
+                  </summary>
+                  <ul className="mt-2 space-y-0.5 text-xs text-gray-700 max-h-48 overflow-y-auto">
+                    {errorLog.map((entry, i) => (
+                      <li key={i}>
+                        <span className="text-gray-500">{PROGRESS_STAGE_LABELS[entry.stage]}</span>
+                        {entry.url && <span className="ml-1 text-blue-600">{entry.url}</span>}: {entry.message}
+                      </li>
+                    ))}
+                  </ul>
+                </details>
               )}
-            </h2>
-            <button
-              className="flex items-center gap-2 bg-gray-200 hover:bg-gray-300 px-4 py-1 rounded text-sm disabled:bg-gray-100 disabled:text-gray-400"
-              onClick={exportToCsv}
-              disabled={websiteData.length === 0 || loading || checkingFilters}
-            >
-              <Download size={16} />
-              Export as CSV
-            </button>
-          </div>
 
-          {error && <div className="text-red-600 mb-4">{error}</div>}
+              {selectedSites.length > 0 && (
+                <div className="flex flex-wrap items-center gap-3 text-sm bg-blue-50 border border-blue-200 rounded p-2 mb-2">
+                  <span className="font-medium">{selectedSites.length} selected</span>
+                  <button
+                    className="flex items-center gap-1 text-gray-700 hover:text-gray-900 disabled:text-gray-400"
+                    onClick={() => fetchEmails(selectedSites)}
+                    disabled={loading || checkingFilters || fetchingEmails}
+                  >
+                    <Mail size={14} /> Fetch emails
+                  </button>
+                  <button
+                    className="flex items-center gap-1 text-gray-700 hover:text-gray-900 disabled:text-gray-400"
+                    onClick={() => runChecks(fullResults, selectedSites, active.searchId)}
+                    disabled={loading || checkingFilters || fetchingEmails}
+                  >
+                    <RotateCcw size={14} /> Check again
+                  </button>
+                  <button
+                    className="flex items-center gap-1 text-gray-700 hover:text-gray-900 disabled:text-gray-400"
+                    onClick={() => setExportSites(selectedSites)}
+                    disabled={loading || checkingFilters || fetchingEmails}
+                  >
+                    <Download size={14} /> Export
+                  </button>
+                  <button
+                    className="flex items-center gap-1 text-red-600 hover:text-red-800 disabled:text-gray-400"
+                    onClick={removeSelected}
+                    disabled={loading || checkingFilters || fetchingEmails}
+                  >
+                    <Trash2 size={14} /> Remove
+                  </button>
+                  <button className="ml-auto text-gray-500 hover:text-gray-700" onClick={() => setSelected(new Set())}>
+                    Clear selection
+                  </button>
+                </div>
+              )}
 
-          {phase === "checking" && (
-            <div className="flex items-center justify-center p-4 text-gray-600">
-              <Loader2 size={24} className="animate-spin mr-2" />
-              <span>Checking website filters and enriching data...</span>
+              <ResultsTable
+                rows={displayedData}
+                view={view}
+                onViewChange={setView}
+                selected={selected}
+                onSelectedChange={setSelected}
+                rowStatuses={rowStatuses}
+                emptyMessage={
+                  loading ? (
+                    <div className="flex items-center justify-center">
+                      <Loader2 size={20} className="animate-spin mr-2" />
+                      <span>Loading websites...</span>
+                    </div>
+                  ) : phase === "checking" ? (
+                    <div className="flex items-center justify-center">
+                      <Loader2 size={20} className="animate-spin mr-2" />
+                      <span>Checking website data...</span>
+                    </div>
+                  ) : websiteData.length > 0 ? (
+                    "No websites match the quick search and column filters."
+                  ) : (
+                    "No data available. Use the form above to fetch websites."
+                  )
+                }
+              />
             </div>
-          )}
-
-          <div className="border border-gray-200 rounded overflow-hidden">
-            <table className="w-full">
-              <thead className="bg-gray-100 text-left">
-                <tr>
-                  <th className="p-3">Website / Email ID</th>
-                  <th className="p-3 hidden md:table-cell">Status</th>
-                </tr>
-              </thead>
-              <tbody>
-                {websiteData.length > 0 ? (
-                  websiteData.map((item, index) => (
-                    <tr key={index} className="border-t border-gray-200">
-                      <td className="p-3">
-                        <div className="font-medium">{item.title}</div>
-                        <div className="text-sm text-blue-600">{item.link}</div>
-                        <div className="text-xs text-gray-500 md:hidden mt-1">
-                          {item.isDomainActive !== undefined && (
-                            <span className="mr-2">
-                              Active: {item.isDomainActive ? "✅" : "❌"}
-                            </span>
-                          )}
-                          {item.isShopify !== undefined && (
-                            <span className="mr-2">
-                              Shopify: {item.isShopify ? "✅" : "❌"}
-                            </span>
-                          )}
-                          {item.isFastLoading !== undefined && (
-                            <span>
-                              Fast: {item.isFastLoading ? "✅" : "❌"}
-                            </span>
-                          )}
-                        </div>
-                      </td>
-                      <td className="p-3 hidden md:table-cell">
-                        <div className="flex gap-3">
-                          <span className={`px-2 py-1 rounded text-xs ${
-                            item.isDomainActive ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
-                          }`}>
-                            {item.isDomainActive ? "Active" : "Inactive"}
-                          </span>
-                          <span className={`px-2 py-1 rounded text-xs ${
-                            item.isShopify ? "bg-blue-100 text-blue-800" : "bg-gray-100 text-gray-800"
-                          }`}>
-                            {item.isShopify ? "Shopify" : "Non-Shopify"}
-                          </span>
-                          <span className={`px-2 py-1 rounded text-xs ${
-                            item.isFastLoading ? "bg-purple-100 text-purple-800" : "bg-yellow-100 text-yellow-800"
-                          }`}>
-                            {item.isFastLoading ? "Fast" : "Slow"}
-                          </span>
-                        </div>
-                      </td>
-                    </tr>
-                  ))
-                ) : (
-                  <tr>
-                    <td colSpan={2} className="p-3 text-gray-500 text-center">
-                      {loading ? (
-                        <div className="flex items-center justify-center">
-                          <Loader2 size={20} className="animate-spin mr-2" />
-                          <span>Loading websites...</span>
-                        </div>
-                      ) : phase === "checking" ? (
-                        <div className="flex items-center justify-center">
-                          <Loader2 size={20} className="animate-spin mr-2" />
-                          <span>Checking website data...</span>
-                        </div>
-                      ) : (
-                        "No data available. Use the form above to fetch websites."
-                      )}
-                    </td>
-                  </tr>
-                )}
-              </tbody>
-            </table>
           </div>
         </div>
       </div>
+
+      {exportSites && <ExportDialog sites={exportSites} onClose={() => setExportSites(null)} />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Download, Loader2, X } from "lucide-react";
+import {
+  buildTable,
+  customLayout,
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_PRESETS,
+  exportFile
+} from "../export";
+import type { ExportFormat, ExportMode } from "../export";
+import type { Website } from "../types";
+
+const COLUMNS_KEY = "ecom_finder_export_columns";
+const CUSTOM_LAYOUT = "custom";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  xlsx: "Excel (XLSX)",
+  json: "JSON"
+};
+
+const MODE_LABELS: Record<ExportMode, string> = {
+  site: "One row per website",
+  email: "One row per email address"
+};
+
+const COLUMN_LABELS = new Map(EXPORT_COLUMNS.map(column => [column.id, column.label]));
+
+const loadColumns = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMNS_KEY) || "null");
+    if (Array.isArray(saved)) return saved.filter(id => COLUMN_LABELS.has(id));
+  } catch {
+    // Fall back to the defaults
+  }
+  return DEFAULT_EXPORT_COLUMNS;
+};
+
+interface ExportDialogProps {
+  sites: Website[];
+  onClose: () => void;
+}
+
+export default function ExportDialog({ sites, onClose }: ExportDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("csv");
+  const [layout, setLayout] = useState(CUSTOM_LAYOUT);
+  const [mode, setMode] = useState<ExportMode>("site");
+  const [columns, setColumns] = useState(loadColumns);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState("");
+
+  const preset = EXPORT_PRESETS.find(p => p.id === layout);
+  const fields = preset ? preset.fields : customLayout(columns);
+  const rowMode = preset ? preset.mode : mode;
+  const rowCount = buildTable(sites, fields, rowMode).rows.length;
+
+  const updateColumns = (next: string[]) => {
+    setColumns(next);
+    localStorage.setItem(COLUMNS_KEY, JSON.stringify(next));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...columns];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    updateColumns(next);
+  };
+
+  const runExport = async () => {
+    setExporting(true);
+    setError("");
+    try {
+      await exportFile(sites, fields, rowMode, format, preset ? `ecom_websites_${preset.id}` : "ecom_websites");
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 flex items-center justify-center z-10" onClick={onClose}>
+      <div className="bg-white rounded-lg p-4 w-full max-w-lg max-h-[90vh] overflow-y-auto space-y-4 text-sm" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center">
+          <h2 className="font-medium">Export results</h2>
+          <button className="ml-auto text-gray-500 hover:text-gray-700" onClick={onClose}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <label>
+            <span className="block text-gray-600 mb-1">Format</span>
+            <select
+              className="w-full p-2 bg-white border border-gray-300 rounded"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            >
+              {(Object.keys(FORMAT_LABELS) as ExportFormat[]).map(name => (
+                <option key={name} value={name}>{FORMAT_LABELS[name]}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            <span className="block text-gray-600 mb-1">Layout</span>
+            <select
+              className="w-full p-2 bg-white border border-gray-300 rounded"
+              value={layout}
+              onChange={(e) => setLayout(e.target.value)}
+            >
+              <option value={CUSTOM_LAYOUT}>Custom columns</option>
+              {EXPORT_PRESETS.map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {preset ? (
+          <div className="text-gray-600">
+            One row per email address with the columns {preset.fields.map(field => field.header).join(", ")}.
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-4">
+              {(Object.keys(MODE_LABELS) as ExportMode[]).map(name => (
+                <label key={name} className="flex items-center gap-1">
+                  <input type="radio" checked={mode === name} onChange={() => setMode(name)} />
+                  {MODE_LABELS[name]}
+                </label>
+              ))}
+            </div>
+
+            <div className="border border-gray-200 rounded divide-y divide-gray-100 max-h-64 overflow-y-auto">
+              {columns.map((id, index) => (
+                <div key={id} className="flex items-center gap-2 px-2 py-1">
+                  <span className="flex-1">{COLUMN_LABELS.get(id)}</span>
+                  <button className="text-gray-500 hover:text-gray-800 disabled:text-gray-300" onClick={() => move(index, -1)} disabled={index === 0}>
+                    <ArrowUp size={14} />
+                  </button>
+                  <button
+                    className="text-gray-500 hover:text-gray-800 disabled:text-gray-300"
+                    onClick={() => move(index, 1)}
+                    disabled={index === columns.length - 1}
+                  >
+                    <ArrowDown size={14} />
+                  </button>
+                  <button className="text-red-500 hover:text-red-700" onClick={() => updateColumns(columns.filter(column => column !== id))}>
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex gap-2">
+              <select
+                className="flex-1 p-1 bg-white border border-gray-300 rounded"
+                value=""
+                onChange={(e) => e.target.value && updateColumns([...columns, e.target.value])}
+              >
+                <option value="">Add a column...</option>
+                {EXPORT_COLUMNS.filter(column => !columns.includes(column.id)).map(column => (
+                  <option key={column.id} value={column.id}>{column.label}</option>
+                ))}
+              </select>
+              <button className="text-gray-500 hover:text-gray-700" onClick={() => updateColumns(DEFAULT_EXPORT_COLUMNS)}>
+                Reset
+              </button>
+            </div>
+          </>
+        )}
+
+        {rowMode === "email" && <div className="text-xs text-gray-500">Websites without a usable email address are left out.</div>}
+        {error && <div className="text-red-600">{error}</div>}
+
+        <button
+          className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 p-2 rounded text-white disabled:bg-gray-400"
+          onClick={runExport}
+          disabled={exporting || fields.length === 0 || rowCount === 0}
+        >
+          {exporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+          Export {rowCount} {rowCount === 1 ? "row" : "rows"}
+        </button>
+      </div>
+    </div>
+  );
+}
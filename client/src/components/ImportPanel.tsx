@@ -0,0 +1,218 @@
+import { useState, useRef } from "react";
+import { FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { API_BASE } from "../api";
+import { guessColumns, IMPORT_EXTENSIONS, looksLikeHeader, readTable } from "../importFile";
+import type { ImportRejectReason, ImportResult, Website } from "../types";
+
+// The server imports at most this many rows at once
+const MAX_IMPORT_ROWS = 5000;
+const PREVIEW_ROWS = 3;
+
+const REJECT_REASON_LABELS: Record<ImportRejectReason, string> = {
+  invalid_url: "not a valid website URL",
+  duplicate: "duplicate domain"
+};
+
+interface ImportTable {
+  fileName: string;
+  rows: string[][];
+}
+
+interface ImportPanelProps {
+  disabled: boolean;
+  onImport: (sites: Website[], fileName: string) => void;
+}
+
+export default function ImportPanel({ disabled, onImport }: ImportPanelProps) {
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [hasHeader, setHasHeader] = useState(true);
+  const [urlColumn, setUrlColumn] = useState(0);
+  const [nameColumn, setNameColumn] = useState<number | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [summary, setSummary] = useState("");
+  const [error, setError] = useState("");
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const mapColumns = (rows: string[][], header: boolean) => {
+    const guess = guessColumns(rows, header);
+    setUrlColumn(guess.url);
+    setNameColumn(guess.name);
+  };
+
+  const openFile = async (file: File) => {
+    setError("");
+    setSummary("");
+
+    if (!IMPORT_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension))) {
+      setError(`Unsupported file type. Expected one of: ${IMPORT_EXTENSIONS.join(", ")}`);
+      return;
+    }
+
+    try {
+      const rows = await readTable(file);
+      if (rows.length === 0) throw new Error("The file has no rows");
+
+      const header = looksLikeHeader(rows[0]);
+      setTable({ fileName: file.name, rows });
+      setHasHeader(header);
+      mapColumns(rows, header);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read the file");
+    }
+  };
+
+  const dataRows = table ? table.rows.slice(hasHeader ? 1 : 0) : [];
+  const width = table ? Math.max(...table.rows.map(row => row.length)) : 0;
+  const columnLabel = (column: number) => (hasHeader && table?.rows[0][column]?.trim()) || `Column ${column + 1}`;
+
+  const importRows = async () => {
+    if (!table) return;
+    if (dataRows.length > MAX_IMPORT_ROWS) {
+      setError(`At most ${MAX_IMPORT_ROWS} rows can be imported at once; this file has ${dataRows.length}`);
+      return;
+    }
+
+    setImporting(true);
+    setError("");
+    try {
+      const response = await fetch(`${API_BASE}/import`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          rows: dataRows.map(row => ({ link: row[urlColumn] || "", title: nameColumn === null ? undefined : row[nameColumn] }))
+        })
+      });
+      const body = await response.json();
+      if (!response.ok) throw new Error(body?.error || `Import failed with ${response.status}`);
+
+      const { sites, rejected }: ImportResult = body;
+      const counts = rejected.reduce<Partial<Record<ImportRejectReason, number>>>(
+        (acc, { reason }) => ({ ...acc, [reason]: (acc[reason] || 0) + 1 }),
+        {}
+      );
+      const skipped = (Object.keys(counts) as ImportRejectReason[]).map(reason => `${counts[reason]} ${REJECT_REASON_LABELS[reason]}`);
+      setSummary(`Imported ${sites.length} websites from ${table.fileName}${skipped.length ? `; skipped ${skipped.join(", ")}` : ""}.`);
+      setTable(null);
+
+      if (sites.length > 0) onImport(sites, table.fileName);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Import failed");
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={`border-2 border-dashed p-6 rounded flex flex-col items-center justify-center ${
+          dragging ? "border-gray-600 bg-gray-50" : "border-gray-300"
+        }`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setDragging(true);
+        }}
+        onDragLeave={() => setDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setDragging(false);
+          const file = e.dataTransfer.files[0];
+          if (file && !disabled) openFile(file);
+        }}
+      >
+        <FileSpreadsheet size={24} className="text-gray-400 mb-2" />
+        <p className="text-sm text-gray-600">Drop a CSV, TSV or XLSX file here or</p>
+        <div className="flex gap-2 mt-2">
+          {table && <div className="text-gray-600 text-sm">{table.fileName}</div>}
+          <button
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+            onClick={() => fileInput.current?.click()}
+            disabled={disabled || importing}
+          >
+            Browse Files
+          </button>
+        </div>
+        <input
+          ref={fileInput}
+          type="file"
+          className="hidden"
+          accept={IMPORT_EXTENSIONS.join(",")}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) openFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {table && (
+        <div className="text-sm space-y-2">
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              className="rounded"
+              checked={hasHeader}
+              onChange={() => {
+                setHasHeader(!hasHeader);
+                mapColumns(table.rows, !hasHeader);
+              }}
+            />
+            <span>First row is a header</span>
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <label>
+              <span className="block text-gray-600 mb-1">Website URL column</span>
+              <select
+                className="w-full p-1 bg-white border border-gray-300 rounded"
+                value={urlColumn}
+                onChange={(e) => setUrlColumn(Number(e.target.value))}
+              >
+                {Array.from({ length: width }, (_, column) => (
+                  <option key={column} value={column}>{columnLabel(column)}</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              <span className="block text-gray-600 mb-1">Name column</span>
+              <select
+                className="w-full p-1 bg-white border border-gray-300 rounded"
+                value={nameColumn ?? ""}
+                onChange={(e) => setNameColumn(e.target.value === "" ? null : Number(e.target.value))}
+              >
+                <option value="">None (use the domain)</option>
+                {Array.from({ length: width }, (_, column) => (
+                  <option key={column} value={column}>{columnLabel(column)}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+          <div className="text-xs text-gray-500 space-y-0.5">
+            {dataRows.slice(0, PREVIEW_ROWS).map((row, i) => (
+              <div key={i} className="truncate">
+                {nameColumn !== null && `${row[nameColumn] || "–"} · `}
+                <span className="text-blue-600">{row[urlColumn] || "–"}</span>
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              className="flex-1 flex items-center justify-center gap-2 bg-gray-200 hover:bg-gray-300 p-2 rounded disabled:bg-gray-100 disabled:text-gray-400"
+              onClick={importRows}
+              disabled={disabled || importing || dataRows.length === 0}
+            >
+              {importing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+              Import {dataRows.length} rows
+            </button>
+            <button className="text-sm text-gray-500 hover:text-gray-700 px-2" onClick={() => setTable(null)} disabled={importing}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {summary && <div className="text-sm text-gray-600">{summary}</div>}
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
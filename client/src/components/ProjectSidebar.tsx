@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Copy, Folder, FolderOpen, Pencil, Plus, RotateCcw, Trash2 } from "lucide-react";
+import { createProject, deleteResults, duplicateProject, duplicateSearch, updateProject, updateSearch } from "../projects";
+import type { ActiveSearch, Project, SavedSearch } from "../projects";
+
+interface ProjectSidebarProps {
+  projects: Project[];
+  active: ActiveSearch;
+  disabled: boolean;
+  onSelect: (active: ActiveSearch) => void;
+  onChange: (projects: Project[]) => void;
+  onRerun: (search: SavedSearch) => void;
+}
+
+const iconButton = "text-gray-400 hover:text-gray-700 disabled:text-gray-200";
+
+export default function ProjectSidebar({ projects, active, disabled, onSelect, onChange, onRerun }: ProjectSidebarProps) {
+  const [error, setError] = useState("");
+
+  // Copying results can run into the browser's storage limit
+  const tryChange = (change: () => Project[]) => {
+    setError("");
+    try {
+      onChange(change());
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save the change");
+      return false;
+    }
+  };
+
+  const addProject = () => {
+    const name = window.prompt("Name for the new project");
+    if (!name?.trim()) return;
+
+    const project = createProject(name.trim());
+    if (tryChange(() => [...projects, project])) onSelect({ projectId: project.id, searchId: null });
+  };
+
+  const renameProject = (project: Project) => {
+    const name = window.prompt("Rename the project", project.name);
+    if (name?.trim()) tryChange(() => updateProject(projects, project.id, p => ({ ...p, name: name.trim() })));
+  };
+
+  const deleteProject = (project: Project) => {
+    if (!window.confirm(`Delete the project "${project.name}" and its ${project.searches.length} saved searches?`)) return;
+    // Results go only once the index no longer points at them
+    if (tryChange(() => projects.filter(p => p.id !== project.id))) project.searches.forEach(search => deleteResults(search.id));
+  };
+
+  const renameSearch = (search: SavedSearch) => {
+    const name = window.prompt("Rename the saved search", search.name);
+    if (name?.trim()) tryChange(() => updateSearch(projects, search.id, { name: name.trim() }));
+  };
+
+  const copySearch = (project: Project, search: SavedSearch) =>
+    tryChange(() => {
+      const copy = duplicateSearch(search);
+      return updateProject(projects, project.id, p => ({ ...p, searches: p.searches.flatMap(s => (s.id === search.id ? [s, copy] : [s])) }));
+    });
+
+  const deleteSearch = (project: Project, search: SavedSearch) => {
+    if (!window.confirm(`Delete the saved search "${search.name}"?`)) return;
+    if (tryChange(() => updateProject(projects, project.id, p => ({ ...p, searches: p.searches.filter(s => s.id !== search.id) })))) {
+      deleteResults(search.id);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 text-sm space-y-3">
+      <div className="flex items-center">
+        <h2 className="font-medium">Projects</h2>
+        <button className="ml-auto flex items-center gap-1 text-blue-600 hover:text-blue-800 disabled:text-gray-400" onClick={addProject} disabled={disabled}>
+          <Plus size={14} /> New
+        </button>
+      </div>
+
+      {projects.map(project => {
+        const isActive = project.id === active.projectId;
+        return (
+          <div key={project.id} className="space-y-1">
+            <div className="flex items-center gap-1">
+              <button
+                className={`flex-1 flex items-center gap-2 text-left truncate disabled:cursor-not-allowed ${isActive ? "font-medium" : "text-gray-600 hover:text-gray-900"}`}
+                onClick={() => onSelect({ projectId: project.id, searchId: project.searches[0]?.id || null })}
+                disabled={disabled || isActive}
+              >
+                {isActive ? <FolderOpen size={16} /> : <Folder size={16} />}
+                <span className="truncate">{project.name}</span>
+              </button>
+              <button className={iconButton} onClick={() => renameProject(project)} disabled={disabled} title="Rename">
+                <Pencil size={14} />
+              </button>
+              <button className={iconButton} onClick={() => tryChange(() => [...projects, duplicateProject(project)])} disabled={disabled} title="Duplicate">
+                <Copy size={14} />
+              </button>
+              <button className={iconButton} onClick={() => deleteProject(project)} disabled={disabled || projects.length === 1} title="Delete">
+                <Trash2 size={14} />
+              </button>
+            </div>
+
+            {isActive && (
+              <div className="ml-6 space-y-1">
+                {project.searches.length === 0 && <div className="text-gray-500">No saved searches yet</div>}
+                {project.searches.map(search => (
+                  <div key={search.id} className={`flex items-center gap-1 rounded px-1 ${search.id === active.searchId ? "bg-gray-100" : ""}`}>
+                    <button
+                      className="flex-1 min-w-0 text-left disabled:cursor-not-allowed"
+                      onClick={() => onSelect({ projectId: project.id, searchId: search.id })}
+                      disabled={disabled}
+                    >
+                      <div className="truncate">{search.name}</div>
+                      <div className="text-xs text-gray-500">
+                        {search.resultCount} websites · {new Date(search.updatedAt).toLocaleDateString()}
+                      </div>
+                    </button>
+                    {search.params && (
+                      <button className={iconButton} onClick={() => onRerun(search)} disabled={disabled} title="Run this search again">
+                        <RotateCcw size={14} />
+                      </button>
+                    )}
+                    <button className={iconButton} onClick={() => renameSearch(search)} disabled={disabled} title="Rename">
+                      <Pencil size={14} />
+                    </button>
+                    <button className={iconButton} onClick={() => copySearch(project, search)} disabled={disabled} title="Duplicate">
+                      <Copy size={14} />
+                    </button>
+                    <button className={iconButton} onClick={() => deleteSearch(project, search)} disabled={disabled} title="Delete">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {error && <div className="text-red-600">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,554 @@
+import { useState, useRef } from "react";
+import type { PointerEvent, ReactNode } from "react";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { ChevronDown, ChevronRight, Loader2, Search, X } from "lucide-react";
+import { usableEmails } from "../export";
+import {
+  CATEGORY_LABELS,
+  CONNECTOR_LABELS,
+  PLATFORM_LABELS,
+  SCORE_SIGNAL_LABELS,
+  SOCIAL_LABELS,
+  SOCIAL_NETWORKS,
+  TECH_CATEGORY_LABELS
+} from "../labels";
+import { isFilterSet, rowKey, TABLE_COLUMNS } from "../resultsTable";
+import type { ColumnId, RowStatus, SortDirection, TableColumn, TableView } from "../resultsTable";
+import type { EmailReason, EmailSource, EmailValidity, PolicySkipReason, ProgressStage, SyncRecord, Website } from "../types";
+
+const WIDTHS_KEY = "ecom_finder_column_widths";
+const MIN_COLUMN_WIDTH = 60;
+const SELECT_COLUMN_WIDTH = 40;
+// Collapsed rows are about this tall; expanded ones are measured once drawn
+const ROW_HEIGHT = 56;
+
+const EMAIL_VALIDITY_STYLES: Record<EmailValidity, string> = {
+  valid: "text-gray-700",
+  risky: "text-orange-600",
+  unknown: "text-gray-500",
+  invalid: "text-gray-400 line-through"
+};
+
+const EMAIL_REASON_LABELS: Record<EmailReason, string> = {
+  mx_found: "domain accepts mail",
+  invalid_syntax: "not a valid address",
+  placeholder: "placeholder or template address",
+  no_reply: "no-reply address",
+  disposable_domain: "disposable email provider",
+  no_mx_records: "domain has no mail server",
+  dns_lookup_failed: "mail server lookup failed"
+};
+
+const EMAIL_SOURCE_LABELS: Record<EmailSource, string> = {
+  mailto: "mailto link",
+  cloudflare: "Cloudflare email protection",
+  json_ld: "structured data",
+  text: "page text",
+  entity: "HTML-encoded text",
+  obfuscated: "[at]/[dot] text",
+  script: "inline script"
+};
+
+const ROW_PENDING_LABELS: Record<ProgressStage, string> = {
+  search: "Searching",
+  check: "Checking",
+  email: "Fetching emails"
+};
+
+const SKIP_REASON_LABELS: Record<PolicySkipReason, string> = {
+  robots_disallowed: "disallowed by robots.txt",
+  robots_unavailable: "robots.txt unreachable",
+  crawl_delay_too_long: "crawl-delay too long"
+};
+
+const formatPriceRange = ({ min, max }: { min: number; max: number }, currency?: string) => {
+  const format = (value: number) =>
+    currency ? new Intl.NumberFormat(undefined, { style: "currency", currency }).format(value) : value.toFixed(2);
+  return min === max ? format(min) : `${format(min)}–${format(max)}`;
+};
+
+const formatBytes = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.round(bytes / 1024)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+// Badge colour for a 0-100 lead score
+const scoreStyle = (score: number) =>
+  score >= 70 ? "bg-green-100 text-green-800" : score >= 40 ? "bg-yellow-100 text-yellow-800" : "bg-gray-100 text-gray-700";
+
+const loadWidths = (): Record<ColumnId, number> => {
+  const defaults = Object.fromEntries(TABLE_COLUMNS.map(column => [column.id, column.width])) as Record<ColumnId, number>;
+  try {
+    return { ...defaults, ...JSON.parse(localStorage.getItem(WIDTHS_KEY) || "{}") };
+  } catch {
+    return defaults;
+  }
+};
+
+// Numbers read best from the top, names from A
+const firstDirection = (column: TableColumn): SortDirection => (column.kind === "range" ? "desc" : "asc");
+
+const filterInput = "w-full p-1 bg-white border border-gray-300 rounded text-xs font-normal";
+
+interface ResultsTableProps {
+  rows: Website[];
+  view: TableView;
+  onViewChange: (view: TableView) => void;
+  // Row keys (see rowKey) of the selected rows
+  selected: Set<string>;
+  onSelectedChange: (selected: Set<string>) => void;
+  rowStatuses: Record<string, RowStatus>;
+  emptyMessage: ReactNode;
+}
+
+export default function ResultsTable({ rows, view, onViewChange, selected, onSelectedChange, rowStatuses, emptyMessage }: ResultsTableProps) {
+  const [widths, setWidths] = useState(loadWidths);
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ROW_HEIGHT,
+    getItemKey: index => rowKey(rows[index]),
+    overscan: 10
+  });
+
+  // The website column takes up whatever room the others leave
+  const gridTemplateColumns = [
+    `${SELECT_COLUMN_WIDTH}px`,
+    ...TABLE_COLUMNS.map(column => (column.id === "website" ? `minmax(${widths.website}px, 1fr)` : `${widths[column.id]}px`))
+  ].join(" ");
+  const minWidth = SELECT_COLUMN_WIDTH + TABLE_COLUMNS.reduce((sum, column) => sum + widths[column.id], 0);
+
+  const startResize = (event: PointerEvent, id: ColumnId) => {
+    event.preventDefault();
+    const startX = event.clientX;
+    const startWidth = widths[id];
+    let latest = widths;
+
+    const move = (e: globalThis.PointerEvent) => {
+      latest = { ...latest, [id]: Math.max(MIN_COLUMN_WIDTH, startWidth + e.clientX - startX) };
+      setWidths(latest);
+    };
+    const stop = () => {
+      window.removeEventListener("pointermove", move);
+      window.removeEventListener("pointerup", stop);
+      localStorage.setItem(WIDTHS_KEY, JSON.stringify(latest));
+    };
+    window.addEventListener("pointermove", move);
+    window.addEventListener("pointerup", stop);
+  };
+
+  // Default direction, then the other one, then back to search order
+  const toggleSort = (column: TableColumn) => {
+    const first = firstDirection(column);
+    const sort = view.sort?.column !== column.id
+      ? { column: column.id, direction: first }
+      : view.sort.direction === first
+        ? { column: column.id, direction: first === "asc" ? ("desc" as const) : ("asc" as const) }
+        : null;
+    onViewChange({ ...view, sort });
+  };
+
+  const setColumnFilter = (id: ColumnId, value: TableView["filters"][ColumnId]) =>
+    onViewChange({ ...view, filters: { ...view.filters, [id]: value } });
+
+  const filtersSet = view.quickSearch.trim() !== "" || Object.values(view.filters).some(isFilterSet);
+
+  const rowKeys = rows.map(rowKey);
+  const allSelected = rowKeys.length > 0 && rowKeys.every(key => selected.has(key));
+  const toggleAll = () => {
+    const next = new Set(selected);
+    rowKeys.forEach(key => (allSelected ? next.delete(key) : next.add(key)));
+    onSelectedChange(next);
+  };
+  const toggleRow = (key: string) => {
+    const next = new Set(selected);
+    if (!next.delete(key)) next.add(key);
+    onSelectedChange(next);
+  };
+  const toggleExpanded = (key: string) =>
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
+
+  const renderFilter = (column: TableColumn) => {
+    const filter = view.filters[column.id];
+    if (column.kind === "range") {
+      const range = typeof filter === "object" ? filter : { min: "", max: "" };
+      return (
+        <div className="flex gap-1">
+          <input
+            type="number"
+            className={filterInput}
+            placeholder="Min"
+            value={range.min}
+            onChange={(e) => setColumnFilter(column.id, { ...range, min: e.target.value })}
+          />
+          <input
+            type="number"
+            className={filterInput}
+            placeholder="Max"
+            value={range.max}
+            onChange={(e) => setColumnFilter(column.id, { ...range, max: e.target.value })}
+          />
+        </div>
+      );
+    }
+
+    const value = typeof filter === "string" ? filter : "";
+    if (column.kind === "choice") {
+      return (
+        <select className={filterInput} value={value} onChange={(e) => setColumnFilter(column.id, e.target.value)}>
+          <option value="">Any</option>
+          {Object.entries(column.options).map(([option, label]) => (
+            <option key={option} value={option}>{label}</option>
+          ))}
+        </select>
+      );
+    }
+    return (
+      <input
+        type="text"
+        className={filterInput}
+        placeholder="Contains"
+        value={value}
+        onChange={(e) => setColumnFilter(column.id, e.target.value)}
+      />
+    );
+  };
+
+  const renderCell = (column: TableColumn, item: Website, key: string) => {
+    switch (column.id) {
+      case "score":
+        return item.score ? (
+          <button
+            className={`px-2 py-1 rounded text-sm font-medium ${scoreStyle(item.score.score)}`}
+            onClick={() => toggleExpanded(key)}
+            title="Show how this score was reached"
+          >
+            {item.score.score}
+          </button>
+        ) : (
+          <span className="text-sm text-gray-400">–</span>
+        );
+
+      case "website":
+        return (
+          <div className="flex gap-1 min-w-0">
+            <button className="text-gray-400 hover:text-gray-700 shrink-0 self-start mt-0.5" onClick={() => toggleExpanded(key)} title="Show details">
+              {expanded.has(key) ? <ChevronDown size={16} /> : <ChevronRight size={16} />}
+            </button>
+            <div className="min-w-0">
+              <div className="font-medium truncate" title={item.title}>
+                {item.title}
+                {item.isNew !== undefined && (
+                  <span className={`ml-2 px-1.5 py-0.5 rounded text-xs ${
+                    item.isNew ? "bg-green-100 text-green-800" : "bg-gray-100 text-gray-600"
+                  }`}>
+                    {item.isNew ? "New" : "Known"}
+                  </span>
+                )}
+                {item.syncs && (Object.values(item.syncs) as SyncRecord[]).map(sync => (
+                  <span
+                    key={sync.connector}
+                    className={`ml-2 px-1.5 py-0.5 rounded text-xs font-normal ${
+                      sync.status === "synced" ? "bg-blue-100 text-blue-800" : "bg-red-100 text-red-800"
+                    }`}
+                    title={sync.error || `${sync.action === "created" ? "Created" : "Updated"} ${new Date(sync.syncedAt).toLocaleString()}`}
+                  >
+                    {CONNECTOR_LABELS[sync.connector]} {sync.status === "synced" ? "synced" : "failed"}
+                  </span>
+                ))}
+                {rowStatuses[item.link]?.state === "pending" && (
+                  <span className="ml-2 inline-flex items-center gap-1 text-xs font-normal text-gray-500">
+                    <Loader2 size={12} className="animate-spin" />
+                    {ROW_PENDING_LABELS[rowStatuses[item.link].stage]}
+                  </span>
+                )}
+                {rowStatuses[item.link]?.state === "failed" && (
+                  <span className="ml-2 text-xs font-normal text-red-600">
+                    {ROW_PENDING_LABELS[rowStatuses[item.link].stage]} failed
+                  </span>
+                )}
+              </div>
+              <a href={item.link} target="_blank" rel="noreferrer" className="block text-sm text-blue-600 truncate hover:underline">
+                {item.link}
+              </a>
+            </div>
+          </div>
+        );
+
+      case "email": {
+        const best = usableEmails(item)[0];
+        if (best) {
+          const more = (item.emails?.length || 0) - 1;
+          return (
+            <div className="text-sm truncate">
+              <span className={EMAIL_VALIDITY_STYLES[best.status]} title={`${best.status}: ${EMAIL_REASON_LABELS[best.reason]}`}>{best.address}</span>
+              {more > 0 && <span className="text-xs text-gray-400 ml-1">+{more}</span>}
+            </div>
+          );
+        }
+        if (item.emailStatus === "not_found") return <span className="text-xs text-gray-500">No email found</span>;
+        if (item.emailStatus === "error") return <span className="text-xs text-red-600">Email lookup failed</span>;
+        return <span className="text-sm text-gray-400">–</span>;
+      }
+
+      case "status":
+        return item.isDomainActive === undefined ? (
+          <span className="text-sm text-gray-400">–</span>
+        ) : (
+          <span className={`px-2 py-1 rounded text-xs ${
+            item.isDomainActive ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+          }`}>
+            {item.isDomainActive ? "Active" : "Inactive"}
+          </span>
+        );
+
+      case "platform":
+        return (
+          <span
+            className={`px-2 py-1 rounded text-xs whitespace-nowrap ${
+              item.platform && item.platform.name !== "unknown" ? "bg-blue-100 text-blue-800" : "bg-gray-100 text-gray-800"
+            }`}
+            title={item.platform?.evidence.map(e => `${e.type}: ${e.match}`).join("\n")}
+          >
+            {PLATFORM_LABELS[item.platform?.name || "unknown"]}
+            {item.platform && item.platform.name !== "unknown" && ` ${Math.round(item.platform.confidence * 100)}%`}
+          </span>
+        );
+
+      case "category":
+        return item.classification ? (
+          <span
+            className={`px-2 py-1 rounded text-xs whitespace-nowrap ${
+              item.classification.category === "independent_store" ? "bg-green-100 text-green-800" : "bg-orange-100 text-orange-800"
+            }`}
+            title={item.classification.reasons.join("\n")}
+          >
+            {CATEGORY_LABELS[item.classification.category]}
+          </span>
+        ) : (
+          <span className="text-sm text-gray-400">–</span>
+        );
+
+      case "speed":
+        return item.metrics?.downloadTime !== undefined ? (
+          <span className={`text-sm ${item.isFastLoading ? "text-purple-800" : "text-yellow-800"}`}>
+            {item.metrics.downloadTime} {item.isFastLoading ? "(fast)" : "(slow)"}
+          </span>
+        ) : (
+          <span className="text-sm text-gray-400">–</span>
+        );
+
+      case "products":
+        return item.shopify?.productCount !== undefined ? (
+          <span className="text-sm">{item.shopify.productCount}{item.shopify.productCountCapped ? "+" : ""}</span>
+        ) : (
+          <span className="text-sm text-gray-400">–</span>
+        );
+
+      case "tech":
+        return (
+          <div className="text-xs text-gray-700 truncate" title={item.tech?.map(tech => tech.name).join(", ")}>
+            {item.tech?.map(tech => tech.name).join(", ") || <span className="text-sm text-gray-400">–</span>}
+          </div>
+        );
+    }
+  };
+
+  const renderDetails = (item: Website) => (
+    <div className="pl-12 pr-3 pb-3 space-y-2">
+      {item.score && (
+        <div className="text-xs border border-gray-200 rounded p-2 space-y-0.5">
+          {item.score.breakdown.map(part => (
+            <div key={part.signal} className="flex gap-2">
+              <span className="w-32 shrink-0 text-gray-600">{SCORE_SIGNAL_LABELS[part.signal]}</span>
+              <span className="w-16 shrink-0">{part.points} / {part.max}</span>
+              <span className="text-gray-500">{part.reason}</span>
+            </div>
+          ))}
+        </div>
+      )}
+      {item.emails && item.emails.length > 0 && (
+        <div className="flex flex-wrap gap-x-3 gap-y-1 text-sm">
+          {item.emails.map(email => (
+            <span
+              key={email.address}
+              className={EMAIL_VALIDITY_STYLES[email.status]}
+              title={`${email.status}: ${EMAIL_REASON_LABELS[email.reason]}${email.source ? ` (found via ${EMAIL_SOURCE_LABELS[email.source]})` : ""}`}
+            >
+              {email.address}
+              <span className="text-xs text-gray-400 ml-1">({email.type})</span>
+            </span>
+          ))}
+        </div>
+      )}
+      {item.contacts && (item.contacts.phones.length > 0 || item.contacts.whatsapp || item.contacts.telegram || Object.keys(item.contacts.socials).length > 0) && (
+        <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs">
+          {item.contacts.phones.map(phone => (
+            <a key={phone.number} href={`tel:${phone.number}`} className="text-gray-700 hover:underline" title={`As printed: ${phone.raw}`}>
+              {phone.number}
+            </a>
+          ))}
+          {item.contacts.whatsapp && (
+            <a href={item.contacts.whatsapp} target="_blank" rel="noreferrer" className="text-green-700 hover:underline">WhatsApp</a>
+          )}
+          {item.contacts.telegram && (
+            <a href={item.contacts.telegram} target="_blank" rel="noreferrer" className="text-sky-700 hover:underline">Telegram</a>
+          )}
+          {SOCIAL_NETWORKS.filter(network => item.contacts?.socials[network]).map(network => (
+            <a key={network} href={item.contacts?.socials[network]} target="_blank" rel="noreferrer" className="text-blue-600 hover:underline">
+              {SOCIAL_LABELS[network]}
+            </a>
+          ))}
+        </div>
+      )}
+      {item.skippedPages && item.skippedPages.length > 0 && (
+        <div
+          className="text-xs text-gray-500"
+          title={item.skippedPages.map(skip => `${skip.url}: ${SKIP_REASON_LABELS[skip.reason]}`).join("\n")}
+        >
+          {item.skippedPages.length} page{item.skippedPages.length === 1 ? "" : "s"} skipped ({SKIP_REASON_LABELS[item.skippedPages[0].reason]})
+        </div>
+      )}
+      {item.metrics && (
+        <div
+          className="text-xs text-gray-600"
+          title={[
+            ...item.metrics.redirects.map(hop => `${hop.status} ${hop.url}`),
+            `${item.metrics.status ?? item.metrics.error ?? ""} ${item.metrics.finalUrl}`
+          ].join("\n→ ")}
+        >
+          {item.metrics.status !== undefined ? `HTTP ${item.metrics.status}` : `Failed${item.metrics.error ? `: ${item.metrics.error}` : ""}`}
+          {item.metrics.redirects.length > 0 && ` after ${item.metrics.redirects.length} redirect${item.metrics.redirects.length === 1 ? "" : "s"}`}
+          {item.metrics.ttfb !== undefined && ` · TTFB ${item.metrics.ttfb} ms`}
+          {item.metrics.downloadTime !== undefined && ` · loaded in ${item.metrics.downloadTime} ms`}
+          {item.metrics.htmlBytes !== undefined && ` · ${formatBytes(item.metrics.htmlBytes)}`}
+          {item.metrics.compression && ` (${item.metrics.compression})`}
+          {" · "}
+          <span className={item.metrics.https ? "text-green-700" : "text-red-600"}>{item.metrics.https ? "HTTPS" : "No HTTPS"}</span>
+          {item.metrics.hsts && " · HSTS"}
+          {item.metrics.httpsRedirect === false && <span className="text-red-600"> · http not redirected</span>}
+        </div>
+      )}
+      {item.tech && item.tech.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {item.tech.map(tech => (
+            <span
+              key={tech.name}
+              className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700 text-xs"
+              title={`${TECH_CATEGORY_LABELS[tech.category]}\n${tech.evidence.map(e => `${e.type}: ${e.match}`).join("\n")}`}
+            >
+              {tech.name}
+            </span>
+          ))}
+        </div>
+      )}
+      {item.shopify && (
+        <div className="text-xs text-gray-600 space-y-0.5">
+          <div>
+            {item.shopify.productCount !== undefined && (
+              <span className="mr-2">
+                {item.shopify.productCount}{item.shopify.productCountCapped ? "+" : ""} products
+              </span>
+            )}
+            {item.shopify.priceRange && (
+              <span className="mr-2">{formatPriceRange(item.shopify.priceRange, item.shopify.currency)}</span>
+            )}
+            {item.shopify.theme && <span className="mr-2">Theme: {item.shopify.theme}</span>}
+          </div>
+          {item.shopify.newestProductAt && (
+            <div>Newest product {new Date(item.shopify.newestProductAt).toLocaleDateString()}</div>
+          )}
+          {item.shopify.apps.length > 0 && <div>Apps: {item.shopify.apps.join(", ")}</div>}
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-sm">
+        <div className="relative">
+          <Search size={14} className="absolute left-2 top-2 text-gray-400" />
+          <input
+            type="text"
+            className="pl-7 p-1 bg-white border border-gray-300 rounded w-64"
+            placeholder="Quick search"
+            value={view.quickSearch}
+            onChange={(e) => onViewChange({ ...view, quickSearch: e.target.value })}
+          />
+        </div>
+        {filtersSet && (
+          <button
+            className="flex items-center gap-1 text-gray-500 hover:text-gray-700"
+            onClick={() => onViewChange({ ...view, filters: {}, quickSearch: "" })}
+          >
+            <X size={14} /> Clear search and column filters
+          </button>
+        )}
+      </div>
+
+      <div className="border border-gray-200 rounded overflow-x-auto">
+        <div style={{ minWidth }}>
+          <div className="grid bg-gray-100 text-left text-sm font-medium" style={{ gridTemplateColumns }}>
+            <div className="p-3">
+              <input type="checkbox" className="rounded" checked={allSelected} onChange={toggleAll} disabled={rows.length === 0} title="Select all shown" />
+            </div>
+            {TABLE_COLUMNS.map(column => (
+              <div key={column.id} className="relative p-3 pb-1 min-w-0">
+                <button className="hover:text-gray-600 truncate max-w-full" onClick={() => toggleSort(column)}>
+                  {column.label}
+                  {view.sort?.column === column.id && (view.sort.direction === "asc" ? " ↑" : " ↓")}
+                </button>
+                <div
+                  className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-gray-300"
+                  onPointerDown={(e) => startResize(e, column.id)}
+                />
+              </div>
+            ))}
+            <div />
+            {TABLE_COLUMNS.map(column => (
+              <div key={column.id} className="px-3 pb-2 min-w-0">{renderFilter(column)}</div>
+            ))}
+          </div>
+
+          <div ref={scrollRef} className="overflow-y-auto max-h-[70vh]">
+            {rows.length > 0 ? (
+              <div className="relative" style={{ height: virtualizer.getTotalSize() }}>
+                {virtualizer.getVirtualItems().map(virtualRow => {
+                  const item = rows[virtualRow.index];
+                  const key = rowKeys[virtualRow.index];
+                  return (
+                    <div
+                      key={key}
+                      data-index={virtualRow.index}
+                      ref={virtualizer.measureElement}
+                      className={`absolute left-0 w-full border-t border-gray-200 ${selected.has(key) ? "bg-blue-50" : ""}`}
+                      style={{ transform: `translateY(${virtualRow.start}px)` }}
+                    >
+                      <div className="grid items-start" style={{ gridTemplateColumns }}>
+                        <div className="p-3">
+                          <input type="checkbox" className="rounded" checked={selected.has(key)} onChange={() => toggleRow(key)} />
+                        </div>
+                        {TABLE_COLUMNS.map(column => (
+                          <div key={column.id} className="p-3 min-w-0">{renderCell(column, item, key)}</div>
+                        ))}
+                      </div>
+                      {expanded.has(key) && renderDetails(item)}
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              <div className="p-3 text-gray-500 text-center">{emptyMessage}</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+import { useState, useEffect } from "react";
+import { Loader2, Gauge, Save, CopyPlus, Trash2 } from "lucide-react";
+import { API_BASE } from "../api";
+import { PLATFORM_LABELS, SCORE_SIGNALS, SCORE_SIGNAL_LABELS, TECH_CATEGORIES, TECH_CATEGORY_LABELS } from "../labels";
+import type { LeadScore, PlatformName, ScoringProfile, Website } from "../types";
+
+const ACTIVE_PROFILE_KEY = "ecom_finder_scoring_profile";
+// Built into the server; it can be used and copied but not changed
+const DEFAULT_PROFILE_ID = "default";
+const MAX_WEIGHT = 10;
+// The server scores at most this many sites per /score request
+const SCORE_BATCH_SIZE = 1000;
+
+const TARGET_PLATFORMS = (Object.keys(PLATFORM_LABELS) as PlatformName[]).filter(
+  (name): name is Exclude<PlatformName, "unknown"> => name !== "unknown"
+);
+
+type ProfileDraft = Pick<ScoringProfile, "name" | "weights" | "platforms" | "techCategories">;
+
+interface ScoringPanelProps {
+  sites: Website[];
+  disabled: boolean;
+  onScores: (scores: LeadScore[]) => void;
+}
+
+const toDraft = ({ name, weights, platforms, techCategories }: ScoringProfile): ProfileDraft => ({
+  name,
+  weights: { ...weights },
+  platforms: [...platforms],
+  techCategories: [...techCategories]
+});
+
+const toScoreInput = (site: Website) => ({
+  link: site.link,
+  isDomainActive: site.isDomainActive,
+  loadsFast: site.isFastLoading,
+  platform: site.platform,
+  tech: site.tech,
+  classification: site.classification,
+  emails: site.emails,
+  contacts: site.contacts
+});
+
+const toggle = <T,>(list: T[], value: T) => (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+export default function ScoringPanel({ sites, disabled, onScores }: ScoringPanelProps) {
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [selectedId, setSelectedId] = useState(DEFAULT_PROFILE_ID);
+  const [draft, setDraft] = useState<ProfileDraft | null>(null);
+  const [scoring, setScoring] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const request = async <T,>(path: string, init?: RequestInit): Promise<T> => {
+    const response = await fetch(`${API_BASE}${path}`, init);
+    const body = response.status === 204 ? null : await response.json();
+    if (!response.ok) throw new Error(body?.error || `Request failed with ${response.status}`);
+    return body;
+  };
+
+  const jsonRequest = <T,>(path: string, method: string, body: unknown) =>
+    request<T>(path, { method, headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+
+  const selectProfile = (profile: ScoringProfile) => {
+    setSelectedId(profile.id);
+    setDraft(toDraft(profile));
+    localStorage.setItem(ACTIVE_PROFILE_KEY, profile.id);
+  };
+
+  useEffect(() => {
+    request<ScoringProfile[]>("/scoring/profiles")
+      .then(loaded => {
+        setProfiles(loaded);
+        const savedId = localStorage.getItem(ACTIVE_PROFILE_KEY);
+        const profile = loaded.find(p => p.id === savedId) || loaded[0];
+        if (profile) selectProfile(profile);
+      })
+      .catch(err => setError(err instanceof Error ? err.message : "Failed to load scoring profiles"));
+  }, []);
+
+  const selected = profiles.find(p => p.id === selectedId);
+  const isDefault = selectedId === DEFAULT_PROFILE_ID;
+  const dirty = !!selected && !!draft && JSON.stringify(toDraft(selected)) !== JSON.stringify(draft);
+
+  const scoreSites = async () => {
+    if (!draft || sites.length === 0) return;
+    setScoring(true);
+    setError("");
+
+    try {
+      const scores: LeadScore[] = [];
+      for (let i = 0; i < sites.length; i += SCORE_BATCH_SIZE) {
+        // Unsaved edits are scored as they stand, so weights can be tried before saving
+        const result = await jsonRequest<{ scores: LeadScore[] }>("/score", "POST", {
+          ...(dirty ? { profile: draft } : { profileId: selectedId }),
+          sites: sites.slice(i, i + SCORE_BATCH_SIZE).map(toScoreInput)
+        });
+        scores.push(...result.scores);
+      }
+      onScores(scores);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to score leads");
+    } finally {
+      setScoring(false);
+    }
+  };
+
+  const saveProfile = async (asNew: boolean) => {
+    if (!draft) return;
+
+    let body = draft;
+    if (asNew) {
+      const name = window.prompt("Name for the new scoring profile", isDefault ? "" : `${draft.name} (copy)`);
+      if (!name?.trim()) return;
+      body = { ...draft, name: name.trim() };
+    }
+
+    setSaving(true);
+    setError("");
+    try {
+      const saved = asNew
+        ? await jsonRequest<ScoringProfile>("/scoring/profiles", "POST", body)
+        : await jsonRequest<ScoringProfile>(`/scoring/profiles/${selectedId}`, "PUT", body);
+      setProfiles(prev => (asNew ? [...prev, saved] : prev.map(p => (p.id === saved.id ? saved : p))));
+      selectProfile(saved);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save profile");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteProfile = async () => {
+    if (!selected || isDefault || !window.confirm(`Delete the scoring profile "${selected.name}"?`)) return;
+
+    setError("");
+    try {
+      await request<null>(`/scoring/profiles/${selectedId}`, { method: "DELETE" });
+      const remaining = profiles.filter(p => p.id !== selectedId);
+      setProfiles(remaining);
+      if (remaining[0]) selectProfile(remaining[0]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to delete profile");
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <select
+          className="p-2 bg-white border border-gray-300 rounded"
+          value={selectedId}
+          onChange={(e) => {
+            const profile = profiles.find(p => p.id === e.target.value);
+            if (profile) selectProfile(profile);
+          }}
+          disabled={saving || scoring}
+        >
+          {profiles.map(profile => (
+            <option key={profile.id} value={profile.id}>{profile.name}</option>
+          ))}
+        </select>
+        <button
+          className="flex items-center gap-1 bg-gray-200 hover:bg-gray-300 px-3 py-2 rounded text-sm disabled:bg-gray-100 disabled:text-gray-400"
+          onClick={() => saveProfile(false)}
+          disabled={isDefault || !dirty || saving}
+          title={isDefault ? "The default profile cannot be changed; save a copy instead" : undefined}
+        >
+          <Save size={16} /> Save
+        </button>
+        <button
+          className="flex items-center gap-1 bg-gray-200 hover:bg-gray-300 px-3 py-2 rounded text-sm disabled:bg-gray-100 disabled:text-gray-400"
+          onClick={() => saveProfile(true)}
+          disabled={!draft || saving}
+        >
+          <CopyPlus size={16} /> Save as new
+        </button>
+        <button
+          className="flex items-center gap-1 text-red-600 hover:text-red-800 px-2 py-2 text-sm disabled:text-gray-400"
+          onClick={deleteProfile}
+          disabled={isDefault || saving}
+        >
+          <Trash2 size={16} /> Delete
+        </button>
+        <button
+          className="ml-auto flex items-center gap-2 bg-gray-800 hover:bg-gray-700 px-4 py-2 rounded text-white disabled:bg-gray-400"
+          onClick={scoreSites}
+          disabled={disabled || scoring || !draft || sites.length === 0}
+        >
+          {scoring ? <Loader2 size={18} className="animate-spin" /> : <Gauge size={18} />}
+          {scoring ? "Scoring..." : dirty ? "Score with unsaved weights" : "Score leads"}
+        </button>
+      </div>
+
+      {draft && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 text-sm">
+          <div className="space-y-2">
+            <div className="text-gray-600">Weights (0 ignores a signal)</div>
+            {SCORE_SIGNALS.map(signal => (
+              <label key={signal} className="flex items-center gap-2">
+                <span className="w-36">{SCORE_SIGNAL_LABELS[signal]}</span>
+                <input
+                  type="range"
+                  min={0}
+                  max={MAX_WEIGHT}
+                  step={1}
+                  className="flex-1"
+                  value={draft.weights[signal]}
+                  onChange={(e) => setDraft({ ...draft, weights: { ...draft.weights, [signal]: Number(e.target.value) } })}
+                />
+                <span className="w-5 text-right">{draft.weights[signal]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-gray-600">Target platforms (none ticked: any platform)</div>
+            {TARGET_PLATFORMS.map(name => (
+              <label key={name} className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  className="rounded"
+                  checked={draft.platforms.includes(name)}
+                  onChange={() => setDraft({ ...draft, platforms: toggle(draft.platforms, name) })}
+                />
+                <span>{PLATFORM_LABELS[name]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="text-gray-600">Wanted tools (none ticked: any tool)</div>
+            {TECH_CATEGORIES.map(category => (
+              <label key={category} className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  className="rounded"
+                  checked={draft.techCategories.includes(category)}
+                  onChange={() => setDraft({ ...draft, techCategories: toggle(draft.techCategories, category) })}
+                />
+                <span>{TECH_CATEGORY_LABELS[category]}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
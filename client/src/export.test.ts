@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { buildTable, customLayout, toCsv } from "./export";
+import type { EmailRecord, Website } from "./types";
+
+const email = (address: string, status: EmailRecord["status"]): EmailRecord => ({ address, status, reason: "mx_found", type: "role" });
+
+describe("toCsv", () => {
+  it("quotes fields holding commas, quotes or line breaks", () => {
+    expect(toCsv({ headers: ["Title", "Score"], rows: [["Shop, \"Best\"\nOnline", 80]] })).toBe('Title,Score\r\n"Shop, ""Best""\nOnline",80\r\n');
+  });
+
+  it("neutralizes cells Excel would run as a formula", () => {
+    const rows = [["=HYPERLINK(\"http://evil\")", "+1", "-2", "@SUM(A1)", "\tx", -5]];
+    expect(toCsv({ headers: ["a", "b", "c", "d", "e", "f"], rows })).toBe(
+      'a,b,c,d,e,f\r\n"\'=HYPERLINK(""http://evil"")",\'+1,\'-2,\'@SUM(A1),\'\tx,-5\r\n'
+    );
+  });
+});
+
+describe("buildTable", () => {
+  const site: Website = {
+    title: "Shop",
+    link: "https://shop.com/",
+    emails: [email("bad@shop.com", "invalid"), email("maybe@shop.com", "risky"), email("info@shop.com", "valid")]
+  };
+  const fields = customLayout(["title", "email"]);
+
+  it("puts the best usable email on a site's row", () => {
+    expect(buildTable([site], fields, "site").rows).toEqual([["Shop", "info@shop.com"]]);
+  });
+
+  it("writes one row per usable email, leaving invalid ones out", () => {
+    expect(buildTable([site, { title: "None", link: "https://none.com/" }], fields, "email").rows).toEqual([
+      ["Shop", "info@shop.com"],
+      ["Shop", "maybe@shop.com"]
+    ]);
+  });
+});
@@ -0,0 +1,198 @@
+import writeXlsxFile from "write-excel-file/browser";
+import type { SheetData } from "write-excel-file/browser";
+import {
+  CATEGORY_LABELS,
+  PLATFORM_LABELS,
+  SOCIAL_LABELS,
+  SOCIAL_NETWORKS,
+  TECH_CATEGORIES,
+  TECH_CATEGORY_LABELS
+} from "./labels";
+import type { EmailRecord, Website } from "./types";
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+// One row per site, or one row per usable email address (sites without one are left out)
+export type ExportMode = "site" | "email";
+
+type CellValue = string | number;
+
+export interface ExportColumn {
+  id: string;
+  label: string;
+  // `email` is the row's address in per-email mode, otherwise the site's best one
+  value: (site: Website, email: EmailRecord | undefined) => CellValue;
+}
+
+const yesNo = (value: boolean | undefined) => (value === undefined ? "" : value ? "Yes" : "No");
+const list = (values: string[] | undefined) => (values || []).join("; ");
+// A valid address first, then a risky or unverified one; invalid addresses are never exported
+export const usableEmails = (site: Website) =>
+  (site.emails || []).filter(email => email.status !== "invalid").sort((a, b) => Number(b.status === "valid") - Number(a.status === "valid"));
+
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { id: "title", label: "Title", value: site => site.title },
+  { id: "url", label: "URL", value: site => site.link },
+  { id: "domain", label: "Domain", value: site => site.domain || "" },
+  { id: "homepage", label: "Homepage", value: site => site.homepage || site.link },
+  { id: "email", label: "Email", value: (_, email) => email?.address || "" },
+  { id: "email_type", label: "Email Type", value: (_, email) => email?.type || "" },
+  { id: "email_status", label: "Email Status", value: (_, email) => email?.status || "" },
+  { id: "emails", label: "All Emails", value: site => list(usableEmails(site).map(email => email.address)) },
+  { id: "phone", label: "Phone", value: site => site.contacts?.phones[0]?.number || "" },
+  { id: "phones", label: "All Phones", value: site => list(site.contacts?.phones.map(phone => phone.number)) },
+  { id: "score", label: "Score", value: site => site.score?.score ?? "" },
+  { id: "site_type", label: "Site Type", value: site => (site.classification ? CATEGORY_LABELS[site.classification.category] : "") },
+  { id: "domain_active", label: "Domain Active", value: site => yesNo(site.isDomainActive) },
+  { id: "platform", label: "Platform", value: site => PLATFORM_LABELS[site.platform?.name || "unknown"] },
+  { id: "platform_confidence", label: "Platform Confidence", value: site => (site.platform ? Math.round(site.platform.confidence * 100) : "") },
+  { id: "fast_loading", label: "Fast Loading", value: site => yesNo(site.isFastLoading) },
+  { id: "final_url", label: "Final URL", value: site => site.metrics?.finalUrl || "" },
+  { id: "http_status", label: "HTTP Status", value: site => site.metrics?.status ?? "" },
+  { id: "redirects", label: "Redirects", value: site => site.metrics?.redirects.length ?? "" },
+  { id: "ttfb", label: "TTFB (ms)", value: site => site.metrics?.ttfb ?? "" },
+  { id: "load_time", label: "Load Time (ms)", value: site => site.metrics?.downloadTime ?? "" },
+  { id: "html_size", label: "HTML Size (bytes)", value: site => site.metrics?.htmlBytes ?? "" },
+  { id: "compression", label: "Compression", value: site => site.metrics?.compression || "" },
+  { id: "https", label: "HTTPS", value: site => yesNo(site.metrics?.https) },
+  { id: "hsts", label: "HSTS", value: site => yesNo(site.metrics?.hsts) },
+  { id: "http_to_https", label: "HTTP to HTTPS", value: site => yesNo(site.metrics?.httpsRedirect ?? undefined) },
+  {
+    id: "products",
+    label: "Products",
+    value: site => (site.shopify?.productCount === undefined ? "" : `${site.shopify.productCount}${site.shopify.productCountCapped ? "+" : ""}`)
+  },
+  { id: "price_range", label: "Price Range", value: site => (site.shopify?.priceRange ? `${site.shopify.priceRange.min}-${site.shopify.priceRange.max}` : "") },
+  { id: "currency", label: "Currency", value: site => site.shopify?.currency || "" },
+  { id: "store_country", label: "Store Country", value: site => site.shopify?.country || "" },
+  { id: "theme", label: "Theme", value: site => site.shopify?.theme || "" },
+  { id: "newest_product", label: "Newest Product", value: site => site.shopify?.newestProductAt?.slice(0, 10) || "" },
+  { id: "apps", label: "Apps", value: site => list(site.shopify?.apps) },
+  ...TECH_CATEGORIES.map(category => ({
+    id: `tech_${category}`,
+    label: TECH_CATEGORY_LABELS[category],
+    value: (site: Website) => list(site.tech?.filter(tech => tech.category === category).map(tech => tech.name))
+  })),
+  { id: "whatsapp", label: "WhatsApp", value: site => site.contacts?.whatsapp || "" },
+  { id: "telegram", label: "Telegram", value: site => site.contacts?.telegram || "" },
+  ...SOCIAL_NETWORKS.map(network => ({
+    id: `social_${network}`,
+    label: SOCIAL_LABELS[network],
+    value: (site: Website) => site.contacts?.socials[network] || ""
+  }))
+];
+
+const COLUMNS_BY_ID = new Map(EXPORT_COLUMNS.map(column => [column.id, column]));
+
+// Columns of a custom export before the user picks any
+export const DEFAULT_EXPORT_COLUMNS = EXPORT_COLUMNS.filter(column => column.id !== "homepage" && column.id !== "email_type").map(column => column.id);
+
+// A header in the output, filled from a column or with the same text on every row
+export type LayoutField = { header: string; column: string } | { header: string; constant: string };
+
+export interface ExportPreset {
+  id: string;
+  label: string;
+  mode: ExportMode;
+  fields: LayoutField[];
+}
+
+// Column names the CRMs' own import wizards map without any manual matching
+export const EXPORT_PRESETS: ExportPreset[] = [
+  {
+    id: "hubspot",
+    label: "HubSpot contacts",
+    mode: "email",
+    fields: [
+      { header: "Email", column: "email" },
+      { header: "Company Name", column: "title" },
+      { header: "Company Domain Name", column: "domain" },
+      { header: "Website URL", column: "homepage" },
+      { header: "Phone Number", column: "phone" }
+    ]
+  },
+  {
+    id: "mailchimp",
+    label: "Mailchimp audience",
+    mode: "email",
+    fields: [
+      { header: "Email Address", column: "email" },
+      { header: "Company", column: "title" },
+      { header: "Website", column: "homepage" },
+      { header: "Phone Number", column: "phone" }
+    ]
+  },
+  {
+    id: "google_contacts",
+    label: "Google Contacts",
+    mode: "email",
+    fields: [
+      { header: "Organization Name", column: "title" },
+      { header: "E-mail 1 - Type", constant: "* Work" },
+      { header: "E-mail 1 - Value", column: "email" },
+      { header: "Phone 1 - Type", constant: "Work" },
+      { header: "Phone 1 - Value", column: "phone" },
+      { header: "Website 1 - Type", constant: "Work" },
+      { header: "Website 1 - Value", column: "homepage" }
+    ]
+  }
+];
+
+export const customLayout = (columnIds: string[]): LayoutField[] =>
+  columnIds.flatMap(id => {
+    const column = COLUMNS_BY_ID.get(id);
+    return column ? [{ header: column.label, column: id }] : [];
+  });
+
+/** Lay the sites out as a header row plus one row per site or per email. */
+export function buildTable(sites: Website[], fields: LayoutField[], mode: ExportMode): { headers: string[]; rows: CellValue[][] } {
+  const toRow = (site: Website, email: EmailRecord | undefined) =>
+    fields.map(field => ("constant" in field ? field.constant : COLUMNS_BY_ID.get(field.column)?.value(site, email) ?? ""));
+
+  const rows = sites.flatMap(site => {
+    const emails = usableEmails(site);
+    return mode === "email" ? emails.map(email => toRow(site, email)) : [toRow(site, emails[0])];
+  });
+  return { headers: fields.map(field => field.header), rows };
+}
+
+// Scraped text Excel and Sheets would run as a formula; XLSX cells are typed, so only CSV needs this
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// RFC 4180: quote a field holding a comma, quote or line break, doubling its quotes
+const csvField = (value: CellValue) => {
+  const text = typeof value === "string" && FORMULA_START.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv({ headers, rows }: { headers: string[]; rows: CellValue[][] }): string {
+  return [headers, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export async function exportFile(sites: Website[], fields: LayoutField[], mode: ExportMode, format: ExportFormat, baseName: string) {
+  const table = buildTable(sites, fields, mode);
+  let blob: Blob;
+
+  if (format === "csv") {
+    // The byte order mark makes Excel read the file as UTF-8
+    blob = new Blob(["\uFEFF", toCsv(table)], { type: "text/csv;charset=utf-8" });
+  } else if (format === "json") {
+    const objects = table.rows.map(row => Object.fromEntries(table.headers.map((header, i) => [header, row[i]])));
+    blob = new Blob([JSON.stringify(objects, null, 2)], { type: "application/json" });
+  } else {
+    const sheet: SheetData = [
+      table.headers.map(header => ({ value: header, fontWeight: "bold" as const })),
+      ...table.rows.map(row => row.map(value => (value === "" ? null : { value })))
+    ];
+    blob = await writeXlsxFile(sheet).toBlob();
+  }
+
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.setAttribute("href", url);
+  link.setAttribute("download", `${baseName}.${format}`);
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_FILTERS, fastThreshold, filterSites } from "./filters";
+import type { SiteFilters } from "./filters";
+import type { Website } from "./types";
+
+const store = (title: string, productCount: number | undefined, productCountCapped = false): Website => ({
+  title,
+  link: `https://${title.toLowerCase()}.com/`,
+  shopify: productCount === undefined ? undefined : { productCount, productCountCapped, apps: [] }
+});
+
+const sites = [store("Small", 20), store("Medium", 400), store("Huge", 1000, true), store("Other", undefined)];
+const titles = (filters: Partial<SiteFilters>) => filterSites(sites, { ...DEFAULT_FILTERS, ...filters }).map(site => site.title);
+
+describe("filterSites", () => {
+  it("compares a capped product count as a lower bound", () => {
+    expect(titles({ minProducts: "500" })).toEqual(["Huge"]);
+    expect(titles({ maxProducts: "50" })).toEqual(["Small"]);
+    expect(titles({ minProducts: "100", maxProducts: "500" })).toEqual(["Medium"]);
+  });
+
+  it("leaves out sites without Shopify data once a product filter is set", () => {
+    expect(titles({})).toHaveLength(4);
+    expect(titles({ maxProducts: "5000" })).toEqual(["Small", "Medium", "Huge"]);
+  });
+});
+
+describe("fastThreshold", () => {
+  it("sends only a positive load-time limit, capped at the check timeout", () => {
+    expect(fastThreshold({ ...DEFAULT_FILTERS, speedLimit: "1500" })).toBe(1500);
+    expect(fastThreshold({ ...DEFAULT_FILTERS, speedLimit: "20000" })).toBe(7000);
+    expect(fastThreshold({ ...DEFAULT_FILTERS, speedLimit: "0" })).toBeUndefined();
+    expect(fastThreshold({ ...DEFAULT_FILTERS, speedMetric: "ttfb", speedLimit: "500" })).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import type { PlatformName, SiteCategory, SiteMetrics, Website } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// The server's site check timeout; nothing slower can be measured
+const MAX_FAST_THRESHOLD = 7000;
+
+// Site check metrics the speed filter can cap
+export type SpeedMetric = Extract<keyof SiteMetrics, "downloadTime" | "ttfb" | "htmlBytes">;
+
+// The filter form's values, kept as typed so a saved search restores them exactly
+export interface SiteFilters {
+  domainActive: boolean;
+  platform: PlatformName | "";
+  category: SiteCategory | "";
+  minProducts: string;
+  maxProducts: string;
+  activeWithinDays: string;
+  usesTech: string;
+  lacksTech: string;
+  speedMetric: SpeedMetric;
+  speedLimit: string;
+  excludeWebsites: string;
+}
+
+export const DEFAULT_FILTERS: SiteFilters = {
+  domainActive: false,
+  platform: "",
+  category: "",
+  minProducts: "",
+  maxProducts: "",
+  activeWithinDays: "",
+  usesTech: "",
+  lacksTech: "",
+  speedMetric: "downloadTime",
+  speedLimit: "",
+  excludeWebsites: ""
+};
+
+/**
+ * The load-time limit of the speed filter, which site checks also use to mark a site
+ * fast. Like the server's threshold it applies to the full download time, not TTFB.
+ */
+export function fastThreshold(filters: SiteFilters): number | undefined {
+  const limit = parseFloat(filters.speedLimit);
+  if (filters.speedMetric !== "downloadTime" || !(limit > 0)) return undefined;
+  return Math.min(limit, MAX_FAST_THRESHOLD);
+}
+
+/** The sites that pass every filter that is set. */
+export function filterSites(sites: Website[], filters: SiteFilters): Website[] {
+  let filtered = [...sites];
+
+  // Apply domain active filter
+  if (filters.domainActive) {
+    filtered = filtered.filter(site => site.isDomainActive);
+  }
+
+  // Apply platform filter
+  if (filters.platform) {
+    filtered = filtered.filter(site => (site.platform?.name || "unknown") === filters.platform);
+  }
+
+  // Apply speed filter; sites checked before metrics were recorded have nothing to compare
+  const limit = parseFloat(filters.speedLimit);
+  if (!isNaN(limit)) {
+    filtered = filtered.filter(site => {
+      const value = site.metrics?.[filters.speedMetric];
+      if (value === undefined) return false;
+      return (filters.speedMetric === "htmlBytes" ? value / 1024 : value) <= limit;
+    });
+  }
+
+  // Apply site type filter
+  if (filters.category) {
+    filtered = filtered.filter(site => site.classification?.category === filters.category);
+  }
+
+  // Apply Shopify catalogue filters; sites without Shopify data never match them
+  const min = parseInt(filters.minProducts);
+  const max = parseInt(filters.maxProducts);
+  if (!Number.isNaN(min) || !Number.isNaN(max)) {
+    filtered = filtered.filter(site => {
+      const products = site.shopify?.productCount;
+      if (products === undefined) return false;
+      // A capped count is a lower bound, so a store over the cap passes any minimum it meets and fails any maximum below it
+      return (Number.isNaN(min) || products >= min) && (Number.isNaN(max) || products <= max);
+    });
+  }
+  if (filters.activeWithinDays) {
+    const since = Date.now() - parseInt(filters.activeWithinDays) * DAY_MS;
+    filtered = filtered.filter(site => site.shopify?.newestProductAt && Date.parse(site.shopify.newestProductAt) >= since);
+  }
+
+  // Apply tech-stack filters, e.g. runs Meta Pixel but not Klaviyo
+  if (filters.usesTech) {
+    filtered = filtered.filter(site => site.tech?.some(tech => tech.name === filters.usesTech));
+  }
+  if (filters.lacksTech) {
+    // Only sites that were actually checked can be said to lack something
+    filtered = filtered.filter(site => site.tech && !site.tech.some(tech => tech.name === filters.lacksTech));
+  }
+
+  // Apply excluded websites filter
+  if (filters.excludeWebsites.trim()) {
+    const excluded = filters.excludeWebsites
+      .split(",")
+      .map(term => term.trim().toLowerCase());
+
+    filtered = filtered.filter(site =>
+      !excluded.some(term => site.link.toLowerCase().includes(term))
+    );
+  }
+
+  return filtered;
+}
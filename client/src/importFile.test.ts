@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { guessColumns, looksLikeHeader, parseDelimited, readTable } from "./importFile";
+
+describe("parseDelimited", () => {
+  it("keeps delimiters, doubled quotes and line breaks inside quoted fields", () => {
+    expect(parseDelimited('name,url\r\n"Shop, ""Best""\nOnline",shop.com\n', ",")).toEqual([
+      ["name", "url"],
+      ['Shop, "Best"\nOnline', "shop.com"]
+    ]);
+  });
+
+  it("drops a byte order mark and keeps a last row without a line break", () => {
+    expect(parseDelimited("\uFEFFa;b\nc;", ";")).toEqual([
+      ["a", "b"],
+      ["c", ""]
+    ]);
+  });
+});
+
+describe("readTable", () => {
+  it("guesses the delimiter from the first line and drops blank rows", async () => {
+    const file = new File(["url;name\nshop.com;Shop, Ltd\n;\n"], "leads.csv");
+    expect(await readTable(file)).toEqual([
+      ["url", "name"],
+      ["shop.com", "Shop, Ltd"]
+    ]);
+  });
+});
+
+describe("guessColumns", () => {
+  it("picks the URL and name columns from the header", () => {
+    expect(looksLikeHeader(["Company", "Website"])).toBe(true);
+    expect(guessColumns([["Company", "Website"], ["Shop", "shop.com"]], true)).toEqual({ url: 1, name: 0 });
+  });
+
+  it("falls back to the first column holding links", () => {
+    const rows = [["Shop", "https://shop.com/"], ["Store", "store.ie"]];
+    expect(looksLikeHeader(rows[0])).toBe(false);
+    expect(guessColumns(rows, false)).toEqual({ url: 1, name: null });
+  });
+});
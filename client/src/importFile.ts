@@ -0,0 +1,107 @@
+import readXlsxFile from "read-excel-file";
+
+export const IMPORT_EXTENSIONS = [".csv", ".tsv", ".txt", ".xlsx"];
+
+/**
+ * Read an uploaded CSV, TSV or XLSX file into rows of cell text. Only the first
+ * sheet of a workbook is read; blank rows are dropped.
+ */
+export async function readTable(file: File): Promise<string[][]> {
+  const name = file.name.toLowerCase();
+  let rows: string[][];
+
+  if (name.endsWith(".xlsx")) {
+    const sheet = await readXlsxFile(file);
+    rows = sheet.map(row => row.map(cell => (cell === null || cell === undefined ? "" : String(cell))));
+  } else if (name.endsWith(".xls")) {
+    throw new Error("Legacy .xls workbooks are not supported; save the sheet as .xlsx or CSV");
+  } else {
+    const text = await file.text();
+    rows = parseDelimited(text, name.endsWith(".tsv") ? "\t" : guessDelimiter(text));
+  }
+
+  return rows.filter(row => row.some(cell => cell.trim() !== ""));
+}
+
+/** Parse RFC 4180 delimited text: quoted fields may hold delimiters, quotes ("") and newlines. */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // Excel writes a byte order mark at the start of UTF-8 CSVs
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Semicolons are common in CSVs exported with European locale settings
+function guessDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  const counts = [",", ";", "\t"].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }));
+  return counts.reduce((best, next) => (next.count > best.count ? next : best)).delimiter;
+}
+
+const looksLikeUrl = (cell: string) => /^(https?:\/\/)?[\w-]+(\.[\w-]+)+(\/|$)/i.test(cell.trim());
+
+// A first row without any link in it is taken for a header
+export const looksLikeHeader = (row: string[]) => !row.some(looksLikeUrl);
+
+const URL_HEADER = /^(url|link|website|web site|site|domain|homepage)s?$/i;
+const NAME_HEADER = /^(name|title|company|company name|store|shop|business)$/i;
+
+/**
+ * Pick the URL and name columns from a header row, or failing that, the first column
+ * whose values look like links.
+ */
+export function guessColumns(rows: string[][], hasHeader: boolean): { url: number; name: number | null } {
+  const header = hasHeader ? rows[0] || [] : [];
+  let url = header.findIndex(cell => URL_HEADER.test(cell.trim()));
+  const name = header.findIndex(cell => NAME_HEADER.test(cell.trim()));
+
+  if (url === -1) {
+    const sample = rows.slice(hasHeader ? 1 : 0, 20);
+    const width = Math.max(0, ...sample.map(row => row.length));
+    url = Array.from({ length: width }, (_, column) => column).find(column =>
+      sample.some(row => looksLikeUrl(row[column] || ""))
+    ) ?? 0;
+  }
+
+  return { url, name: name === -1 || name === url ? null : name };
+}
@@ -0,0 +1,65 @@
+import type { ConnectorName, PlatformName, ScoreSignal, SiteCategory, SocialNetwork, TechCategory } from "./types";
+
+// Display names shared by the results table, the scoring panel and exports
+
+export const PLATFORM_LABELS: Record<PlatformName, string> = {
+  shopify: "Shopify",
+  woocommerce: "WooCommerce",
+  magento: "Magento",
+  bigcommerce: "BigCommerce",
+  wix: "Wix",
+  squarespace: "Squarespace",
+  unknown: "Unknown"
+};
+
+export const TECH_CATEGORY_LABELS: Record<TechCategory, string> = {
+  analytics: "Analytics",
+  tag_manager: "Tag Manager",
+  ad_pixel: "Ad Pixels",
+  email_marketing: "Email Marketing",
+  session_recording: "Session Recording",
+  live_chat: "Live Chat",
+  reviews: "Reviews",
+  store_apps: "Store Apps"
+};
+
+export const TECH_CATEGORIES = Object.keys(TECH_CATEGORY_LABELS) as TechCategory[];
+
+export const SCORE_SIGNAL_LABELS: Record<ScoreSignal, string> = {
+  active_domain: "Domain active",
+  fast_loading: "Loads fast",
+  platform: "Platform",
+  tech_stack: "Tech stack",
+  contacts: "Phone & socials",
+  email: "Email",
+  independent_store: "Independent store"
+};
+
+export const SCORE_SIGNALS = Object.keys(SCORE_SIGNAL_LABELS) as ScoreSignal[];
+
+export const CATEGORY_LABELS: Record<SiteCategory, string> = {
+  independent_store: "Independent store",
+  marketplace: "Marketplace",
+  large_retailer: "Large retailer",
+  directory: "Directory / aggregator",
+  news_blog: "News / blog",
+  manufacturer: "Manufacturer"
+};
+
+export const SOCIAL_LABELS: Record<SocialNetwork, string> = {
+  instagram: "Instagram",
+  facebook: "Facebook",
+  tiktok: "TikTok",
+  linkedin: "LinkedIn",
+  x: "X",
+  youtube: "YouTube",
+  pinterest: "Pinterest"
+};
+
+export const SOCIAL_NETWORKS = Object.keys(SOCIAL_LABELS) as SocialNetwork[];
+
+export const CONNECTOR_LABELS: Record<ConnectorName, string> = {
+  hubspot: "HubSpot",
+  pipedrive: "Pipedrive",
+  webhook: "Webhook"
+};
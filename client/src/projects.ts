@@ -0,0 +1,174 @@
+import { DEFAULT_FILTERS } from "./filters";
+import type { SiteFilters } from "./filters";
+import type { SearchMetadata, SearchProviderName, Website } from "./types";
+
+const PROJECTS_KEY = "ecom_finder_projects";
+const ACTIVE_KEY = "ecom_finder_active_search";
+// Each saved search's results live under their own key so the index stays small
+const RESULTS_KEY_PREFIX = "ecom_finder_search_";
+
+// The single results snapshot kept before projects existed, and the copies derived from it;
+// platforms replaced the original Shopify-only key
+const LEGACY_RESULTS_KEY = "ecom_finder_full_results";
+const LEGACY_DERIVED_KEYS = [
+  "ecom_finder_filtered_results",
+  "ecom_finder_domain_active",
+  "ecom_finder_shopify",
+  "ecom_finder_platforms",
+  "ecom_finder_fast_loading"
+];
+
+export interface SearchParams {
+  industryKeyword: string;
+  region: string;
+  city: string;
+  count: number;
+  provider: SearchProviderName;
+}
+
+export interface SavedSearch {
+  id: string;
+  name: string;
+  // Imported lists and saved-lead views have nothing to re-run
+  params: SearchParams | null;
+  // The filters last applied to the results
+  filters: SiteFilters;
+  metadata: SearchMetadata | null;
+  // Set for results of a background job, so a finished job is saved only once
+  jobId?: string;
+  resultCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  searches: SavedSearch[];
+  createdAt: string;
+}
+
+export interface ActiveSearch {
+  projectId: string;
+  searchId: string | null;
+}
+
+export class StorageFullError extends Error {
+  constructor() {
+    super("Browser storage is full. Delete searches or projects you no longer need and try again.");
+    this.name = "StorageFullError";
+  }
+}
+
+const write = (key: string, value: unknown) => {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (err) {
+    if (err instanceof DOMException && err.name === "QuotaExceededError") throw new StorageFullError();
+    throw err;
+  }
+};
+
+const read = <T>(key: string): T | null => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const now = () => new Date().toISOString();
+
+export const searchName = (params: SearchParams) =>
+  [params.industryKeyword, params.city, params.region].filter(Boolean).join(" · ") || "Untitled search";
+
+export const createProject = (name: string): Project => ({ id: crypto.randomUUID(), name, searches: [], createdAt: now() });
+
+export const createSearch = (name: string, params: SearchParams | null, metadata: SearchMetadata | null = null): SavedSearch => ({
+  id: crypto.randomUUID(),
+  name,
+  params,
+  filters: DEFAULT_FILTERS,
+  metadata,
+  resultCount: 0,
+  createdAt: now(),
+  updatedAt: now()
+});
+
+export const findSearch = (projects: Project[], searchId: string | null) =>
+  projects.flatMap(project => project.searches).find(search => search.id === searchId) || null;
+
+export const updateProject = (projects: Project[], projectId: string, update: (project: Project) => Project) =>
+  projects.map(project => (project.id === projectId ? update(project) : project));
+
+export const updateSearch = (projects: Project[], searchId: string, changes: Partial<SavedSearch>) =>
+  projects.map(project =>
+    project.searches.some(search => search.id === searchId)
+      ? {
+          ...project,
+          searches: project.searches.map(search => (search.id === searchId ? { ...search, ...changes, updatedAt: now() } : search))
+        }
+      : project
+  );
+
+export const loadResults = (searchId: string) => read<Website[]>(RESULTS_KEY_PREFIX + searchId) || [];
+
+export const saveResults = (searchId: string, sites: Website[]) => write(RESULTS_KEY_PREFIX + searchId, sites);
+
+export const deleteResults = (searchId: string) => localStorage.removeItem(RESULTS_KEY_PREFIX + searchId);
+
+/** Copy a search and its results; the copy is named "<name> (copy)". */
+export function duplicateSearch(search: SavedSearch): SavedSearch {
+  const copy = { ...search, id: crypto.randomUUID(), name: `${search.name} (copy)`, createdAt: now(), updatedAt: now() };
+  saveResults(copy.id, loadResults(search.id));
+  return copy;
+}
+
+export function duplicateProject(project: Project): Project {
+  const copy = { ...createProject(`${project.name} (copy)`), searches: [] as SavedSearch[] };
+  try {
+    project.searches.forEach(search => copy.searches.push({ ...duplicateSearch(search), name: search.name }));
+  } catch (err) {
+    // Don't leave the results of a half-made copy behind
+    copy.searches.forEach(search => deleteResults(search.id));
+    throw err;
+  }
+  return copy;
+}
+
+export const saveProjects = (projects: Project[]) => write(PROJECTS_KEY, projects);
+
+export const saveActiveSearch = (active: ActiveSearch) => write(ACTIVE_KEY, active);
+
+/**
+ * Load the projects, turning the results snapshot of older versions into a first
+ * project. There is always at least one project.
+ */
+export function loadProjects(): { projects: Project[]; active: ActiveSearch } {
+  let projects = read<Project[]>(PROJECTS_KEY);
+
+  if (!projects || projects.length === 0) {
+    const project = createProject("My project");
+    const legacy = read<Website[]>(LEGACY_RESULTS_KEY);
+    // Make room before the results are written again
+    LEGACY_DERIVED_KEYS.forEach(key => localStorage.removeItem(key));
+    if (legacy && legacy.length > 0) {
+      const search = { ...createSearch("Earlier results", null), resultCount: legacy.length };
+      try {
+        saveResults(search.id, legacy);
+        project.searches.push(search);
+        localStorage.removeItem(LEGACY_RESULTS_KEY);
+      } catch (err) {
+        // Too big to hold twice; the old snapshot is left where it was
+        console.error("Error migrating saved results:", err);
+      }
+    }
+    projects = [project];
+    saveProjects(projects);
+  }
+
+  const saved = read<ActiveSearch>(ACTIVE_KEY);
+  const project = projects.find(p => p.id === saved?.projectId) || projects[0];
+  const search = project.searches.find(s => s.id === saved?.searchId) || project.searches[0];
+  return { projects, active: { projectId: project.id, searchId: search?.id || null } };
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_TABLE_VIEW, rowKey, viewRows } from "./resultsTable";
+import type { TableView } from "./resultsTable";
+import type { Website } from "./types";
+
+const site = (title: string, extra: Partial<Website> = {}): Website => ({ title, link: `https://${title.toLowerCase()}.com/`, ...extra });
+const score = (value: number): Website["score"] => ({ link: "", score: value, profileId: "default", breakdown: [] });
+
+const sites = [
+  site("Alpha", { score: score(40), isDomainActive: true, platform: { name: "shopify", confidence: 1, evidence: [] } }),
+  site("Bravo", { isDomainActive: false, emails: [{ address: "hello@bravo.com", status: "valid", reason: "mx_found", type: "role" }] }),
+  site("Charlie", { score: score(90), tech: [{ name: "Klaviyo", category: "email_marketing", evidence: [] }] })
+];
+
+const view = (changes: Partial<TableView>): TableView => ({ ...DEFAULT_TABLE_VIEW, sort: null, ...changes });
+const titles = (rows: Website[]) => rows.map(row => row.title);
+
+describe("viewRows", () => {
+  it("matches every quick search term anywhere in the row", () => {
+    expect(titles(viewRows(sites, view({ quickSearch: "hello@" })))).toEqual(["Bravo"]);
+    expect(titles(viewRows(sites, view({ quickSearch: "alpha shopify" })))).toEqual(["Alpha"]);
+    expect(titles(viewRows(sites, view({ quickSearch: "alpha klaviyo" })))).toEqual([]);
+  });
+
+  it("applies text, choice and range column filters", () => {
+    expect(titles(viewRows(sites, view({ filters: { tech: "klav" } })))).toEqual(["Charlie"]);
+    expect(titles(viewRows(sites, view({ filters: { status: "unchecked" } })))).toEqual(["Charlie"]);
+    expect(titles(viewRows(sites, view({ filters: { score: { min: "50", max: "" } } })))).toEqual(["Charlie"]);
+    // Rows without a score never match a range
+    expect(titles(viewRows(sites, view({ filters: { score: { min: "", max: "100" } } })))).toEqual(["Alpha", "Charlie"]);
+  });
+
+  it("ignores filters left blank", () => {
+    expect(viewRows(sites, view({ filters: { website: " ", score: { min: "", max: "" } } }))).toHaveLength(3);
+  });
+
+  it("sorts rows without a value last in either direction", () => {
+    expect(titles(viewRows(sites, DEFAULT_TABLE_VIEW))).toEqual(["Charlie", "Alpha", "Bravo"]);
+    expect(titles(viewRows(sites, view({ sort: { column: "score", direction: "asc" } })))).toEqual(["Alpha", "Charlie", "Bravo"]);
+    expect(titles(viewRows(sites, view({ sort: { column: "website", direction: "desc" } })))).toEqual(["Charlie", "Bravo", "Alpha"]);
+  });
+});
+
+describe("rowKey", () => {
+  it("uses the domain, falling back to the link's host", () => {
+    expect(rowKey(site("Alpha", { domain: "alpha.co.uk" }))).toBe("alpha.co.uk");
+    expect(rowKey({ title: "Old", link: "https://www.old.com/shop" })).toBe("old.com");
+    expect(rowKey({ title: "Broken", link: "not a url" })).toBe("not a url");
+  });
+});
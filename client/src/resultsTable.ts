@@ -0,0 +1,165 @@
+import { usableEmails } from "./export";
+import { CATEGORY_LABELS, PLATFORM_LABELS } from "./labels";
+import type { ProgressStage, Website } from "./types";
+
+// Where a row stands in the running check or email lookup
+export type RowStatus = { stage: ProgressStage; state: "pending" | "done" | "failed" };
+
+export type ColumnId = "score" | "website" | "email" | "status" | "platform" | "category" | "speed" | "products" | "tech";
+
+export type SortDirection = "asc" | "desc";
+
+// Text to look for, one of a fixed set of values, or a numeric range
+type ColumnFilterKind =
+  | { kind: "text"; text: (site: Website) => string }
+  | { kind: "choice"; options: Record<string, string>; value: (site: Website) => string }
+  | { kind: "range"; value: (site: Website) => number | undefined };
+
+export type TableColumn = {
+  id: ColumnId;
+  label: string;
+  // Starting width in pixels, until the user resizes the column
+  width: number;
+  // Rows without a value sort last in either direction
+  sortValue: (site: Website) => string | number | undefined;
+} & ColumnFilterKind;
+
+export type ColumnFilterValue = string | { min: string; max: string };
+
+export interface TableView {
+  sort: { column: ColumnId; direction: SortDirection } | null;
+  filters: Partial<Record<ColumnId, ColumnFilterValue>>;
+  quickSearch: string;
+}
+
+// Best leads first once scored; unscored ones keep their search order at the end
+export const DEFAULT_TABLE_VIEW: TableView = { sort: { column: "score", direction: "desc" }, filters: {}, quickSearch: "" };
+
+const STATUS_OPTIONS = { active: "Active", inactive: "Inactive", unchecked: "Not checked" };
+
+const siteStatus = (site: Website) => (site.isDomainActive === undefined ? "unchecked" : site.isDomainActive ? "active" : "inactive");
+
+export const TABLE_COLUMNS: TableColumn[] = [
+  { id: "score", label: "Score", width: 80, kind: "range", value: site => site.score?.score, sortValue: site => site.score?.score },
+  {
+    id: "website",
+    label: "Website",
+    width: 320,
+    kind: "text",
+    text: site => `${site.title} ${site.link}`,
+    sortValue: site => site.title.toLowerCase()
+  },
+  {
+    id: "email",
+    label: "Email",
+    width: 220,
+    kind: "text",
+    text: site => (site.emails || []).map(email => email.address).join(" "),
+    sortValue: site => usableEmails(site)[0]?.address
+  },
+  { id: "status", label: "Status", width: 110, kind: "choice", options: STATUS_OPTIONS, value: siteStatus, sortValue: site => STATUS_OPTIONS[siteStatus(site)] },
+  {
+    id: "platform",
+    label: "Platform",
+    width: 130,
+    kind: "choice",
+    options: PLATFORM_LABELS,
+    value: site => site.platform?.name || "unknown",
+    sortValue: site => PLATFORM_LABELS[site.platform?.name || "unknown"]
+  },
+  {
+    id: "category",
+    label: "Site type",
+    width: 150,
+    kind: "choice",
+    options: CATEGORY_LABELS,
+    value: site => site.classification?.category || "",
+    sortValue: site => (site.classification ? CATEGORY_LABELS[site.classification.category] : undefined)
+  },
+  { id: "speed", label: "Load time (ms)", width: 120, kind: "range", value: site => site.metrics?.downloadTime, sortValue: site => site.metrics?.downloadTime },
+  { id: "products", label: "Products", width: 100, kind: "range", value: site => site.shopify?.productCount, sortValue: site => site.shopify?.productCount },
+  {
+    id: "tech",
+    label: "Tech",
+    width: 220,
+    kind: "text",
+    text: site => (site.tech || []).map(tech => tech.name).join(" "),
+    sortValue: site => site.tech?.length
+  }
+];
+
+/** A row's identity: its registrable domain, which searches and imports keep unique. */
+export function rowKey(site: Website): string {
+  if (site.domain) return site.domain;
+  try {
+    // Results saved before the server returned domains
+    return new URL(site.link).hostname.replace(/^www\./, "");
+  } catch {
+    return site.link;
+  }
+}
+
+// Everything the quick search looks through
+const searchText = (site: Website) =>
+  [
+    site.title,
+    site.link,
+    site.domain,
+    PLATFORM_LABELS[site.platform?.name || "unknown"],
+    site.classification && CATEGORY_LABELS[site.classification.category],
+    ...(site.emails || []).map(email => email.address),
+    ...(site.contacts?.phones || []).map(phone => phone.number),
+    ...(site.tech || []).map(tech => tech.name),
+    site.shopify?.country,
+    site.shopify?.theme
+  ]
+    .filter(Boolean)
+    .join(" ")
+    .toLowerCase();
+
+const matchesFilter = (column: TableColumn, filter: ColumnFilterValue, site: Website) => {
+  if (column.kind === "range") {
+    if (typeof filter === "string") return true;
+    const min = parseFloat(filter.min);
+    const max = parseFloat(filter.max);
+    const value = column.value(site);
+    // Rows without a value never match a range
+    return value !== undefined && (Number.isNaN(min) || value >= min) && (Number.isNaN(max) || value <= max);
+  }
+
+  if (typeof filter !== "string") return true;
+  return column.kind === "text" ? column.text(site).toLowerCase().includes(filter.trim().toLowerCase()) : column.value(site) === filter;
+};
+
+export const isFilterSet = (filter: ColumnFilterValue | undefined) =>
+  typeof filter === "string" ? filter.trim() !== "" : !!filter && (filter.min.trim() !== "" || filter.max.trim() !== "");
+
+/** The rows the table shows: quick search and column filters applied, then sorted. */
+export function viewRows(sites: Website[], view: TableView): Website[] {
+  const terms = view.quickSearch.toLowerCase().split(/\s+/).filter(Boolean);
+  const filters = TABLE_COLUMNS.flatMap(column => {
+    const filter = view.filters[column.id];
+    return filter !== undefined && isFilterSet(filter) ? [{ column, filter }] : [];
+  });
+
+  const rows = sites.filter(site => {
+    if (terms.length > 0) {
+      const text = searchText(site);
+      if (!terms.every(term => text.includes(term))) return false;
+    }
+    return filters.every(({ column, filter }) => matchesFilter(column, filter, site));
+  });
+
+  const column = view.sort && TABLE_COLUMNS.find(c => c.id === view.sort?.column);
+  if (!view.sort || !column) return rows;
+
+  const direction = view.sort.direction === "asc" ? 1 : -1;
+  return rows
+    .map(site => ({ site, value: column.sortValue(site) }))
+    .sort((a, b) => {
+      if (a.value === undefined || b.value === undefined) return Number(a.value === undefined) - Number(b.value === undefined);
+      if (typeof a.value === "number" && typeof b.value === "number") return (a.value - b.value) * direction;
+      return String(a.value).localeCompare(String(b.value)) * direction;
+    })
+    .map(({ site }) => site);
+}
@@ -0,0 +1,314 @@
+export type PlatformName = "shopify" | "woocommerce" | "magento" | "bigcommerce" | "wix" | "squarespace" | "unknown";
+
+export interface PlatformEvidence {
+  type: string;
+  match: string;
+}
+
+export interface PlatformMatch {
+  name: PlatformName;
+  confidence: number;
+  evidence: PlatformEvidence[];
+}
+
+export type SiteCategory = "independent_store" | "marketplace" | "large_retailer" | "directory" | "news_blog" | "manufacturer";
+
+export interface SiteClassification {
+  category: SiteCategory;
+  confidence: number;
+  reasons: string[];
+}
+
+export type SearchProviderName = "serpapi" | "bing" | "brave" | "fixture";
+
+export interface Website {
+  title: string;
+  link: string;
+  position?: number;
+  source?: SearchProviderName;
+  // Registrable domain and canonical homepage, as normalized by the server
+  domain?: string;
+  homepage?: string;
+  // Whether the lead store had never seen this domain before the search
+  isNew?: boolean;
+  isDomainActive?: boolean;
+  platform?: PlatformMatch;
+  classification?: SiteClassification;
+  shopify?: ShopifyStoreInfo;
+  // Marketing, analytics, chat and review tools on the homepage
+  tech?: DetectedTechnology[];
+  isFastLoading?: boolean;
+  metrics?: SiteMetrics;
+  emails?: EmailRecord[];
+  contacts?: SiteContacts;
+  emailStatus?: EmailStatus;
+  // Pages the scraper left alone because of robots.txt or crawl-delay
+  skippedPages?: PolicySkip[];
+  // From the last time the results were scored
+  score?: LeadScore;
+  // Outcome of the last push to each CRM or webhook
+  syncs?: Partial<Record<ConnectorName, SyncRecord>>;
+  error?: boolean;
+}
+
+export type EmailStatus = "found" | "not_found" | "error";
+
+export type EmailValidity = "valid" | "risky" | "invalid" | "unknown";
+
+export type EmailReason =
+  | "mx_found"
+  | "invalid_syntax"
+  | "placeholder"
+  | "no_reply"
+  | "disposable_domain"
+  | "no_mx_records"
+  | "dns_lookup_failed";
+
+// How the scraper found an address on the page
+export type EmailSource = "mailto" | "cloudflare" | "json_ld" | "text" | "entity" | "obfuscated" | "script";
+
+// A scraped address with the outcome of the server's validation
+export interface EmailRecord {
+  address: string;
+  status: EmailValidity;
+  reason: EmailReason;
+  type: "role" | "personal";
+  source?: EmailSource;
+}
+
+export type SocialNetwork = "instagram" | "facebook" | "tiktok" | "linkedin" | "x" | "youtube" | "pinterest";
+
+export interface PhoneRecord {
+  // E.164
+  number: string;
+  raw: string;
+  source: "tel" | "json_ld" | "text";
+}
+
+// Ways to reach a site other than email
+export interface SiteContacts {
+  phones: PhoneRecord[];
+  socials: Partial<Record<SocialNetwork, string>>;
+  whatsapp?: string;
+  telegram?: string;
+}
+
+export type PolicySkipReason = "robots_disallowed" | "robots_unavailable" | "crawl_delay_too_long";
+
+export interface PolicySkip {
+  url: string;
+  reason: PolicySkipReason;
+}
+
+export interface EmailResult {
+  title: string;
+  link: string;
+  url: string;
+  emails: EmailRecord[];
+  contacts: SiteContacts;
+  status: EmailStatus;
+  skipped?: PolicySkip[];
+  error?: string;
+}
+
+export type SearchStopReason = "count_reached" | "exhausted" | "page_budget" | "provider_error";
+
+export interface SearchMetadata {
+  requested: number;
+  returned: number;
+  pagesFetched: number;
+  stopReason: SearchStopReason;
+  error?: string;
+  searchId?: string;
+  newCount?: number;
+}
+
+export type TechCategory =
+  | "analytics"
+  | "tag_manager"
+  | "ad_pixel"
+  | "email_marketing"
+  | "session_recording"
+  | "live_chat"
+  | "reviews"
+  | "store_apps";
+
+export interface DetectedTechnology {
+  name: string;
+  category: TechCategory;
+  evidence: PlatformEvidence[];
+}
+
+// Storefront details of a Shopify store
+export interface ShopifyStoreInfo {
+  shopName?: string;
+  myshopifyDomain?: string;
+  productCount?: number;
+  // The store has at least `productCount` products
+  productCountCapped: boolean;
+  priceRange?: { min: number; max: number };
+  currency?: string;
+  country?: string;
+  theme?: string;
+  newestProductAt?: string;
+  apps: string[];
+}
+
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+// Homepage timings and transport security, as measured by the site check
+export interface SiteMetrics {
+  redirects: RedirectHop[];
+  finalUrl: string;
+  status?: number;
+  // Milliseconds to the final response's headers and to its last byte
+  ttfb?: number;
+  downloadTime?: number;
+  // Decompressed HTML size
+  htmlBytes?: number;
+  compression?: string;
+  https: boolean;
+  hsts: boolean;
+  // Whether http:// redirects to https://; null when it could not be tested
+  httpsRedirect: boolean | null;
+  error?: string;
+}
+
+export interface SiteCheckResult {
+  url: string;
+  isDomainActive: boolean;
+  loadsFast: boolean;
+  metrics: SiteMetrics;
+  platform: PlatformMatch;
+  classification: SiteClassification;
+  tech: DetectedTechnology[];
+  shopify?: ShopifyStoreInfo;
+}
+
+export type ScoreSignal =
+  | "active_domain"
+  | "fast_loading"
+  | "platform"
+  | "tech_stack"
+  | "contacts"
+  | "email"
+  | "independent_store";
+
+// Weights for one campaign; `platforms` and `techCategories` narrow what earns points (empty means any)
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  weights: Record<ScoreSignal, number>;
+  platforms: Exclude<PlatformName, "unknown">[];
+  techCategories: TechCategory[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ScoreComponent {
+  signal: ScoreSignal;
+  value: number;
+  // Out of `max`, which is the signal's share of 100
+  points: number;
+  max: number;
+  reason: string;
+}
+
+export interface LeadScore {
+  link: string;
+  score: number;
+  profileId: string;
+  breakdown: ScoreComponent[];
+}
+
+export type ProgressStage = "search" | "check" | "email";
+
+// Server-Sent Events from /getWebsites, /checkSites and /fetchEmail; `index` is a site's position in the request
+export type ProgressEvent =
+  | { type: "progress"; stage: ProgressStage; done: number; total: number }
+  | { type: "site"; stage: "check"; index: number; url: string; result: SiteCheckResult }
+  | { type: "site"; stage: "email"; index: number; url: string; result: EmailResult }
+  | { type: "error"; stage: ProgressStage; index?: number; url?: string; message: string }
+  | { type: "done"; stage: ProgressStage; result?: unknown };
+
+export type JobStatus = "running" | "cancelled" | "completed" | "failed";
+export type JobStage = "search" | "check" | "email" | "done";
+
+export interface JobSite {
+  title: string;
+  link: string;
+  domain?: string;
+  homepage?: string;
+  isNew?: boolean;
+  classification?: SiteClassification;
+  position: number;
+  source: SearchProviderName;
+  check?: SiteCheckResult;
+  email?: { emails: EmailRecord[]; contacts: SiteContacts; status: EmailStatus; skipped?: PolicySkip[]; error?: string };
+}
+
+export interface Job {
+  id: string;
+  params: { keyword: string; region: string; count: number; provider: SearchProviderName; maxPages: number };
+  status: JobStatus;
+  stage: JobStage;
+  progress: { done: number; total: number };
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+  sites?: JobSite[];
+}
+
+export interface Lead {
+  domain: string;
+  title: string;
+  link: string;
+  enrichment: {
+    check?: SiteCheckResult & { checkedAt: string };
+    // Leads saved before contact extraction have no `contacts`
+    email?: {
+      emails: EmailRecord[];
+      contacts?: SiteContacts;
+      status: EmailStatus;
+      skipped?: PolicySkip[];
+      error?: string;
+      fetchedAt: string;
+    };
+  };
+  searchIds: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export type ImportRejectReason = "invalid_url" | "duplicate";
+
+export interface ImportResult {
+  sites: { title: string; link: string; domain: string; homepage: string }[];
+  rejected: { row: number; link: string; reason: ImportRejectReason }[];
+}
+
+export type ConnectorName = "hubspot" | "pipedrive" | "webhook";
+
+export type LeadField = "name" | "domain" | "website" | "email" | "phone" | "score" | "platform" | "siteType" | "country" | "tech";
+
+// Target property name -> lead field it is filled from
+export type FieldMapping = Record<string, LeadField>;
+
+export interface ConnectorInfo {
+  name: ConnectorName;
+  configured: boolean;
+  defaultMapping: FieldMapping;
+}
+
+export interface SyncRecord {
+  connector: ConnectorName;
+  domain: string;
+  status: "synced" | "failed";
+  action?: "created" | "updated";
+  externalId?: string;
+  error?: string;
+  syncedAt: string;
+}
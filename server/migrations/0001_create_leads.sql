@@ -0,0 +1,35 @@
+-- Every domain ever discovered, keyed by domain so repeat searches update rather than duplicate
+CREATE TABLE leads (
+  domain TEXT PRIMARY KEY,
+  title TEXT NOT NULL DEFAULT '',
+  link TEXT NOT NULL,
+  -- JSON object of enrichment results (site check, emails, ...), each key replaced with json_set
+  enrichment TEXT NOT NULL DEFAULT '{}',
+  first_seen_at TEXT NOT NULL,
+  last_seen_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
+
+CREATE INDEX idx_leads_last_seen_at ON leads (last_seen_at);
+
+CREATE TABLE searches (
+  id TEXT PRIMARY KEY,
+  keyword TEXT NOT NULL,
+  region TEXT NOT NULL,
+  count INTEGER NOT NULL,
+  provider TEXT NOT NULL,
+  result_count INTEGER NOT NULL,
+  new_count INTEGER NOT NULL,
+  created_at TEXT NOT NULL
+);
+
+-- Which searches found which leads, and where they ranked
+CREATE TABLE lead_searches (
+  domain TEXT NOT NULL REFERENCES leads (domain) ON DELETE CASCADE,
+  search_id TEXT NOT NULL REFERENCES searches (id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  is_new INTEGER NOT NULL,
+  PRIMARY KEY (domain, search_id)
+);
+
+CREATE INDEX idx_lead_searches_search_id ON lead_searches (search_id);
@@ -0,0 +1,9 @@
+-- Lead scoring weight profiles, one per campaign
+CREATE TABLE scoring_profiles (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  -- JSON object: weights by signal, target platforms and tech categories
+  config TEXT NOT NULL,
+  created_at TEXT NOT NULL,
+  updated_at TEXT NOT NULL
+);
@@ -0,0 +1,11 @@
+-- Last push of each lead to each CRM or webhook; external_id makes repeat pushes update in place
+CREATE TABLE connector_syncs (
+  connector TEXT NOT NULL,
+  domain TEXT NOT NULL,
+  status TEXT NOT NULL,
+  action TEXT,
+  external_id TEXT,
+  error TEXT,
+  synced_at TEXT NOT NULL,
+  PRIMARY KEY (connector, domain)
+);
@@ -0,0 +1,2 @@
+-- The search whose upsert inserted the lead; tells concurrent searches which one found it first
+ALTER TABLE leads ADD COLUMN first_search_id TEXT;
@@ -1,190 +1,442 @@
 import { Hono } from 'hono';
 import { Context } from 'hono';
-import axios from 'axios';
 import { cors } from 'hono/cors';
+import { stream } from 'hono/streaming';
+import { CHECK_TIMEOUT, checkSite, checkSites, FAST_THRESHOLD, SiteCheckResult } from './lib/siteCheck';
+import { classifySite } from './lib/classify';
+import {
+  createSearchProviderFromEnv,
+  deepSearch,
+  isSearchProviderName,
+  MAX_SEARCH_COUNT,
+  MAX_SEARCH_PAGES,
+  SEARCH_PROVIDERS,
+  SearchProvider,
+} from './lib/search';
+import { getEmailScraper, SiteEmailResult } from './scrapeEmailsFromSite';
+import { getJobRunner, parseJobParams } from './lib/jobs';
+import { getLeadStore } from './lib/leads';
+import { MAX_IMPORT_ROWS, normalizeImport } from './lib/importList';
+import {
+  CONNECTORS,
+  createConnectorFromEnv,
+  DEFAULT_MAPPINGS,
+  getSyncStore,
+  isConnectorConfigured,
+  isConnectorName,
+  LEAD_FIELDS,
+  parsePushRequest,
+  pushLeads,
+} from './lib/connectors';
+import { streamProgress, wantsEventStream } from './lib/progress';
+import {
+  DEFAULT_PROFILE,
+  getScoringProfileStore,
+  parseProfileInput,
+  ScoreInput,
+  scoreLead,
+  ScoringProfile,
+} from './lib/scoring';
 
-const app = new Hono();
+const app = new Hono<{ Bindings: Env }>();
 app.use('*', cors({
   origin: '*', // Or specify your frontend domain like 'https://example.com'
   allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization']
 }))
 
-const SERP_API_KEY = '75ba61b2ee44c0fa928ae3922f094057da0445c2c87e8fdde2e426149cebb455';
-// const RESULTS_PER_PAGE = 100;
 let requestCount = 0;
 
 app.post('/getWebsites', async (c: Context) => {
-  const { keyword, region, count } = await c.req.json();
+  const {
+    keyword,
+    region,
+    count,
+    maxPages = MAX_SEARCH_PAGES,
+    provider: providerName = c.env.DEFAULT_SEARCH_PROVIDER || 'serpapi',
+  } = (await c.req.json().catch(() => null)) || {};
 
   if (!keyword || !region || !count) {
     return c.json({ error: 'Missing required fields' }, 400);
   }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SEARCH_COUNT) {
+    return c.json({ error: `count must be an integer between 1 and ${MAX_SEARCH_COUNT}` }, 400);
+  }
+  if (!isSearchProviderName(providerName)) {
+    return c.json({ error: `Unknown provider. Expected one of: ${SEARCH_PROVIDERS.join(', ')}` }, 400);
+  }
+
+  let provider: SearchProvider;
+  try {
+    provider = createSearchProviderFromEnv(providerName, c.env);
+  } catch (error: any) {
+    return c.json({ error: error.message }, 500);
+  }
 
   const query = `${keyword} ${region}`;
-//   const totalPages = Math.ceil(count / RESULTS_PER_PAGE);
 
-  const urls = Array.from({ length: 1 }).map((_, index) => {
-    // const start = index * RESULTS_PER_PAGE;
-    return `https://serpapi.com/search.json?engine=google&q=${encodeURIComponent(query)}&start=${1}&num=${Math.min(count, 100)}&api_key=${SERP_API_KEY}`;
-  });
+  const runSearch = async (onPage?: (progress: { results: number }) => Promise<void>) => {
+    const search = await deepSearch(provider, query, {
+      count,
+      maxPages: Math.min(Math.max(Number(maxPages) || 1, 1), MAX_SEARCH_PAGES),
+      onPage,
+    });
+    requestCount++;
 
-  try {
-    const responses = await Promise.all(
-      urls.map(url => axios.get(url))
-    );
-
-	// const responses = await axios.get(urls.map((url) => url));
-
-    // Collect all results
-    const allResults: { title: string; link: string }[] = [];
-    for (const res of responses) {
-      const organicResults = res.data.organic_results || [];
-      for (const item of organicResults) {
-        if (item.title && item.link) {
-          allResults.push({ title: item.title, link: item.link });
-        }
-      }
-    }
+    // Mark each result as new or already known
+    const recorded = await getLeadStore(c.env)
+      .recordSearch({ keyword, region, count, provider: provider.name }, search.results)
+      .catch(err => {
+        console.error('Failed to record search:', err);
+        return null;
+      });
 
-    // Deduplicate by link
-    const seenLinks = new Set<string>();
-    const uniqueResults = allResults.filter(item => {
-      if (seenLinks.has(item.link)) return false;
-      seenLinks.add(item.link);
-      return true;
+    return {
+      results: (recorded ? recorded.results : search.results).map(result => ({ ...result, classification: classifySite(result) })),
+      metadata: {
+        requested: count,
+        returned: search.results.length,
+        pagesFetched: search.pagesFetched,
+        stopReason: search.stopReason,
+        error: search.error,
+        searchId: recorded?.search.id,
+        newCount: recorded?.search.newCount,
+      },
+    };
+  };
+
+  if (wantsEventStream(c)) {
+    return streamProgress(c, 'search', async (emit) => {
+      await emit({ type: 'progress', stage: 'search', done: 0, total: count });
+      const response = await runSearch(({ results }) => emit({ type: 'progress', stage: 'search', done: results, total: count }));
+      await emit({ type: 'done', stage: 'search', result: response });
     });
-	requestCount++;
-    return c.json(uniqueResults.slice(0, count));
+  }
+
+  try {
+    return c.json(await runSearch());
   } catch (error: any) {
-    console.error('Error fetching from SerpAPI:', error.message);
-    return c.json({ error: 'Failed to fetch data from SerpAPI' }, 500);
+    console.error(`Error fetching from ${provider.name}:`, error.message);
+    return c.json({ error: `Failed to fetch data from ${provider.name}` }, 500);
   }
 });
 
+// Persist after the response is sent; a failed write must not fail the request
+const saveInBackground = (c: Context, promise: Promise<unknown>) =>
+  c.executionCtx.waitUntil(promise.catch(err => console.error('Failed to save leads:', err)));
+
+const saveCheck = (c: Context, link: string, result: SiteCheckResult) =>
+  saveInBackground(c, getLeadStore(c.env).saveEnrichment({ link }, { check: { ...result, checkedAt: new Date().toISOString() } }));
+
+// Nothing slower than the check's own timeout can be measured
+const isValidThreshold = (value: unknown) => typeof value === 'number' && value > 0 && value <= CHECK_TIMEOUT;
+const THRESHOLD_ERROR = `fastThreshold must be a number of milliseconds up to ${CHECK_TIMEOUT}`;
+
 app.post('/checkSite', async (c) => {
+  const { url, fastThreshold = FAST_THRESHOLD } = (await c.req.json().catch(() => null)) || {};
+
+  if (typeof url !== 'string' || !url) {
+    return c.json({ error: "Missing URL" }, 400);
+  }
+  if (!isValidThreshold(fastThreshold)) {
+    return c.json({ error: THRESHOLD_ERROR }, 400);
+  }
+
+  const result = await checkSite(url, { fastThreshold });
+  saveCheck(c, url, result);
+
+  return c.json(result);
+});
+
+// Maximum sites checked per /checkSites request
+const MAX_CHECK_SITES = 500;
+
+// Streams one NDJSON line per site, in the order the checks finish
+app.post('/checkSites', async (c) => {
+  const { urls, fastThreshold = FAST_THRESHOLD } = (await c.req.json().catch(() => null)) || {};
+
+  if (!Array.isArray(urls) || urls.length === 0 || urls.some(url => typeof url !== 'string' || !url)) {
+    return c.json({ error: 'Invalid input: urls array is required' }, 400);
+  }
+  if (urls.length > MAX_CHECK_SITES) {
+    return c.json({ error: `Too many urls: at most ${MAX_CHECK_SITES} per request` }, 400);
+  }
+  if (!isValidThreshold(fastThreshold)) {
+    return c.json({ error: THRESHOLD_ERROR }, 400);
+  }
+
+  if (wantsEventStream(c)) {
+    return streamProgress(c, 'check', async (emit, signal) => {
+      let done = 0;
+      await emit({ type: 'progress', stage: 'check', done, total: urls.length });
+
+      await checkSites(urls, async ({ index, url, result, error }) => {
+        if (result) {
+          saveCheck(c, url, result);
+          await emit({ type: 'site', stage: 'check', index, url, result });
+        } else {
+          await emit({ type: 'error', stage: 'check', index, url, message: error || 'Check failed' });
+        }
+        await emit({ type: 'progress', stage: 'check', done: ++done, total: urls.length });
+      }, { fastThreshold, signal });
+
+      await emit({ type: 'done', stage: 'check' });
+    });
+  }
+
+  c.header('Content-Type', 'application/x-ndjson');
+  return stream(c, async (out) => {
+    const controller = new AbortController();
+    out.onAbort(() => controller.abort());
+
+    await checkSites(urls, async (line) => {
+      if (line.result) saveCheck(c, line.url, line.result);
+      if (!out.aborted) await out.write(JSON.stringify(line) + '\n');
+    }, { fastThreshold, signal: controller.signal });
+  });
+});
+
+// Maximum sites scraped per /fetchEmail request
+const MAX_EMAIL_SITES = 20;
+
+const saveEmails = (c: Context, results: SiteEmailResult[]) => {
+  const store = getLeadStore(c.env);
+  const fetchedAt = new Date().toISOString();
+  saveInBackground(c, Promise.all(
+    results
+      .filter(r => r.status !== 'error')
+      .map(({ title, link, emails, contacts, status, skipped }) =>
+        store.saveEnrichment({ title, link }, { email: { emails, contacts, status, skipped, fetchedAt } }))
+  ));
+};
+
+const emailMetadata = (results: SiteEmailResult[]) => ({
+  processed: results.length,
+  success: results.filter(r => r.status === 'found').length
+});
+
+app.post('/fetchEmail', async (c: Context) => {
   try {
-    const { url } = await c.req.json();
+    const body = (await c.req.json().catch(() => null)) || {};
+    const inputLinks = body.links || [];
 
-    if (!url) {
-      return c.json({ error: "Missing URL" }, 400);
+    // Basic validation
+    if (!Array.isArray(inputLinks) || inputLinks.length === 0) {
+      return c.json({ error: 'Invalid input: links array is required' }, 400);
+    }
+    if (inputLinks.length > MAX_EMAIL_SITES) {
+      return c.json({ error: `Too many links: at most ${MAX_EMAIL_SITES} per request` }, 400);
+    }
+    if (inputLinks.some(item => typeof item?.link !== 'string' || !item.link || (item.title !== undefined && typeof item.title !== 'string'))) {
+      return c.json({ error: 'Invalid input: each link must be an object with a link and an optional title' }, 400);
     }
 
-    const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), 7000); // 7s timeout
+    const sites = inputLinks.map(({ title, link }: { title?: string; link: string }) => ({
+      title: title || '',
+      link,
+    }));
+    const region = typeof body.region === 'string' ? body.region : undefined;
+    const scraper = getEmailScraper(c.env);
+
+    if (wantsEventStream(c)) {
+      return streamProgress(c, 'email', async (emit) => {
+        let done = 0;
+        await emit({ type: 'progress', stage: 'email', done, total: sites.length });
 
-    let isDomainActive = false;
-    let loadsFast = false;
+        const results = await scraper.scrapeSites(sites, {
+          region,
+          onResult: async (result, index) => {
+            saveEmails(c, [result]);
+            await emit({ type: 'site', stage: 'email', index, url: result.link, result });
+            if (result.status === 'error') {
+              await emit({ type: 'error', stage: 'email', index, url: result.link, message: result.error || 'Email lookup failed' });
+            }
+            await emit({ type: 'progress', stage: 'email', done: ++done, total: sites.length });
+          },
+        });
 
-    const start = Date.now();
-    try {
-      const res = await fetch(url, {
-        method: "GET",
-        redirect: "follow",
-        signal: controller.signal
+        await emit({ type: 'done', stage: 'email', result: { metadata: emailMetadata(results) } });
       });
+    }
 
-      const duration = Date.now() - start;
+    const results = await scraper.scrapeSites(sites, { region });
+    saveEmails(c, results);
+
+    return c.json({ results, metadata: emailMetadata(results) });
+  } catch (err) {
+    console.error('Error in fetchEmail endpoint:', err);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+});
+
+const jobRunner = (c: Context) => getJobRunner(c.env, p => c.executionCtx.waitUntil(p));
+
+app.post('/jobs', async (c) => {
+  const { params, error } = parseJobParams(await c.req.json().catch(() => null), c.env);
+  if (!params) {
+    return c.json({ error }, 400);
+  }
 
-      if (res.ok) {
-        isDomainActive = true;
-        loadsFast = duration <= 5000; // 5 seconds
-      }
-    } catch (err) {
-      console.warn("Site check failed:", url, err);
-    } finally {
-      clearTimeout(timeout);
+  const job = await jobRunner(c).start(params);
+  return c.json(job, 202);
+});
+
+app.get('/jobs/:id', async (c) => {
+  const job = await jobRunner(c).get(c.req.param('id'));
+  return job ? c.json(job) : c.json({ error: 'Job not found' }, 404);
+});
+
+app.post('/jobs/:id/cancel', async (c) => {
+  const job = await jobRunner(c).cancel(c.req.param('id'));
+  return job ? c.json(job) : c.json({ error: 'Job not found' }, 404);
+});
+
+app.post('/jobs/:id/resume', async (c) => {
+  const job = await jobRunner(c).resume(c.req.param('id'));
+  return job ? c.json(job) : c.json({ error: 'Job not found' }, 404);
+});
+
+// Maximum leads returned per /leads page
+const MAX_LEADS_PAGE = 500;
+
+app.get('/leads', async (c) => {
+  const limit = Math.min(Number(c.req.query('limit')) || 100, MAX_LEADS_PAGE);
+  const offset = Math.max(Number(c.req.query('offset')) || 0, 0);
+
+  const page = await getLeadStore(c.env).queryLeads({
+    q: c.req.query('q') || undefined,
+    searchId: c.req.query('searchId') || undefined,
+    limit,
+    offset,
+  });
+  return c.json({ ...page, limit, offset });
+});
+
+app.get('/leads/:domain', async (c) => {
+  const lead = await getLeadStore(c.env).getLead(c.req.param('domain').toLowerCase());
+  return lead ? c.json(lead) : c.json({ error: 'Lead not found' }, 404);
+});
+
+app.get('/searches', async (c) => {
+  return c.json(await getLeadStore(c.env).listSearches());
+});
+
+// Validate and dedupe an uploaded site list; the client keeps the result as its working set
+app.post('/import', async (c) => {
+  const { rows } = await c.req.json().catch(() => ({}));
+  if (!Array.isArray(rows) || rows.length === 0) {
+    return c.json({ error: 'rows must be a non-empty list of { title, link }' }, 400);
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    return c.json({ error: `At most ${MAX_IMPORT_ROWS} rows can be imported at once` }, 400);
+  }
+
+  return c.json(normalizeImport(rows));
+});
+
+app.get('/connectors', async (c) => {
+  return c.json({
+    leadFields: LEAD_FIELDS,
+    connectors: CONNECTORS.map(name => ({
+      name,
+      configured: isConnectorConfigured(name, c.env),
+      defaultMapping: DEFAULT_MAPPINGS[name],
+    })),
+  });
+});
+
+// Upsert leads into a CRM or webhook target; each lead's outcome is returned and remembered
+app.post('/connectors/:name/push', async (c) => {
+  const name = c.req.param('name');
+  if (!isConnectorName(name)) {
+    return c.json({ error: `Unknown connector. Expected one of: ${CONNECTORS.join(', ')}` }, 404);
+  }
+
+  const { leads, mapping, error } = parsePushRequest(await c.req.json().catch(() => null));
+  if (error || !leads) return c.json({ error }, 400);
+
+  let connector;
+  try {
+    connector = createConnectorFromEnv(name, c.env);
+  } catch (err: any) {
+    return c.json({ error: err.message }, 400);
+  }
+
+  const results = await pushLeads(connector, leads, mapping || DEFAULT_MAPPINGS[name], getSyncStore(c.env));
+  return c.json({ results });
+});
+
+app.get('/scoring/profiles', async (c) => {
+  const profiles = await getScoringProfileStore(c.env).listProfiles();
+  return c.json([DEFAULT_PROFILE, ...profiles]);
+});
+
+app.post('/scoring/profiles', async (c) => {
+  const { input, error } = parseProfileInput(await c.req.json().catch(() => null));
+  if (!input) {
+    return c.json({ error }, 400);
+  }
+
+  return c.json(await getScoringProfileStore(c.env).createProfile(input), 201);
+});
+
+app.put('/scoring/profiles/:id', async (c) => {
+  if (c.req.param('id') === DEFAULT_PROFILE.id) {
+    return c.json({ error: 'The default profile cannot be changed' }, 400);
+  }
+  const { input, error } = parseProfileInput(await c.req.json().catch(() => null));
+  if (!input) {
+    return c.json({ error }, 400);
+  }
+
+  const profile = await getScoringProfileStore(c.env).updateProfile(c.req.param('id'), input);
+  return profile ? c.json(profile) : c.json({ error: 'Profile not found' }, 404);
+});
+
+app.delete('/scoring/profiles/:id', async (c) => {
+  if (c.req.param('id') === DEFAULT_PROFILE.id) {
+    return c.json({ error: 'The default profile cannot be deleted' }, 400);
+  }
+
+  const deleted = await getScoringProfileStore(c.env).deleteProfile(c.req.param('id'));
+  return deleted ? c.body(null, 204) : c.json({ error: 'Profile not found' }, 404);
+});
+
+// Maximum sites scored per /score request
+const MAX_SCORE_SITES = 1000;
+
+// Score sites with a saved profile (`profileId`, default if omitted) or unsaved weights (`profile`)
+app.post('/score', async (c) => {
+  const body = await c.req.json().catch(() => null);
+  const sites: ScoreInput[] = body?.sites;
+
+  if (!Array.isArray(sites) || sites.some(site => typeof site?.link !== 'string')) {
+    return c.json({ error: 'Invalid input: sites array with a link for each site is required' }, 400);
+  }
+  if (sites.length > MAX_SCORE_SITES) {
+    return c.json({ error: `Too many sites: at most ${MAX_SCORE_SITES} per request` }, 400);
+  }
+
+  let profile: ScoringProfile | null = DEFAULT_PROFILE;
+  if (body.profile) {
+    const { input, error } = parseProfileInput(body.profile);
+    if (!input) {
+      return c.json({ error }, 400);
     }
+    profile = { ...DEFAULT_PROFILE, ...input, id: 'unsaved' };
+  } else if (body.profileId && body.profileId !== DEFAULT_PROFILE.id) {
+    profile = await getScoringProfileStore(c.env).getProfile(String(body.profileId));
+    if (!profile) {
+      return c.json({ error: 'Profile not found' }, 404);
+    }
+  }
 
-    return c.json({ isDomainActive, loadsFast });
+  try {
+    return c.json({ profile, scores: sites.map(site => scoreLead(site, profile)) });
   } catch (err) {
-    return c.json({ error: "Invalid request" }, 400);
-  }
-});
-
-// app.post('/fetchEmail', async (c: Context) => {
-//   try {
-//     const body = await c.req.json();
-//     const inputLinks = body.links || [];
-    
-//     // Basic validation
-//     if (!Array.isArray(inputLinks) || inputLinks.length === 0) {
-//       return c.json({ error: 'Invalid input: links array is required' }, 400);
-//     }
-    
-//     // Process URLs, but limit to a reasonable number
-//     const linksToProcess = inputLinks.slice(0, 20); // Maximum 20 URLs per request
-    
-//     const results = await Promise.all(
-//       linksToProcess.map(async ({ title, link }) => {
-//         if (!link) {
-//           return { title, link, emails: [] };
-//         }
-        
-//         // 1. Normalize the URL (strip path, query, hash)
-//         let baseUrl: string;
-//         try {
-//           const parsed = new URL(link);
-//           baseUrl = `${parsed.protocol}//${parsed.hostname}/`;
-//         } catch (err) {
-//           return { title, link, emails: [], status: 'error', error: 'Invalid URL' };
-//         }
-        
-//         // Check cache first
-//         const cacheKey = baseUrl;
-//         if (EMAIL_CACHE.has(cacheKey)) {
-//           const { emails, timestamp } = EMAIL_CACHE.get(cacheKey);
-//           // Use cache if still valid
-//           if (Date.now() - timestamp < CACHE_TTL) {
-//             return { 
-//               title, 
-//               link: baseUrl, 
-//               emails,
-//               status: emails.length > 0 ? 'found' : 'not_found'
-//             };
-//           }
-//           // Otherwise remove expired cache entry
-//           EMAIL_CACHE.delete(cacheKey);
-//         }
-        
-//         // 2. Fetch the homepage HTML with a timeout
-//         const emails = await fetchEmailFromUrl(baseUrl);
-        
-//         // If no emails found, try contact pages
-//         let allEmails = [...emails];
-//         if (emails.length === 0) {
-//           for (const path of CONTACT_PATHS) {
-//             if (allEmails.length > 0) break;
-//             const contactUrl = `${baseUrl}${path}`;
-//             const contactEmails = await fetchEmailFromUrl(contactUrl);
-//             allEmails = [...allEmails, ...contactEmails];
-//           }
-//         }
-        
-//         // Store in cache
-//         allEmails = [...new Set(allEmails)]; // Remove duplicates
-//         EMAIL_CACHE.set(cacheKey, { emails: allEmails, timestamp: Date.now() });
-        
-//         return { 
-//           title, 
-//           link: baseUrl, 
-//           emails: allEmails,
-//           status: allEmails.length > 0 ? 'found' : 'not_found'
-//         };
-//       })
-//     );
-    
-//     return c.json({ 
-//       results,
-//       metadata: {
-//         processed: results.length,
-//         success: results.filter(r => r.emails && r.emails.length > 0).length
-//       }
-//     });
-//   } catch (err) {
-//     console.error('Error in fetchEmail endpoint:', err);
-//     return c.json({ error: 'Internal server error' }, 500);
-//   }
-// });
+    return c.json({ error: 'Invalid site data' }, 400);
+  }
+});
 
+export { JobDurableObject } from './lib/jobs';
 export default app;
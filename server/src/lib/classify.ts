@@ -0,0 +1,97 @@
+/**
+ * Site classifier - labels a search result or site as an independent store or one of
+ * the kinds of site that are useless as outreach leads.
+ */
+
+import { DIRECTORIES, LARGE_RETAILERS, MANUFACTURERS, MARKETPLACES, NEWS_BLOGS } from './siteCategories';
+import { normalizeUrl } from './url';
+
+export type SiteCategory = 'independent_store' | 'marketplace' | 'large_retailer' | 'directory' | 'news_blog' | 'manufacturer';
+
+export interface SiteClassification {
+  category: SiteCategory;
+  confidence: number;
+  reasons: string[];
+}
+
+export interface ClassifyInput {
+  link: string;
+  title?: string;
+  // Homepage HTML, when the site has been fetched
+  html?: string;
+  // Set when platform fingerprinting found a storefront
+  hasStorefront?: boolean;
+}
+
+const DOMAIN_LISTS: [SiteCategory, Set<string>][] = [
+  ['marketplace', new Set(MARKETPLACES)],
+  ['large_retailer', new Set(LARGE_RETAILERS)],
+  ['directory', new Set(DIRECTORIES)],
+  ['news_blog', new Set(NEWS_BLOGS)],
+  ['manufacturer', new Set(MANUFACTURERS)],
+];
+
+const NEWS_PATH = /\/(blog|blogs|news|article|articles|magazine|guides?|reviews?|best-[^/]*)(\/|$)/i;
+const LISTICLE_TITLE = /\b(best|top \d+|\d+ best|review(s|ed)?|vs\.?|compared|buying guide|how to)\b/i;
+const DIRECTORY_TITLE = /\b(near me|directory|listings?|find (a|the best)|compare prices|price comparison)\b/i;
+
+// Page-level signals, each pointing at a category
+const PAGE_SIGNALS: { category: SiteCategory; pattern: RegExp; reason: string }[] = [
+  { category: 'independent_store', pattern: /add[ -]to[ -](cart|basket|bag)/i, reason: 'add-to-cart button' },
+  { category: 'independent_store', pattern: /href=["'][^"']*\/(cart|basket|checkout)\b/i, reason: 'cart link' },
+  { category: 'news_blog', pattern: /"@type"\s*:\s*"(Article|NewsArticle|BlogPosting)"/, reason: 'article structured data' },
+  { category: 'news_blog', pattern: /<meta[^>]+property=["']og:type["'][^>]+content=["']article["']/i, reason: 'og:type article' },
+  { category: 'manufacturer', pattern: /\b(where to buy|find a (retailer|stockist|store)|store locator|authori[sz]ed (retailers|dealers))\b/i, reason: 'where-to-buy page' },
+  { category: 'marketplace', pattern: /\b(sold by|sell on|become a seller|seller centre|third-party sellers?)\b/i, reason: 'third-party sellers' },
+  { category: 'directory', pattern: /\b(write a review|claim (this|your) (business|listing)|add your business)\b/i, reason: 'business listings' },
+];
+
+export function classifySite({ link, title, html, hasStorefront }: ClassifyInput): SiteClassification {
+  const normalized = normalizeUrl(link);
+
+  // A listed domain outweighs anything the page says about itself
+  for (const [category, domains] of DOMAIN_LISTS) {
+    if (normalized && domains.has(normalized.domain)) {
+      return { category, confidence: 0.95, reasons: [`${normalized!.domain} is a known ${category.replace('_', ' ')}`] };
+    }
+  }
+
+  const scores = new Map<SiteCategory, { score: number; reasons: string[] }>();
+  const vote = (category: SiteCategory, weight: number, reason: string) => {
+    const entry = scores.get(category) || { score: 0, reasons: [] };
+    entry.score += weight;
+    entry.reasons.push(reason);
+    scores.set(category, entry);
+  };
+
+  const path = normalized ? new URL(normalized.url).pathname : '';
+  if (NEWS_PATH.test(path)) vote('news_blog', 0.5, 'article-style URL path');
+  if (title && DIRECTORY_TITLE.test(title)) vote('directory', 0.5, 'directory-style title');
+
+  if (hasStorefront) vote('independent_store', 0.6, 'e-commerce platform detected');
+  if (html) {
+    for (const signal of PAGE_SIGNALS) {
+      if (signal.pattern.test(html)) vote(signal.category, 0.4, signal.reason);
+    }
+  }
+
+  // Store titles say "best" too ("Best Coffee Beans – Shop Online"), so a listicle title
+  // only backs up other article evidence and never decides the category alone
+  if (title && LISTICLE_TITLE.test(title) && scores.has('news_blog')) vote('news_blog', 0.4, 'listicle or review title');
+
+  let best: { category: SiteCategory; score: number; reasons: string[] } | null = null;
+  for (const [category, entry] of scores) {
+    if (!best || entry.score > best.score) best = { category, ...entry };
+  }
+
+  // No evidence either way: most organic shopping results are stores
+  if (!best) {
+    return { category: 'independent_store', confidence: 0.3, reasons: ['no signals against an independent store'] };
+  }
+
+  return {
+    category: best.category,
+    confidence: Math.min(0.9, Math.round((0.3 + best.score / 2) * 100) / 100),
+    reasons: best.reasons,
+  };
+}
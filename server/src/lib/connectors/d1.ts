@@ -0,0 +1,67 @@
+import { ConnectorName, SyncRecord, SyncStore } from './types';
+
+interface SyncRow {
+  connector: ConnectorName;
+  domain: string;
+  status: SyncRecord['status'];
+  action: SyncRecord['action'] | null;
+  external_id: string | null;
+  error: string | null;
+  synced_at: string;
+}
+
+// D1 allows at most 100 bound parameters per statement; one goes to the connector
+const MAX_DOMAINS_PER_QUERY = 99;
+
+export class D1SyncStore implements SyncStore {
+  constructor(private db: D1Database) {}
+
+  async getSyncs(connector: ConnectorName, domains: string[]): Promise<SyncRecord[]> {
+    const records: SyncRecord[] = [];
+    for (let i = 0; i < domains.length; i += MAX_DOMAINS_PER_QUERY) {
+      const chunk = domains.slice(i, i + MAX_DOMAINS_PER_QUERY);
+      const { results } = await this.db
+        .prepare(`SELECT * FROM connector_syncs WHERE connector = ? AND domain IN (${chunk.map(() => '?').join(', ')})`)
+        .bind(connector, ...chunk)
+        .all<SyncRow>();
+      records.push(...results.map(toRecord));
+    }
+    return records;
+  }
+
+  async saveSync(record: SyncRecord): Promise<void> {
+    await this.db
+      .prepare(
+        `INSERT INTO connector_syncs (connector, domain, status, action, external_id, error, synced_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (connector, domain) DO UPDATE SET
+           status = excluded.status,
+           action = excluded.action,
+           external_id = COALESCE(excluded.external_id, connector_syncs.external_id),
+           error = excluded.error,
+           synced_at = excluded.synced_at`,
+      )
+      .bind(
+        record.connector,
+        record.domain,
+        record.status,
+        record.action ?? null,
+        record.externalId ?? null,
+        record.error ?? null,
+        record.syncedAt,
+      )
+      .run();
+  }
+}
+
+function toRecord(row: SyncRow): SyncRecord {
+  return {
+    connector: row.connector,
+    domain: row.domain,
+    status: row.status,
+    action: row.action ?? undefined,
+    externalId: row.external_id ?? undefined,
+    error: row.error ?? undefined,
+    syncedAt: row.synced_at,
+  };
+}
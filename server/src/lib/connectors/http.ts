@@ -0,0 +1,34 @@
+// A non-2xx response from a connector's API
+export class ConnectorHttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ConnectorHttpError';
+  }
+}
+
+const REQUEST_TIMEOUT = 15000;
+
+/** Send a JSON request and parse the JSON reply, surfacing the API's own error message on failure. */
+export async function requestJson<T>(service: string, url: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(url, {
+    ...init,
+    headers: { Accept: 'application/json', 'Content-Type': 'application/json', ...init.headers },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT),
+  });
+  const text = await res.text();
+  const body = text ? parseJson(text) : null;
+
+  if (!res.ok) {
+    const detail = body?.message || body?.error || text.slice(0, 200) || res.statusText;
+    throw new ConnectorHttpError(res.status, `${service} responded ${res.status}: ${detail}`);
+  }
+  return body as T;
+}
+
+function parseJson(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
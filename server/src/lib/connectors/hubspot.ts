@@ -0,0 +1,53 @@
+import { ConnectorHttpError, requestJson } from './http';
+import { Connector, PushLead, SyncAction } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.hubapi.com';
+
+// Leads become HubSpot companies, matched on the company `domain` property
+export class HubSpotConnector implements Connector {
+  readonly name = 'hubspot' as const;
+
+  constructor(private token: string, private baseUrl = DEFAULT_BASE_URL) {}
+
+  async upsert(lead: PushLead, properties: Record<string, string>, externalId?: string): Promise<{ externalId: string; action: SyncAction }> {
+    const body = JSON.stringify({ properties: { domain: lead.domain, ...properties } });
+
+    if (externalId && (await this.update(externalId, body))) return { externalId, action: 'updated' };
+
+    const existing = await this.findByDomain(lead.domain);
+    if (existing && (await this.update(existing, body))) return { externalId: existing, action: 'updated' };
+
+    const created = await this.request<{ id: string }>('/crm/v3/objects/companies', { method: 'POST', body });
+    return { externalId: created.id, action: 'created' };
+  }
+
+  // False when the company no longer exists, e.g. it was deleted or merged in HubSpot
+  private async update(id: string, body: string): Promise<boolean> {
+    try {
+      await this.request(`/crm/v3/objects/companies/${id}`, { method: 'PATCH', body });
+      return true;
+    } catch (error) {
+      if (error instanceof ConnectorHttpError && error.status === 404) return false;
+      throw error;
+    }
+  }
+
+  private async findByDomain(domain: string): Promise<string | undefined> {
+    const found = await this.request<{ results?: { id: string }[] }>('/crm/v3/objects/companies/search', {
+      method: 'POST',
+      body: JSON.stringify({
+        filterGroups: [{ filters: [{ propertyName: 'domain', operator: 'EQ', value: domain }] }],
+        properties: ['domain'],
+        limit: 1,
+      }),
+    });
+    return found.results?.[0]?.id;
+  }
+
+  private request<T>(path: string, init: RequestInit): Promise<T> {
+    return requestJson<T>('HubSpot', `${this.baseUrl}${path}`, {
+      ...init,
+      headers: { Authorization: `Bearer ${this.token}` },
+    });
+  }
+}
@@ -0,0 +1,51 @@
+import { D1SyncStore } from './d1';
+import { HubSpotConnector } from './hubspot';
+import { MemorySyncStore } from './memory';
+import { PipedriveConnector } from './pipedrive';
+import { Connector, ConnectorName, SyncStore } from './types';
+import { WebhookConnector } from './webhook';
+
+export * from './types';
+export { DEFAULT_MAPPINGS, LEAD_FIELDS, MAX_PUSH_LEADS, parsePushRequest, pushLeads } from './push';
+export { SIGNATURE_HEADER } from './webhook';
+
+export const CONNECTORS: ConnectorName[] = ['hubspot', 'pipedrive', 'webhook'];
+
+export function isConnectorName(name: unknown): name is ConnectorName {
+  return CONNECTORS.includes(name as ConnectorName);
+}
+
+// Credentials come from worker secrets; the *_API_URL overrides point a connector at a local mock
+export function createConnectorFromEnv(name: ConnectorName, env: Env): Connector {
+  switch (name) {
+    case 'hubspot':
+      return new HubSpotConnector(requireKey(env.HUBSPOT_TOKEN, 'HUBSPOT_TOKEN'), env.HUBSPOT_API_URL || undefined);
+    case 'pipedrive':
+      return new PipedriveConnector(
+        requireKey(env.PIPEDRIVE_API_TOKEN, 'PIPEDRIVE_API_TOKEN'),
+        requireKey(env.PIPEDRIVE_DOMAIN_FIELD, 'PIPEDRIVE_DOMAIN_FIELD'),
+        env.PIPEDRIVE_API_URL || undefined,
+      );
+    case 'webhook':
+      return new WebhookConnector(requireKey(env.WEBHOOK_URL, 'WEBHOOK_URL'), requireKey(env.WEBHOOK_SECRET, 'WEBHOOK_SECRET'));
+  }
+}
+
+export function isConnectorConfigured(name: ConnectorName, env: Env): boolean {
+  try {
+    createConnectorFromEnv(name, env);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// D1 when bound, in-memory otherwise
+export function getSyncStore(env: Env): SyncStore {
+  return env.DB ? new D1SyncStore(env.DB) : new MemorySyncStore();
+}
+
+function requireKey(key: string | undefined, variable: string): string {
+  if (!key) throw new Error(`${variable} is not configured`);
+  return key;
+}
@@ -0,0 +1,15 @@
+import { ConnectorName, SyncRecord, SyncStore } from './types';
+
+// Lives as long as the isolate; used when no D1 database is bound
+const syncs = new Map<string, SyncRecord>();
+
+export class MemorySyncStore implements SyncStore {
+  async getSyncs(connector: ConnectorName, domains: string[]): Promise<SyncRecord[]> {
+    return domains.flatMap(domain => syncs.get(`${connector}:${domain}`) || []);
+  }
+
+  async saveSync(record: SyncRecord): Promise<void> {
+    const key = `${record.connector}:${record.domain}`;
+    syncs.set(key, { ...record, externalId: record.externalId ?? syncs.get(key)?.externalId });
+  }
+}
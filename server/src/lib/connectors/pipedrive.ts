@@ -0,0 +1,55 @@
+import { ConnectorHttpError, requestJson } from './http';
+import { Connector, PushLead, SyncAction } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.pipedrive.com';
+
+interface PipedriveReply<T> {
+  success: boolean;
+  data: T;
+}
+
+// Leads become Pipedrive organizations. Pipedrive has no domain field, so the domain is
+// always written to the custom field `domainField` (its API key) and existing organizations
+// are found by an exact search of custom fields for it.
+export class PipedriveConnector implements Connector {
+  readonly name = 'pipedrive' as const;
+
+  constructor(private apiToken: string, private domainField: string, private baseUrl = DEFAULT_BASE_URL) {}
+
+  async upsert(lead: PushLead, properties: Record<string, string>, externalId?: string): Promise<{ externalId: string; action: SyncAction }> {
+    const body = JSON.stringify({ name: lead.name, ...properties, [this.domainField]: lead.domain });
+
+    if (externalId && (await this.update(externalId, body))) return { externalId, action: 'updated' };
+
+    const existing = await this.findByDomain(lead.domain);
+    if (existing && (await this.update(existing, body))) return { externalId: existing, action: 'updated' };
+
+    const created = await this.request<PipedriveReply<{ id: number }>>('/v1/organizations', { method: 'POST', body });
+    return { externalId: String(created.data.id), action: 'created' };
+  }
+
+  // False when the organization no longer exists
+  private async update(id: string, body: string): Promise<boolean> {
+    try {
+      await this.request(`/v1/organizations/${id}`, { method: 'PUT', body });
+      return true;
+    } catch (error) {
+      if (error instanceof ConnectorHttpError && (error.status === 404 || error.status === 410)) return false;
+      throw error;
+    }
+  }
+
+  private async findByDomain(domain: string): Promise<string | undefined> {
+    const found = await this.request<PipedriveReply<{ items?: { item: { id: number } }[] }>>(
+      `/v1/organizations/search?term=${encodeURIComponent(domain)}&fields=custom_fields&exact_match=true&limit=1`,
+      { method: 'GET' },
+    );
+    const id = found.data?.items?.[0]?.item.id;
+    return id === undefined ? undefined : String(id);
+  }
+
+  private request<T>(path: string, init: RequestInit): Promise<T> {
+    const separator = path.includes('?') ? '&' : '?';
+    return requestJson<T>('Pipedrive', `${this.baseUrl}${path}${separator}api_token=${encodeURIComponent(this.apiToken)}`, init);
+  }
+}
@@ -0,0 +1,99 @@
+import { domainOf } from '../url';
+import { Connector, FieldMapping, LeadField, PushLead, SyncRecord, SyncStore } from './types';
+
+export const LEAD_FIELDS: LeadField[] = ['name', 'domain', 'website', 'email', 'phone', 'score', 'platform', 'siteType', 'country', 'tech'];
+
+export const MAX_PUSH_LEADS = 100;
+// CRM APIs rate-limit per account; a few requests at a time stays well inside them
+const PUSH_CONCURRENCY = 4;
+const MAX_PROPERTY_NAME_LENGTH = 100;
+
+// Standard properties of each target. The domain is always sent to HubSpot and Pipedrive, which
+// match existing records on it
+export const DEFAULT_MAPPINGS: Record<Connector['name'], FieldMapping> = {
+  hubspot: { name: 'name', website: 'website', phone: 'phone', country: 'country' },
+  pipedrive: {},
+  webhook: Object.fromEntries(LEAD_FIELDS.map(field => [field, field])) as FieldMapping,
+};
+
+/** Validate a push request body: the leads to push and an optional field mapping. */
+export function parsePushRequest(body: any): { leads?: PushLead[]; mapping?: FieldMapping; error?: string } {
+  const { leads, mapping } = body || {};
+
+  if (!Array.isArray(leads) || leads.length === 0) {
+    return { error: 'leads must be a non-empty list' };
+  }
+  if (leads.length > MAX_PUSH_LEADS) {
+    return { error: `At most ${MAX_PUSH_LEADS} leads can be pushed at once` };
+  }
+  for (const lead of leads) {
+    if (typeof lead?.domain !== 'string' || !domainOf(lead.domain)) {
+      return { error: `Invalid lead domain: ${lead?.domain}` };
+    }
+    if (typeof lead.name !== 'string' || typeof lead.website !== 'string') {
+      return { error: `Lead ${lead.domain} needs a name and a website` };
+    }
+  }
+
+  if (mapping !== undefined) {
+    if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+      return { error: 'mapping must be an object of property name to lead field' };
+    }
+    for (const [property, field] of Object.entries(mapping)) {
+      if (!property.trim() || property.length > MAX_PROPERTY_NAME_LENGTH) {
+        return { error: `Invalid property name: ${property}` };
+      }
+      if (!LEAD_FIELDS.includes(field as LeadField)) {
+        return { error: `mapping.${property} must be one of: ${LEAD_FIELDS.join(', ')}` };
+      }
+    }
+  }
+
+  return {
+    // Keyed by registrable domain, like the lead store, so URLs, `www.` and shop subdomains match
+    leads: leads.map(lead => ({ ...lead, domain: domainOf(lead.domain)! })),
+    mapping,
+  };
+}
+
+// Every target takes property values as text; unset fields are left out so they never blank a value
+export function applyMapping(lead: PushLead, mapping: FieldMapping): Record<string, string> {
+  const properties: Record<string, string> = {};
+  for (const [property, field] of Object.entries(mapping)) {
+    const value = lead[field];
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) continue;
+    properties[property] = Array.isArray(value) ? value.join('; ') : String(value);
+  }
+  return properties;
+}
+
+/**
+ * Upsert each lead into the connector's target and record the outcome. A lead that fails
+ * does not stop the rest; its error is returned and stored with its sync status.
+ */
+export async function pushLeads(connector: Connector, leads: PushLead[], mapping: FieldMapping, store: SyncStore): Promise<SyncRecord[]> {
+  const previous = new Map(
+    (await store.getSyncs(connector.name, leads.map(lead => lead.domain))).map(record => [record.domain, record]),
+  );
+  const records: SyncRecord[] = new Array(leads.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < leads.length) {
+      const index = next++;
+      const lead = leads[index];
+      const base = { connector: connector.name, domain: lead.domain, syncedAt: new Date().toISOString() };
+
+      try {
+        const { externalId, action } = await connector.upsert(lead, applyMapping(lead, mapping), previous.get(lead.domain)?.externalId);
+        records[index] = { ...base, status: 'synced', action, externalId };
+      } catch (error: any) {
+        records[index] = { ...base, status: 'failed', externalId: previous.get(lead.domain)?.externalId, error: error?.message || String(error) };
+      }
+      await store.saveSync(records[index]).catch(err => console.error('Failed to save sync status:', err));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(PUSH_CONCURRENCY, leads.length) }, worker));
+  return records;
+}
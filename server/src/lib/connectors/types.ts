@@ -0,0 +1,46 @@
+export type ConnectorName = 'hubspot' | 'pipedrive' | 'webhook';
+
+// Lead fields a connector can map onto properties of its own
+export type LeadField = 'name' | 'domain' | 'website' | 'email' | 'phone' | 'score' | 'platform' | 'siteType' | 'country' | 'tech';
+
+// A qualified lead as the client sends it for pushing
+export interface PushLead {
+  domain: string;
+  name: string;
+  website: string;
+  email?: string;
+  phone?: string;
+  score?: number;
+  platform?: string;
+  siteType?: string;
+  country?: string;
+  tech?: string[];
+}
+
+// Target property name -> lead field it is filled from
+export type FieldMapping = Record<string, LeadField>;
+
+export type SyncAction = 'created' | 'updated';
+
+export interface Connector {
+  name: ConnectorName;
+  // Create the lead's record, or update it when the target already has one for the domain.
+  // `externalId` is the record id from an earlier push of the same domain, if any.
+  upsert(lead: PushLead, properties: Record<string, string>, externalId?: string): Promise<{ externalId: string; action: SyncAction }>;
+}
+
+export interface SyncRecord {
+  connector: ConnectorName;
+  domain: string;
+  status: 'synced' | 'failed';
+  action?: SyncAction;
+  // Kept across failed pushes so the next one updates rather than duplicates
+  externalId?: string;
+  error?: string;
+  syncedAt: string;
+}
+
+export interface SyncStore {
+  getSyncs(connector: ConnectorName, domains: string[]): Promise<SyncRecord[]>;
+  saveSync(record: SyncRecord): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import { requestJson } from './http';
+import { Connector, PushLead, SyncAction } from './types';
+
+export const SIGNATURE_HEADER = 'X-Lead-Signature';
+
+/**
+ * Posts each lead to a URL of the user's choosing. The body is signed like Stripe's
+ * webhooks: `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">` keyed with the
+ * shared secret. Receivers should upsert on `idempotencyKey`, which is stable per domain.
+ */
+export class WebhookConnector implements Connector {
+  readonly name = 'webhook' as const;
+
+  constructor(private url: string, private secret: string) {}
+
+  async upsert(lead: PushLead, properties: Record<string, string>, externalId?: string): Promise<{ externalId: string; action: SyncAction }> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const body = JSON.stringify({
+      event: 'lead.upsert',
+      idempotencyKey: `lead:${lead.domain}`,
+      domain: lead.domain,
+      lead: properties,
+      sentAt: new Date(timestamp * 1000).toISOString(),
+    });
+
+    const reply = await requestJson<{ id?: string | number } | null>('Webhook', this.url, {
+      method: 'POST',
+      body,
+      headers: { [SIGNATURE_HEADER]: `t=${timestamp},v1=${await sign(this.secret, `${timestamp}.${body}`)}` },
+    });
+
+    // Receivers may answer with their own record id; the domain identifies the lead otherwise
+    const id = reply?.id !== undefined ? String(reply.id) : lead.domain;
+    return { externalId: id, action: externalId ? 'updated' : 'created' };
+  }
+}
+
+export async function sign(secret: string, payload: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return [...new Uint8Array(signature)].map(byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,150 @@
+/**
+ * Contact page discovery - finds the pages most likely to list contact details from
+ * the site's sitemaps and homepage links, instead of guessing fixed paths.
+ */
+
+import { decodeEntities, safeDecodeURIComponent } from './emailExtraction';
+import { domainOf } from './url';
+
+export interface PageLink {
+  url: string;
+  text: string;
+  // Inside the page's <footer>, where contact and legal links usually live
+  inFooter: boolean;
+}
+
+export interface ContactPageCandidate {
+  url: string;
+  score: number;
+  found: 'sitemap' | 'footer' | 'link';
+}
+
+// Path and link-text keywords by how likely the page is to carry contact details.
+// Each must start a path segment or hyphenated word, so `agb` does not match `bagboo`.
+const CONTACT_KEYWORDS: { pattern: RegExp; weight: number }[] = [
+  // Contact pages: en, de/nl/pl/scandinavian, es/pt, it, fr
+  { words: ['contact', 'kontakt', 'contacto', 'contato', 'contatti', 'contatto', 'nous-contacter', 'contactez', 'get-in-touch', 'reach-us'], weight: 1 },
+  // Legal notices that must name the business, mandatory in DE/AT/CH
+  { words: ['impressum', 'imprint', 'legal-notice', 'mentions-legales', 'aviso-legal', 'note-legali', 'colofon', 'site-notice'], weight: 0.9 },
+  { words: ['customer-service', 'customer-care', 'kundenservice', 'service-client', 'atencion-al-cliente', 'servizio-clienti', 'klantenservice'], weight: 0.7 },
+  { words: ['about', 'ueber-uns', 'uber-uns', 'wir-ueber-uns', 'a-propos', 'qui-sommes-nous', 'quienes-somos', 'sobre-nosotros', 'sobre-nos', 'chi-siamo', 'over-ons', 'om-oss', 'om-os', 'o-nas'], weight: 0.6 },
+  { words: ['support', 'help', 'hilfe', 'aide', 'ayuda', 'aiuto', 'faq'], weight: 0.4 },
+  { words: ['privacy', 'datenschutz', 'confidentialite', 'privacidad', 'terms', 'agb', 'cgv', 'legal'], weight: 0.3 },
+].map(({ words, weight }) => ({ pattern: new RegExp(`(^|[/.-])(${words.join('|')})`), weight }));
+
+// Paths that are never contact pages however they are named
+const EXCLUDED_PATHS = /\/(products?|collections?|blogs?|news|tags?|category|categories|cart|checkout|account|login|search|cdn-cgi|wp-content|wp-json|feed)(\/|$)|\.(jpe?g|png|gif|webp|svg|pdf|zip|css|js|xml)$/i;
+
+// Sitemaps that list content pages rather than products or posts
+const PAGE_SITEMAP = /page|static|misc/i;
+
+const MAX_SITEMAP_LENGTH = 2_000_000;
+const MAX_CHILD_SITEMAPS = 3;
+
+export function scoreContactUrl(url: string, text = ''): number {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 0;
+  }
+
+  const path = safeDecodeURIComponent(parsed.pathname).toLowerCase().replace(/[_\s]+/g, '-');
+  if (path === '/' || EXCLUDED_PATHS.test(path)) return 0;
+
+  const label = text.toLowerCase().replace(/\s+/g, '-');
+  let score = 0;
+  for (const { pattern, weight } of CONTACT_KEYWORDS) {
+    if (pattern.test(path)) score = Math.max(score, weight);
+    // Link text counts for a little less than the URL itself
+    if (label && pattern.test(label)) score = Math.max(score, weight * 0.9);
+  }
+
+  // Shallow pages are the site's own; deep ones are usually articles that mention contact
+  const depth = path.split('/').filter(Boolean).length;
+  return score * (depth <= 2 ? 1 : 0.6);
+}
+
+// Every same-site link on the page, resolved against `baseUrl`
+export function extractPageLinks(html: string, baseUrl: string): PageLink[] {
+  const siteDomain = domainOf(baseUrl);
+  const footerStart = html.search(/<footer\b/i);
+  const links: PageLink[] = [];
+  const seen = new Set<string>();
+
+  for (const match of html.matchAll(/<a\b[^>]*\bhref\s*=\s*["']([^"'#]+)[^"']*["'][^>]*>([\s\S]*?)<\/a>/gi)) {
+    let url: URL;
+    try {
+      url = new URL(decodeEntities(match[1]), baseUrl);
+    } catch {
+      continue;
+    }
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || domainOf(url.toString()) !== siteDomain) continue;
+
+    url.hash = '';
+    const key = url.toString();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    const text = decodeEntities(match[2].replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+    links.push({ url: key, text, inFooter: footerStart >= 0 && (match.index ?? 0) > footerStart });
+  }
+
+  return links;
+}
+
+export function parseSitemap(xml: string): { urls: string[]; sitemaps: string[] } {
+  const locs = [...xml.matchAll(/<loc>\s*(?:<!\[CDATA\[)?([^<\]]+?)(?:\]\]>)?\s*<\/loc>/gi)].map(([, loc]) => decodeEntities(loc.trim()));
+  return /<sitemapindex\b/i.test(xml) ? { urls: [], sitemaps: locs } : { urls: locs, sitemaps: [] };
+}
+
+/**
+ * Page URLs listed in the site's sitemaps. `sitemapUrls` come from robots.txt;
+ * `/sitemap.xml` is tried when it names none. Of an index, only the child sitemaps
+ * most likely to list content pages are read.
+ */
+export async function sitemapUrls(
+  origin: string,
+  declared: string[],
+  fetchText: (url: string) => Promise<string | null>,
+): Promise<string[]> {
+  const queue = declared.length ? declared.slice(0, MAX_CHILD_SITEMAPS) : [`${origin}/sitemap.xml`];
+  const urls: string[] = [];
+  let childBudget = MAX_CHILD_SITEMAPS;
+
+  for (let i = 0; i < queue.length; i++) {
+    const xml = await fetchText(queue[i]);
+    if (!xml) continue;
+
+    const parsed = parseSitemap(xml.slice(0, MAX_SITEMAP_LENGTH));
+    urls.push(...parsed.urls);
+
+    const children = parsed.sitemaps
+      .filter(url => PAGE_SITEMAP.test(url.replace(/^https?:\/\/[^/]+/i, '')))
+      .slice(0, childBudget);
+    childBudget -= children.length;
+    queue.push(...children);
+  }
+
+  return urls;
+}
+
+// Rank every candidate page, best first, keeping the strongest sighting of each URL
+export function rankContactPages(sitemapPages: string[], links: PageLink[]): ContactPageCandidate[] {
+  const best = new Map<string, ContactPageCandidate>();
+  const consider = (candidate: ContactPageCandidate) => {
+    if (candidate.score <= 0) return;
+    const key = candidate.url.replace(/\/$/, '');
+    const existing = best.get(key);
+    if (!existing || candidate.score > existing.score) best.set(key, candidate);
+  };
+
+  for (const url of sitemapPages) consider({ url, score: scoreContactUrl(url), found: 'sitemap' });
+  for (const link of links) {
+    // The site chose to link these from its footer, which makes them a safer bet
+    const boost = link.inFooter ? 1.1 : 1;
+    consider({ url: link.url, score: scoreContactUrl(link.url, link.text) * boost, found: link.inFooter ? 'footer' : 'link' });
+  }
+
+  return [...best.values()].sort((a, b) => b.score - a.score);
+}
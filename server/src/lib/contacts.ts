@@ -0,0 +1,168 @@
+/**
+ * Contact extraction - phone numbers, social profiles and messaging links, for the
+ * many stores that list no public email address.
+ */
+
+import { decodeEntities, safeDecodeURIComponent } from './emailExtraction';
+import { normalizePhone } from './phone';
+
+export type SocialNetwork = 'instagram' | 'facebook' | 'tiktok' | 'linkedin' | 'x' | 'youtube' | 'pinterest';
+
+export type PhoneSource = 'tel' | 'json_ld' | 'text';
+
+export interface PhoneRecord {
+  // E.164, e.g. +35312345678
+  number: string;
+  // As printed on the page
+  raw: string;
+  source: PhoneSource;
+}
+
+export interface SiteContacts {
+  phones: PhoneRecord[];
+  // One profile per network
+  socials: Partial<Record<SocialNetwork, string>>;
+  whatsapp?: string;
+  telegram?: string;
+}
+
+interface SocialRule {
+  host: RegExp;
+  // Profile paths; anything else (posts, share dialogs, embeds) is ignored
+  profile: RegExp;
+}
+
+const SOCIAL_RULES: Record<SocialNetwork, SocialRule> = {
+  instagram: { host: /(^|\.)instagram\.com$/, profile: /^\/(?!p\/|reel\/|explore\/|accounts\/|stories\/)[\w.]+\/?$/ },
+  facebook: { host: /(^|\.)(facebook|fb)\.com$/, profile: /^\/(?!sharer|share|dialog\/|plugins\/|tr\/?$|login)(pages\/[^/]+\/\d+|profile\.php|[\w.-]+)\/?$/ },
+  tiktok: { host: /(^|\.)tiktok\.com$/, profile: /^\/@[\w.-]+\/?$/ },
+  linkedin: { host: /(^|\.)linkedin\.com$/, profile: /^\/(company|in|school)\/[^/]+\/?$/ },
+  x: { host: /(^|\.)(twitter|x)\.com$/, profile: /^\/(?!intent\/|share|home|hashtag\/|search)\w{1,15}\/?$/ },
+  youtube: { host: /(^|\.)youtube\.com$/, profile: /^\/(@[\w.-]+|channel\/[\w-]+|c\/[^/]+|user\/[^/]+)\/?$/ },
+  pinterest: { host: /(^|\.)pinterest\.[a-z.]+$/, profile: /^\/(?!pin\/)[\w-]+\/?$/ },
+};
+
+const HREF_REGEX = /\bhref\s*=\s*["']([^"']+)["']/gi;
+const TEL_REGEX = /\bhref\s*=\s*["']tel:([^"']+)["']/gi;
+const JSON_LD_PHONE_REGEX = /"telephone"\s*:\s*"([^"]+)"/gi;
+// Text numbers need a label or a leading `+`; bare digit runs are mostly prices and SKUs
+const LABELLED_PHONE_REGEX = /\b(?:tel|phone|telephone|call(?: us)?|mobile|mob|ph|whatsapp)\.?\s*(?:no\.?|number)?\s*[:\-]?\s*(\+?[\d(][\d\s().-]{6,20}\d)/gi;
+const INTERNATIONAL_PHONE_REGEX = /(?:^|[^\w+])(\+\d{1,3}[\s.-]?\(?\d[\d\s().-]{5,18}\d)/g;
+
+export function emptyContacts(): SiteContacts {
+  return { phones: [], socials: {} };
+}
+
+export function extractContacts(html: string, defaultCountry?: string | null): SiteContacts {
+  const contacts = emptyContacts();
+  const decoded = decodeEntities(html);
+
+  const addPhone = (raw: string, source: PhoneSource) => {
+    const number = normalizePhone(raw, defaultCountry);
+    if (number && !contacts.phones.some(phone => phone.number === number)) {
+      contacts.phones.push({ number, raw: raw.trim(), source });
+    }
+  };
+
+  for (const [, raw] of decoded.matchAll(TEL_REGEX)) addPhone(safeDecodeURIComponent(raw), 'tel');
+  for (const [, raw] of decoded.matchAll(JSON_LD_PHONE_REGEX)) addPhone(raw, 'json_ld');
+
+  const text = decoded.replace(/<script\b[\s\S]*?<\/script>|<style\b[\s\S]*?<\/style>/gi, ' ').replace(/<[^>]+>/g, ' ');
+  for (const [, raw] of text.matchAll(LABELLED_PHONE_REGEX)) addPhone(raw, 'text');
+  for (const [, raw] of text.matchAll(INTERNATIONAL_PHONE_REGEX)) addPhone(raw, 'text');
+
+  // The site's own profiles are linked from the header and footer, so they are the most frequent
+  const profileCounts = new Map<string, { network: SocialNetwork; count: number }>();
+  for (const [, href] of decoded.matchAll(HREF_REGEX)) {
+    const messaging = messagingLink(href);
+    if (messaging) {
+      contacts[messaging.type] ??= messaging.url;
+      continue;
+    }
+
+    const profile = socialProfile(href);
+    if (!profile) continue;
+    const entry = profileCounts.get(profile.url) || { network: profile.network, count: 0 };
+    entry.count++;
+    profileCounts.set(profile.url, entry);
+  }
+
+  const ranked = [...profileCounts].sort((a, b) => b[1].count - a[1].count);
+  for (const [url, { network }] of ranked) {
+    contacts.socials[network] ??= url;
+  }
+
+  return contacts;
+}
+
+// Combine what was found across the pages of one site; earlier pages win
+export function mergeContacts(target: SiteContacts, found: SiteContacts): SiteContacts {
+  for (const phone of found.phones) {
+    if (!target.phones.some(existing => existing.number === phone.number)) target.phones.push(phone);
+  }
+  for (const [network, url] of Object.entries(found.socials) as [SocialNetwork, string][]) {
+    target.socials[network] ??= url;
+  }
+  target.whatsapp ??= found.whatsapp;
+  target.telegram ??= found.telegram;
+  return target;
+}
+
+export function hasContacts(contacts: SiteContacts): boolean {
+  return contacts.phones.length > 0 || Object.keys(contacts.socials).length > 0 || !!contacts.whatsapp || !!contacts.telegram;
+}
+
+// Canonical profile URL and its network, or null for anything that is not a profile link
+export function socialProfile(href: string): { network: SocialNetwork; url: string } | null {
+  const parsed = parseLink(href);
+  if (!parsed) return null;
+
+  const host = parsed.hostname.replace(/^(www|m|mobile|[a-z]{2}(-[a-z]{2})?)\.(?=.+\.)/, '');
+  for (const [network, rule] of Object.entries(SOCIAL_RULES) as [SocialNetwork, SocialRule][]) {
+    if (!rule.host.test(host) || !rule.profile.test(parsed.pathname)) continue;
+
+    const path = parsed.pathname.replace(/\/$/, '');
+    // profile.php identifies the page by its query string
+    const query = path === '/profile.php' ? parsed.search : '';
+    return { network, url: `https://${host}${path}${query}`.toLowerCase() };
+  }
+
+  return null;
+}
+
+function messagingLink(href: string): { type: 'whatsapp' | 'telegram'; url: string } | null {
+  if (/^whatsapp:/i.test(href)) {
+    const phone = new URLSearchParams(href.split('?')[1] || '').get('phone');
+    return phone ? { type: 'whatsapp', url: `https://wa.me/${phone.replace(/\D/g, '')}` } : null;
+  }
+
+  const parsed = parseLink(href);
+  if (!parsed) return null;
+  const host = parsed.hostname.replace(/^www\./, '');
+
+  if (host === 'wa.me') {
+    const phone = parsed.pathname.replace(/\D/g, '');
+    return phone ? { type: 'whatsapp', url: `https://wa.me/${phone}` } : null;
+  }
+  if (host === 'api.whatsapp.com' || host === 'web.whatsapp.com') {
+    const phone = parsed.searchParams.get('phone')?.replace(/\D/g, '');
+    return phone ? { type: 'whatsapp', url: `https://wa.me/${phone}` } : null;
+  }
+  if (host === 'chat.whatsapp.com' && parsed.pathname.length > 1) {
+    return { type: 'whatsapp', url: `https://chat.whatsapp.com${parsed.pathname}` };
+  }
+  if ((host === 't.me' || host === 'telegram.me') && /^\/[\w+]{3,}\/?$/.test(parsed.pathname) && !/^\/share/.test(parsed.pathname)) {
+    return { type: 'telegram', url: `https://t.me${parsed.pathname.replace(/\/$/, '')}` };
+  }
+
+  return null;
+}
+
+function parseLink(href: string): URL | null {
+  try {
+    const parsed = new URL(href.startsWith('//') ? `https:${href}` : href);
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
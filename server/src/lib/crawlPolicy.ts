@@ -0,0 +1,282 @@
+/**
+ * Crawler policy - robots.txt (RFC 9309) and per-host politeness for the scrapers.
+ * Requests to one host through one policy run one at a time, and requests through any
+ * policy sharing a CrawlCache are spaced by at least the host's Crawl-delay.
+ */
+
+export type PolicySkipReason = 'robots_disallowed' | 'robots_unavailable' | 'crawl_delay_too_long';
+
+// A page the scraper chose not to fetch
+export interface PolicySkip {
+  url: string;
+  reason: PolicySkipReason;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  reason?: PolicySkipReason;
+}
+
+export interface CrawlPolicyConfig {
+  // Sent when fetching robots.txt
+  userAgent: string;
+  // Product token matched against robots.txt User-agent lines
+  robotsToken: string;
+  // Minimum gap between two requests to the same host
+  minInterval?: number;
+  // Hosts asking for a longer Crawl-delay are skipped rather than waited on
+  maxCrawlDelay?: number;
+  timeout?: number;
+}
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+  regex: RegExp;
+}
+
+const ROBOTS_TTL = 24 * 60 * 60 * 1000;
+// Retry sooner when robots.txt could not be fetched
+const ROBOTS_ERROR_TTL = 60 * 60 * 1000;
+// RFC 9309 lets crawlers stop reading after 500 KiB
+const MAX_ROBOTS_LENGTH = 500 * 1024;
+
+export class RobotsRules {
+  constructor(
+    private rules: RobotsRule[],
+    // Seconds, from the matching group
+    readonly crawlDelay: number | undefined,
+    readonly sitemaps: string[],
+    // robots.txt could not be fetched, so nothing may be crawled
+    readonly unavailable = false,
+  ) {}
+
+  static allowAll(): RobotsRules {
+    return new RobotsRules([], undefined, []);
+  }
+
+  static unavailable(): RobotsRules {
+    return new RobotsRules([toRule(false, '/')], undefined, [], true);
+  }
+
+  // Longest matching pattern wins; Allow wins a tie
+  isAllowed(pathAndQuery: string): boolean {
+    if (pathAndQuery === '/robots.txt') return true;
+
+    let best: RobotsRule | null = null;
+    for (const rule of this.rules) {
+      if (!rule.regex.test(pathAndQuery)) continue;
+      if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+        best = rule;
+      }
+    }
+
+    return best ? best.allow : true;
+  }
+}
+
+/**
+ * Parse robots.txt for `robotsToken`. Groups naming the token are merged; with none,
+ * the `*` group applies.
+ */
+export function parseRobots(text: string, robotsToken: string): RobotsRules {
+  const token = robotsToken.toLowerCase();
+  const sitemaps: string[] = [];
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelay?: number }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let inAgentLines = false;
+
+  for (const line of text.split(/\r?\n/)) {
+    const content = line.replace(/#.*$/, '').trim();
+    const separator = content.indexOf(':');
+    if (separator < 1) continue;
+
+    const key = content.slice(0, separator).trim().toLowerCase();
+    const value = content.slice(separator + 1).trim();
+
+    switch (key) {
+      case 'user-agent':
+        // Consecutive User-agent lines share one group
+        if (!current || !inAgentLines) {
+          current = { agents: [], rules: [] };
+          groups.push(current);
+        }
+        current.agents.push(value.split('/')[0].trim().toLowerCase());
+        inAgentLines = true;
+        break;
+      case 'allow':
+      case 'disallow':
+        inAgentLines = false;
+        // An empty Disallow allows everything
+        if (current && value) current.rules.push(toRule(key === 'allow', value));
+        break;
+      case 'crawl-delay': {
+        inAgentLines = false;
+        const delay = parseFloat(value);
+        if (current && Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+        break;
+      }
+      case 'sitemap':
+        sitemaps.push(value);
+        break;
+    }
+  }
+
+  let matching = groups.filter(group => group.agents.includes(token));
+  if (matching.length === 0) matching = groups.filter(group => group.agents.includes('*'));
+
+  const delays = matching.map(group => group.crawlDelay).filter((delay): delay is number => delay !== undefined);
+  return new RobotsRules(
+    matching.flatMap(group => group.rules),
+    delays.length ? Math.max(...delays) : undefined,
+    sitemaps,
+  );
+}
+
+/**
+ * What crawl policies share between requests: robots.txt rules and when each host may
+ * next be fetched. Only settled values are kept, never promises, since a Worker cannot
+ * await I/O that belongs to another request.
+ */
+export class CrawlCache {
+  private robots = new Map<string, { rules: RobotsRules; expires: number }>();
+  // Per host: the earliest time the next request may start
+  private slots = new Map<string, number>();
+
+  getRobots(origin: string): RobotsRules | undefined {
+    const cached = this.robots.get(origin);
+    if (cached && cached.expires > Date.now()) return cached.rules;
+    this.robots.delete(origin);
+    return undefined;
+  }
+
+  setRobots(origin: string, rules: RobotsRules): void {
+    this.robots.set(origin, { rules, expires: Date.now() + (rules.unavailable ? ROBOTS_ERROR_TTL : ROBOTS_TTL) });
+  }
+
+  // Claim the host's next slot, holding the one after it `interval` away; returns when it starts
+  reserve(host: string, interval: number): number {
+    const start = Math.max(Date.now(), this.slots.get(host) ?? 0);
+    this.slots.set(host, start + interval);
+    return start;
+  }
+
+  // Space the host's next slot from a request that has just finished
+  release(host: string, interval: number): void {
+    this.slots.set(host, Math.max(this.slots.get(host) ?? 0, Date.now() + interval));
+  }
+}
+
+/**
+ * One request's or job's view of the crawl rules. Its in-flight robots.txt fetches and
+ * per-host queues are promises, so a policy must not outlive the request that made it;
+ * pass a long-lived CrawlCache to keep what it learns.
+ */
+export class CrawlPolicy {
+  private config: Required<CrawlPolicyConfig>;
+  // robots.txt fetches in flight, so concurrent pages of a site share one
+  private pending = new Map<string, Promise<RobotsRules>>();
+  // Per host: the tail of this policy's request queue
+  private queues = new Map<string, Promise<void>>();
+
+  constructor(config: CrawlPolicyConfig, private cache = new CrawlCache()) {
+    this.config = {
+      userAgent: config.userAgent,
+      robotsToken: config.robotsToken,
+      minInterval: config.minInterval ?? 1000,
+      maxCrawlDelay: config.maxCrawlDelay ?? 5,
+      timeout: config.timeout ?? 5000,
+    };
+  }
+
+  async check(url: string): Promise<PolicyDecision> {
+    const parsed = new URL(url);
+    const rules = await this.getRobots(parsed.origin);
+
+    if (!rules.isAllowed(parsed.pathname + parsed.search)) {
+      return { allowed: false, reason: rules.unavailable ? 'robots_unavailable' : 'robots_disallowed' };
+    }
+    if ((rules.crawlDelay ?? 0) > this.config.maxCrawlDelay) {
+      return { allowed: false, reason: 'crawl_delay_too_long' };
+    }
+    return { allowed: true };
+  }
+
+  // robots.txt for an origin, fetched once and cached
+  async getRobots(origin: string): Promise<RobotsRules> {
+    const cached = this.cache.getRobots(origin);
+    if (cached) return cached;
+
+    let rules = this.pending.get(origin);
+    if (!rules) {
+      rules = this.fetchRobots(origin).finally(() => this.pending.delete(origin));
+      this.pending.set(origin, rules);
+    }
+    return rules;
+  }
+
+  /**
+   * Run `task` (a request to `url`'s host) once this policy's earlier requests to that
+   * host have finished and the host's next slot in the cache has come.
+   */
+  async schedule<T>(url: string, task: () => Promise<T>): Promise<T> {
+    const { host, origin } = new URL(url);
+
+    const run = (this.queues.get(host) ?? Promise.resolve()).then(async () => {
+      const wait = this.cache.reserve(host, this.interval(origin)) - Date.now();
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait));
+
+      try {
+        return await task();
+      } finally {
+        this.cache.release(host, this.interval(origin));
+      }
+    });
+    this.queues.set(host, run.then(() => undefined, () => undefined));
+
+    return run;
+  }
+
+  // Gap between two requests to a host, once its robots.txt has been read
+  private interval(origin: string): number {
+    return Math.max(this.config.minInterval, (this.cache.getRobots(origin)?.crawlDelay ?? 0) * 1000);
+  }
+
+  private async fetchRobots(origin: string): Promise<RobotsRules> {
+    let rules: RobotsRules;
+    try {
+      rules = await this.schedule(origin, async () => {
+        const res = await fetch(`${origin}/robots.txt`, {
+          headers: { 'User-Agent': this.config.userAgent },
+          redirect: 'follow',
+          signal: AbortSignal.timeout(this.config.timeout),
+        });
+
+        // RFC 9309: a missing robots.txt allows everything, a server error disallows everything
+        if (res.status >= 400 && res.status < 500) return RobotsRules.allowAll();
+        if (!res.ok) return RobotsRules.unavailable();
+
+        const text = (await res.text()).slice(0, MAX_ROBOTS_LENGTH);
+        const parsed = parseRobots(text, this.config.robotsToken);
+        // Cached before this slot closes, so the very next request is already spaced by its Crawl-delay
+        this.cache.setRobots(origin, parsed);
+        return parsed;
+      });
+    } catch {
+      rules = RobotsRules.unavailable();
+    }
+
+    this.cache.setRobots(origin, rules);
+    return rules;
+  }
+}
+
+// Robots patterns: `*` matches any run of characters, a trailing `$` anchors the end
+function toRule(allow: boolean, pattern: string): RobotsRule {
+  const anchored = pattern.endsWith('$');
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return { allow, pattern, regex: new RegExp(`^${body}${anchored ? '$' : ''}`) };
+}
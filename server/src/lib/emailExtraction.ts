@@ -0,0 +1,127 @@
+/**
+ * Email extraction - finds addresses in a page, including the ones sites hide from
+ * scrapers: Cloudflare email protection, HTML entities, `name [at] domain [dot] com`
+ * text, JSON-LD and escaped or concatenated strings in inline scripts.
+ */
+
+// How an address was found on the page
+export type EmailSource = 'mailto' | 'cloudflare' | 'json_ld' | 'text' | 'entity' | 'obfuscated' | 'script';
+
+export interface EmailCandidate {
+  address: string;
+  source: EmailSource;
+}
+
+const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+
+const SCRIPT_REGEX = /<script\b([^>]*)>([\s\S]*?)<\/script>/gi;
+const MAILTO_REGEX = /mailto:([^"'?\s>]+)/gi;
+const CFEMAIL_REGEX = /(?:data-cfemail=["']|\/cdn-cgi\/l\/email-protection#)([0-9a-f]+)/gi;
+
+// `info [at] shop [dot] com`, `info(at)shop.com`, `info {at} shop {dot} co {dot} uk`
+const AT = String.raw`\s*[\[({<]\s*(?:at|@)\s*[\])}>]\s*`;
+const DOT = String.raw`(?:\s*[\[({<]\s*(?:dot|\.)\s*[\])}>]\s*|\.)`;
+const OBFUSCATED_REGEX = new RegExp(String.raw`([a-z0-9._%+-]+)${AT}([a-z0-9-]+(?:${DOT}[a-z0-9-]+)+)`, 'gi');
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', commat: '@', period: '.', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', colon: ':', hyphen: '-', lowbar: '_',
+};
+
+/**
+ * Every address on the page, each tagged with the first (most direct) way it was
+ * found. Sources are tried in order, so an address in both a mailto link and the
+ * page text is reported as `mailto`.
+ */
+export function extractEmailCandidates(html: string): EmailCandidate[] {
+  const found = new Map<string, EmailSource>();
+  const add = (source: EmailSource, text: string) => {
+    for (const match of text.match(EMAIL_REGEX) || []) {
+      const address = match.toLowerCase().replace(/^[._%+-]+|\.+$/g, '');
+      if (address.includes('@') && !found.has(address)) found.set(address, source);
+    }
+  };
+
+  const scripts: { attrs: string; body: string }[] = [];
+  const markup = html.replace(SCRIPT_REGEX, (_, attrs: string, body: string) => {
+    scripts.push({ attrs, body });
+    return ' ';
+  });
+  const decoded = decodeEntities(markup);
+
+  for (const [, target] of decoded.matchAll(MAILTO_REGEX)) add('mailto', safeDecodeURIComponent(target));
+  for (const [, hex] of html.matchAll(CFEMAIL_REGEX)) add('cloudflare', decodeCfEmail(hex));
+
+  for (const { attrs, body } of scripts) {
+    if (/application\/ld\+json/i.test(attrs)) add('json_ld', jsonLdText(body));
+  }
+
+  add('text', markup);
+  add('entity', decoded);
+  for (const [, local, domain] of decoded.matchAll(OBFUSCATED_REGEX)) {
+    add('obfuscated', `${local}@${domain.replace(new RegExp(DOT, 'gi'), '.')}`);
+  }
+
+  for (const { attrs, body } of scripts) {
+    if (!/application\/ld\+json/i.test(attrs)) add('script', unescapeScript(body));
+  }
+
+  return [...found].map(([address, source]) => ({ address, source }));
+}
+
+// Cloudflare XORs each byte with the first one
+export function decodeCfEmail(hex: string): string {
+  const key = parseInt(hex.slice(0, 2), 16);
+  let encoded = '';
+  for (let i = 2; i + 1 < hex.length; i += 2) {
+    encoded += '%' + (parseInt(hex.slice(i, i + 2), 16) ^ key).toString(16).padStart(2, '0');
+  }
+  return safeDecodeURIComponent(encoded);
+}
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return point > 0 && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// All string values of a JSON-LD block; falls back to the raw text if it does not parse
+function jsonLdText(body: string): string {
+  const strings: string[] = [];
+  const walk = (value: unknown) => {
+    if (typeof value === 'string') strings.push(value.replace(/^mailto:/i, ''));
+    else if (Array.isArray(value)) value.forEach(walk);
+    else if (value && typeof value === 'object') Object.values(value).forEach(walk);
+  };
+
+  try {
+    walk(JSON.parse(body.trim()));
+    return strings.join(' ');
+  } catch {
+    return body;
+  }
+}
+
+// Undo JS escapes and join literals split up to hide an address: 'info' + '@' + 'shop.com'
+export function unescapeScript(body: string): string {
+  return body
+    // `\uXXXX` is always four digits; only the braced `\u{...}` form takes one to six
+    .replace(/\\u(?:\{([0-9a-f]{1,6})\}|([0-9a-f]{4}))/gi, (escape, braced: string | undefined, code: string | undefined) => {
+      const point = parseInt(braced ?? code ?? '', 16);
+      return point <= 0x10ffff ? String.fromCodePoint(point) : escape;
+    })
+    .replace(/\\x([0-9a-f]{2})/gi, (_, code: string) => String.fromCharCode(parseInt(code, 16)))
+    .replace(/\\\//g, '/')
+    .replace(/(["'`])\s*\+\s*\1/g, '');
+}
+
+export function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Email validation - every scraped address goes through syntax, placeholder,
+ * disposable-domain and MX checks and is tagged as a role or personal mailbox.
+ */
+
+import type { EmailSource } from './emailExtraction';
+
+export type EmailValidity = 'valid' | 'risky' | 'invalid' | 'unknown';
+
+export type EmailReason =
+  | 'mx_found'
+  | 'invalid_syntax'
+  | 'placeholder'
+  | 'no_reply'
+  | 'disposable_domain'
+  | 'no_mx_records'
+  | 'dns_lookup_failed';
+
+export type EmailType = 'role' | 'personal';
+
+export interface EmailRecord {
+  address: string;
+  status: EmailValidity;
+  reason: EmailReason;
+  type: EmailType;
+  // How the address was found on the page
+  source?: EmailSource;
+}
+
+// Addresses copied from templates, docs and form placeholders
+const PLACEHOLDER_LOCAL_PARTS = new Set([
+  'johndoe', 'john.doe', 'janedoe', 'jane.doe', 'user', 'username', 'test', 'testing', 'example',
+  'email', 'youremail', 'your.email', 'your-email', 'yourname', 'your.name', 'name', 'someone', 'somebody',
+  'sample', 'demo', 'foo', 'bar', 'abc', 'xyz', 'firstname.lastname', 'first.last', 'firstname',
+]);
+const PLACEHOLDER_DOMAINS = new Set([
+  'example.com', 'example.org', 'example.net', 'domain.com', 'yourdomain.com', 'yoursite.com', 'yourcompany.com',
+  'company.com', 'email.com', 'test.com', 'testemail.com', 'testing.com', 'sample.com', 'website.com',
+  'mysite.com', 'site.com', 'sentry.io', 'wixpress.com', 'sentry.wixpress.com', 'sentry-next.wixpress.com',
+]);
+
+const DISPOSABLE_DOMAINS = new Set([
+  'mailinator.com', 'guerrillamail.com', 'guerrillamail.net', 'sharklasers.com', '10minutemail.com', 'tempmail.com',
+  'temp-mail.org', 'yopmail.com', 'trashmail.com', 'getnada.com', 'dispostable.com', 'maildrop.cc',
+  'throwawaymail.com', 'fakeinbox.com', 'mintemail.com', 'mohmal.com', 'emailondeck.com', 'mailnesia.com',
+  'tempr.email', 'burnermail.io', 'spamgourmet.com', 'mailcatch.com', 'moakt.com', 'tempinbox.com',
+]);
+
+// Shared mailboxes rather than a named person
+const ROLE_LOCAL_PARTS = new Set([
+  'info', 'hello', 'hi', 'contact', 'contactus', 'sales', 'support', 'help', 'helpdesk', 'admin', 'office',
+  'enquiries', 'enquiry', 'inquiries', 'inquiry', 'orders', 'order', 'shop', 'store', 'team', 'service',
+  'customerservice', 'customercare', 'care', 'billing', 'accounts', 'finance', 'marketing', 'press', 'media',
+  'pr', 'careers', 'jobs', 'hr', 'webmaster', 'postmaster', 'hostmaster', 'abuse', 'privacy', 'legal',
+  'wholesale', 'trade', 'partners', 'partnerships', 'returns', 'shipping', 'feedback', 'bookings', 'reception',
+]);
+
+const NO_REPLY = /^(no-?reply|do-?not-?reply|mailer-daemon|bounce[s]?)([.+-]|$)/i;
+
+// RFC 5322 dot-atom local part and an RFC 1035 hostname with an alphabetic TLD
+const LOCAL_PART = /^[a-z0-9!#$%&'*+/=?^_`{|}~-]+(\.[a-z0-9!#$%&'*+/=?^_`{|}~-]+)*$/i;
+const DOMAIN_LABEL = /^[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?$/i;
+
+export interface MxResolver {
+  // True if the domain accepts mail (MX records, or an implicit MX via A records)
+  hasMailServer(domain: string): Promise<boolean>;
+}
+
+/**
+ * Resolves MX records over DNS-over-HTTPS (JSON API, as served by Cloudflare and Google).
+ * Only answers are cached, never lookups in flight, so one resolver can serve every
+ * request of a Worker.
+ */
+export class DohMxResolver implements MxResolver {
+  private cache = new Map<string, boolean>();
+
+  constructor(
+    private resolverUrl: string,
+    private timeout = 5000,
+  ) {}
+
+  // Lookup failures throw and are retried next time, not cached
+  async hasMailServer(domain: string): Promise<boolean> {
+    const cached = this.cache.get(domain);
+    if (cached !== undefined) return cached;
+
+    const result = await this.lookup(domain);
+    this.cache.set(domain, result);
+    return result;
+  }
+
+  private async lookup(domain: string): Promise<boolean> {
+    const mx = await this.query(domain, 'MX');
+    if (mx.some(answer => answer.type === 15 && answer.data.trim() !== '0 .')) return true;
+
+    // RFC 5321: with no MX records the domain's A record is the mail server
+    const a = await this.query(domain, 'A');
+    return a.some(answer => answer.type === 1);
+  }
+
+  private async query(domain: string, type: 'MX' | 'A'): Promise<{ type: number; data: string }[]> {
+    const url = `${this.resolverUrl}?name=${encodeURIComponent(domain)}&type=${type}`;
+    const res = await fetch(url, {
+      headers: { Accept: 'application/dns-json' },
+      signal: AbortSignal.timeout(this.timeout),
+    });
+    if (!res.ok) throw new Error(`DNS resolver returned ${res.status}`);
+
+    const body: { Status: number; Answer?: { type: number; data: string }[] } = await res.json();
+    // NXDOMAIN is an answer, anything else non-zero is a resolver failure
+    if (body.Status !== 0 && body.Status !== 3) throw new Error(`DNS query failed with status ${body.Status}`);
+    return body.Answer || [];
+  }
+}
+
+// For local development and tests: every domain accepts mail
+export class StubMxResolver implements MxResolver {
+  async hasMailServer(): Promise<boolean> {
+    return true;
+  }
+}
+
+export const DEFAULT_RESOLVER_URL = 'https://cloudflare-dns.com/dns-query';
+
+let resolverInstance: { url: string; resolver: MxResolver } | null = null;
+
+// DNS_RESOLVER_URL=stub skips real lookups
+export function getMxResolver(env: Env): MxResolver {
+  const url = env.DNS_RESOLVER_URL || DEFAULT_RESOLVER_URL;
+  if (resolverInstance?.url !== url) {
+    resolverInstance = { url, resolver: url === 'stub' ? new StubMxResolver() : new DohMxResolver(url) };
+  }
+  return resolverInstance.resolver;
+}
+
+export function isValidEmailSyntax(address: string): boolean {
+  if (address.length > 254) return false;
+
+  const at = address.lastIndexOf('@');
+  if (at < 1) return false;
+
+  const local = address.slice(0, at);
+  const domain = address.slice(at + 1);
+  if (local.length > 64 || !LOCAL_PART.test(local)) return false;
+
+  const labels = domain.split('.');
+  return labels.length >= 2 && labels.every(label => DOMAIN_LABEL.test(label)) && /^[a-z]{2,}$/i.test(labels[labels.length - 1]);
+}
+
+export function isPlaceholderEmail(address: string): boolean {
+  const [local, domain] = address.toLowerCase().split('@');
+
+  if (PLACEHOLDER_DOMAINS.has(domain) || PLACEHOLDER_LOCAL_PARTS.has(local)) return true;
+  // Masked or filler addresses such as xxx@xxx.xxx
+  if (/^(.)\1+$/.test(local) || /^(.)\1+\.(.)\2+$/.test(domain)) return true;
+  // Retina image names such as logo@2x.png slip past the email regex
+  return /^\d+x\./.test(domain);
+}
+
+export function emailType(address: string): EmailType {
+  const local = address.toLowerCase().split('@')[0].split('+')[0];
+  return ROLE_LOCAL_PARTS.has(local) || NO_REPLY.test(local) ? 'role' : 'personal';
+}
+
+export async function validateEmail(address: string, resolver: MxResolver): Promise<EmailRecord> {
+  const normalized = address.trim().toLowerCase();
+  const type = emailType(normalized);
+  const record = (status: EmailValidity, reason: EmailReason): EmailRecord => ({ address: normalized, status, reason, type });
+
+  if (!isValidEmailSyntax(normalized)) return record('invalid', 'invalid_syntax');
+  if (isPlaceholderEmail(normalized)) return record('invalid', 'placeholder');
+  if (NO_REPLY.test(normalized.split('@')[0])) return record('invalid', 'no_reply');
+
+  const domain = normalized.split('@')[1];
+  if (DISPOSABLE_DOMAINS.has(domain)) return record('risky', 'disposable_domain');
+
+  try {
+    return (await resolver.hasMailServer(domain)) ? record('valid', 'mx_found') : record('invalid', 'no_mx_records');
+  } catch {
+    return record('unknown', 'dns_lookup_failed');
+  }
+}
+
+export async function validateEmails(addresses: string[], resolver: MxResolver): Promise<EmailRecord[]> {
+  const unique = [...new Set(addresses.map(address => address.trim().toLowerCase()))];
+
+  // Addresses at one domain share a lookup
+  const lookups = new Map<string, Promise<boolean>>();
+  const sharedLookups: MxResolver = {
+    hasMailServer: domain => {
+      let result = lookups.get(domain);
+      if (!result) {
+        result = resolver.hasMailServer(domain);
+        lookups.set(domain, result);
+      }
+      return result;
+    },
+  };
+
+  return Promise.all(unique.map(address => validateEmail(address, sharedLookups)));
+}
+
+// Anything not known to be bad is worth keeping as a lead contact
+export function isUsableEmail(record: EmailRecord): boolean {
+  return record.status !== 'invalid';
+}
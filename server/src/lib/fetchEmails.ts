@@ -2,6 +2,11 @@ import { scraper } from "scrappy";
 import { Readable } from "stream";
 import { Buffer } from "buffer";
 import * as plugins from "scrappy/dist/plugins";
+import { extractEmailCandidates } from "./emailExtraction";
+import { emptyContacts, extractContacts, hasContacts, SiteContacts } from "./contacts";
+import { countryFromRegion } from "./phone";
+import { CrawlCache, CrawlPolicy, PolicySkipReason } from "./crawlPolicy";
+import { DEFAULT_RESOLVER_URL, DohMxResolver, EmailRecord, isUsableEmail, MxResolver, validateEmails } from "./emailValidation";
 
 
 interface LinkState {
@@ -12,23 +17,44 @@ interface LinkState {
 interface ScrapedResult {
   title: string;
   link: string;
-  emails: string[];
+  emails: EmailRecord[];
+  contacts: SiteContacts;
 }
 
-const EMAIL_REGEX = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g;
+interface PageContacts {
+  // Validated the same way as the EmailScraper's results
+  emails: EmailRecord[];
+  contacts: SiteContacts;
+  // Set when robots.txt or crawl-delay ruled the page out
+  skipped?: PolicySkipReason;
+}
+
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/96.0.4664.110 Safari/537.36';
+
+// Robots.txt rules and per-host spacing outlive a request; each batch gets its own policy over them
+const crawlCache = new CrawlCache();
+const newCrawlPolicy = () => new CrawlPolicy({ userAgent: USER_AGENT, robotsToken: 'EmailScraper' }, crawlCache);
+
+const defaultMxResolver = new DohMxResolver(DEFAULT_RESOLVER_URL);
 
 const timeoutPromise = (ms: number) => new Promise((_, reject) => {
   setTimeout(() => reject(new Error(`Operation timed out after ${ms}ms`)), ms);
 });
 
-const fetchEmails = async (linkState: LinkState): Promise<string[]> => {
+const fetchEmails = async (
+  linkState: LinkState,
+  country?: string | null,
+  mxResolver?: MxResolver,
+  crawlPolicy?: CrawlPolicy
+): Promise<PageContacts> => {
   try {
-    const emails = await scrapeEmailsFromUrl(linkState.link);
-    console.log(`📧 Emails found in ${linkState.title} (${linkState.link}): ${emails.length ? emails.join(", ") : "None"}`);
-    return emails;
+    const found = await scrapeContactsFromUrl(linkState.link, country, mxResolver, crawlPolicy);
+    const usable = found.emails.filter(isUsableEmail).map(email => email.address);
+    console.log(`📧 Emails found in ${linkState.title} (${linkState.link}): ${usable.length ? usable.join(", ") : "None"}`);
+    return found;
   } catch (error) {
     console.error(`🔴 Error fetching emails from ${linkState.link}:`, error);
-    return [];
+    return { emails: [], contacts: emptyContacts() };
   }
 };
 
@@ -55,7 +81,7 @@ async function safeFetch(url: string): Promise<Response | null> {
       fetch(url, {
         signal: controller.signal,
         headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/96.0.4664.110 Safari/537.36',
+          'User-Agent': USER_AGENT,
           'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
           'Accept-Language': 'en-US,en;q=0.5'
         }
@@ -80,28 +106,43 @@ async function safeFetch(url: string): Promise<Response | null> {
 }
 
 function extractEmails(text: string): string[] {
-  const matches = text.match(EMAIL_REGEX) || [];
-  const filtered = matches.filter(
-    (email) => email.includes("@") && !email.endsWith(".png") && !email.endsWith(".jpg")
-  );
-  return [...new Set(filtered)];
+  return extractEmailCandidates(text)
+    .map(({ address }) => address)
+    .filter((email) => !email.endsWith(".png") && !email.endsWith(".jpg"));
 }
 
-async function scrapeEmailsFromUrl(url: string): Promise<string[]> {
+async function scrapeEmailsFromUrl(url: string, mxResolver?: MxResolver): Promise<string[]> {
+  return (await scrapeContactsFromUrl(url, null, mxResolver)).emails.filter(isUsableEmail).map(email => email.address);
+}
+
+async function scrapeContactsFromUrl(
+  url: string,
+  country?: string | null,
+  mxResolver: MxResolver = defaultMxResolver,
+  crawlPolicy: CrawlPolicy = newCrawlPolicy()
+): Promise<PageContacts> {
+  const none = { emails: [], contacts: emptyContacts() };
   try {
 
     if (!url || !url.startsWith('http')) {
       console.warn(`⚠️ Invalid URL: ${url}`);
-      return [];
+      return none;
     }
     
-    const res = await safeFetch(url);
-    if (!res) return [];
+    const decision = await crawlPolicy.check(url);
+    if (!decision.allowed) {
+      console.warn(`🤖 Skipping ${url}: ${decision.reason}`);
+      return { ...none, skipped: decision.reason };
+    }
+
+    // Requests to the same host wait their turn
+    const res = await crawlPolicy.schedule(url, () => safeFetch(url));
+    if (!res) return none;
     
 
     if (!res.ok) {
       console.warn(`⚠️ Non-successful response (${res.status}) for ${url}`);
-      return [];
+      return none;
     }
     
     let htmlText;
@@ -109,10 +150,11 @@ async function scrapeEmailsFromUrl(url: string): Promise<string[]> {
       htmlText = await res.text();
     } catch (err) {
       console.error(`❌ Failed to read response body from ${url}:`, err);
-      return [];
+      return none;
     }
     
-    const emails = extractEmails(htmlText);
+    const emails = await validateEmails(extractEmails(htmlText), mxResolver);
+    const contacts = extractContacts(htmlText, country);
 
     try {
       const htmlStream = Readable.from(Buffer.from(htmlText));
@@ -126,10 +168,10 @@ async function scrapeEmailsFromUrl(url: string): Promise<string[]> {
 
     }
     
-    return emails;
+    return { emails, contacts };
   } catch (err) {
     console.error(`⚠️ Scraping failed for ${url}:`, err);
-    return [];
+    return none;
   }
 }
 
@@ -180,7 +222,7 @@ async function runWithConcurrency<T, R>(
  * Process a batch of URLs and extract emails from them
  * @param links Array of LinkState objects containing titles and URLs
  * @param options Configuration options
- * @returns Array of ScrapedResult objects containing titles, links and found emails
+ * @returns Array of ScrapedResult objects containing titles, links, found emails and other contacts
  */
 export async function processUrlBatch(
   links: LinkState[],
@@ -190,6 +232,8 @@ export async function processUrlBatch(
     delayBetweenBatches?: number;
     saveToFile?: boolean;
     outputFilename?: string;
+    region?: string;
+    mxResolver?: MxResolver;
   } = {}
 ): Promise<ScrapedResult[]> {
   const {
@@ -197,8 +241,12 @@ export async function processUrlBatch(
     concurrency = 10,
     delayBetweenBatches = 3000,
     saveToFile = false,
-    outputFilename = 'scraped_results.json'
+    outputFilename = 'scraped_results.json',
+    region,
+    mxResolver
   } = options;
+  const country = countryFromRegion(region);
+  const crawlPolicy = newCrawlPolicy();
   
   console.log(`🚀 Starting to scrape emails from ${links.length} URLs...`);
   
@@ -215,15 +263,15 @@ export async function processUrlBatch(
           return {
             title: item.title,
             link: item.link,
-            emails: await fetchEmails(item)
+            ...await fetchEmails(item, country, mxResolver, crawlPolicy)
           };
         },
         concurrency
       );
       
-      // Add batch results to overall results (only those with emails)
+      // Add batch results to overall results (only those with a way to get in touch)
       batchResults.forEach(result => {
-        if (result.emails.length > 0) {
+        if (result.emails.some(isUsableEmail) || hasContacts(result.contacts)) {
           allResults.push(result);
         }
       });
@@ -263,6 +311,7 @@ export async function processUrlBatch(
 export {
   fetchEmails,
   scrapeEmailsFromUrl,
+  scrapeContactsFromUrl,
   extractEmails,
   runWithConcurrency,
   safeFetch
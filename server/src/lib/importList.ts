@@ -0,0 +1,58 @@
+/**
+ * Imported site lists - validates and dedupes rows from an uploaded CSV or spreadsheet
+ * so they can be checked and scraped like search results.
+ */
+
+import { normalizeUrl } from './url';
+
+export const MAX_IMPORT_ROWS = 5000;
+
+export interface ImportRow {
+  title?: string;
+  link: string;
+}
+
+export interface ImportedSite {
+  title: string;
+  link: string;
+  domain: string;
+  homepage: string;
+}
+
+export type ImportRejectReason = 'invalid_url' | 'duplicate';
+
+export interface RejectedRow {
+  // Zero-based position in the submitted rows
+  row: number;
+  link: string;
+  reason: ImportRejectReason;
+}
+
+/**
+ * Normalize each row's link and keep the first row per registrable domain, as a
+ * search does. Rows without a title are named after their domain.
+ */
+export function normalizeImport(rows: ImportRow[]): { sites: ImportedSite[]; rejected: RejectedRow[] } {
+  const sites: ImportedSite[] = [];
+  const rejected: RejectedRow[] = [];
+  const seenDomains = new Set<string>();
+
+  rows.forEach((row, index) => {
+    const link = typeof row?.link === 'string' ? row.link.trim() : '';
+    const normalized = normalizeUrl(link);
+    if (!normalized) {
+      rejected.push({ row: index, link, reason: 'invalid_url' });
+      return;
+    }
+    if (seenDomains.has(normalized.domain)) {
+      rejected.push({ row: index, link, reason: 'duplicate' });
+      return;
+    }
+
+    seenDomains.add(normalized.domain);
+    const title = typeof row.title === 'string' ? row.title.trim() : '';
+    sites.push({ title: title || normalized.domain, link: normalized.url, domain: normalized.domain, homepage: normalized.homepage });
+  });
+
+  return { sites, rejected };
+}
@@ -0,0 +1,121 @@
+import { DurableObject } from 'cloudflare:workers';
+import { createJob, runJobStep } from './pipeline';
+import { Job, JobParams, JobRunner, JobSite, JobSnapshot } from './types';
+
+// Durable Object storage caps a single put() at 128 keys
+const MAX_PUT_ENTRIES = 128;
+
+/**
+ * One Durable Object per job. Each pipeline step runs in its own alarm invocation,
+ * so a job survives worker timeouts and continues without any client attached.
+ */
+export class JobDurableObject extends DurableObject<Env> {
+  async start(job: Job): Promise<Job> {
+    await this.ctx.storage.put('job', job);
+    await this.ctx.storage.setAlarm(Date.now());
+    return job;
+  }
+
+  async snapshot(): Promise<JobSnapshot | null> {
+    const job = await this.ctx.storage.get<Job>('job');
+    if (!job) return null;
+
+    return { ...job, sites: await this.loadSites() };
+  }
+
+  async cancel(): Promise<Job | null> {
+    const job = await this.ctx.storage.get<Job>('job');
+    if (!job) return null;
+
+    if (job.status === 'running') {
+      job.status = 'cancelled';
+      job.updatedAt = new Date().toISOString();
+      await this.ctx.storage.put('job', job);
+      await this.ctx.storage.deleteAlarm();
+    }
+    return job;
+  }
+
+  async resume(): Promise<Job | null> {
+    const job = await this.ctx.storage.get<Job>('job');
+    if (!job) return null;
+
+    if (job.status === 'cancelled' || job.status === 'failed') {
+      job.status = 'running';
+      job.error = undefined;
+      job.updatedAt = new Date().toISOString();
+      await this.ctx.storage.put('job', job);
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+    return job;
+  }
+
+  async alarm(): Promise<void> {
+    const job = await this.ctx.storage.get<Job>('job');
+    if (!job || job.status !== 'running') return;
+
+    const sites = await this.loadSites();
+    try {
+      const changed = await runJobStep(job, sites, this.env);
+      await this.saveSites(sites, changed);
+    } catch (err: any) {
+      console.error(`Job ${job.id} failed:`, err);
+      job.status = 'failed';
+      job.error = err.message || 'Unknown error';
+    }
+
+    // A cancel that landed mid-step wins over the step's own status
+    const latest = await this.ctx.storage.get<Job>('job');
+    if (latest?.status === 'cancelled') return;
+
+    await this.ctx.storage.put('job', job);
+    if (job.status === 'running') {
+      await this.ctx.storage.setAlarm(Date.now());
+    }
+  }
+
+  private async loadSites(): Promise<JobSite[]> {
+    const entries = await this.ctx.storage.list<JobSite>({ prefix: 'site:' });
+    return [...entries.values()];
+  }
+
+  private async saveSites(sites: JobSite[], indexes: number[]): Promise<void> {
+    for (let i = 0; i < indexes.length; i += MAX_PUT_ENTRIES) {
+      const entries: Record<string, JobSite> = {};
+      for (const index of indexes.slice(i, i + MAX_PUT_ENTRIES)) {
+        entries[siteKey(index)] = sites[index];
+      }
+      await this.ctx.storage.put(entries);
+    }
+  }
+}
+
+// Zero-padded so list() returns sites in result order
+function siteKey(index: number): string {
+  return `site:${String(index).padStart(6, '0')}`;
+}
+
+export class DurableJobRunner implements JobRunner {
+  constructor(private namespace: DurableObjectNamespace<JobDurableObject>) {}
+
+  async start(params: JobParams): Promise<Job> {
+    const job = createJob(params);
+    return this.stub(job.id).start(job);
+  }
+
+  async get(id: string): Promise<JobSnapshot | null> {
+    return this.stub(id).snapshot();
+  }
+
+  async cancel(id: string): Promise<Job | null> {
+    return this.stub(id).cancel();
+  }
+
+  async resume(id: string): Promise<Job | null> {
+    return this.stub(id).resume();
+  }
+
+  private stub(id: string) {
+    return this.namespace.get(this.namespace.idFromName(id));
+  }
+}
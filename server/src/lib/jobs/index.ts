@@ -0,0 +1,15 @@
+import { DurableJobRunner } from './durableObject';
+import { MemoryJobRunner } from './memory';
+import { JobRunner } from './types';
+
+export * from './types';
+export { parseJobParams } from './pipeline';
+export { JobDurableObject } from './durableObject';
+
+// Durable Objects when bound, in-memory otherwise (or when JOB_BACKEND=memory)
+export function getJobRunner(env: Env, waitUntil: (promise: Promise<unknown>) => void): JobRunner {
+  if (env.JOB_BACKEND === 'memory' || !env.JOBS) {
+    return new MemoryJobRunner(env, waitUntil);
+  }
+  return new DurableJobRunner(env.JOBS);
+}
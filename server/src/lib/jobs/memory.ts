@@ -0,0 +1,80 @@
+import { createJob, runJobStep } from './pipeline';
+import { Job, JobParams, JobRunner, JobSite, JobSnapshot } from './types';
+
+// Lives as long as the isolate, which is all local development needs; `driving` is set
+// while a drive() loop owns the job, so a resume mid-step doesn't start a second one
+const jobs = new Map<string, { job: Job; sites: JobSite[]; driving: boolean }>();
+
+/**
+ * In-memory job runner for local development. Jobs are driven in the background
+ * of the request that started or resumed them and are lost on restart.
+ */
+export class MemoryJobRunner implements JobRunner {
+  constructor(
+    private env: Env,
+    private waitUntil: (promise: Promise<unknown>) => void,
+  ) {}
+
+  async start(params: JobParams): Promise<Job> {
+    const job = createJob(params);
+    jobs.set(job.id, { job, sites: [], driving: false });
+    this.waitUntil(this.drive(job.id));
+    return { ...job };
+  }
+
+  async get(id: string): Promise<JobSnapshot | null> {
+    const entry = jobs.get(id);
+    return entry ? { ...entry.job, sites: entry.sites } : null;
+  }
+
+  async cancel(id: string): Promise<Job | null> {
+    const entry = jobs.get(id);
+    if (!entry) return null;
+
+    if (entry.job.status === 'running') {
+      entry.job.status = 'cancelled';
+      entry.job.updatedAt = new Date().toISOString();
+    }
+    return { ...entry.job };
+  }
+
+  async resume(id: string): Promise<Job | null> {
+    const entry = jobs.get(id);
+    if (!entry) return null;
+
+    if (entry.job.status === 'cancelled' || entry.job.status === 'failed') {
+      entry.job.status = 'running';
+      entry.job.error = undefined;
+      entry.job.updatedAt = new Date().toISOString();
+      this.waitUntil(this.drive(id));
+    }
+    return { ...entry.job };
+  }
+
+  private async drive(id: string): Promise<void> {
+    const entry = jobs.get(id);
+    if (!entry || entry.driving) return;
+
+    entry.driving = true;
+    try {
+      // Cancellation is picked up between steps
+      while (entry.job.status === 'running') {
+        const job = structuredClone(entry.job);
+        try {
+          await runJobStep(job, entry.sites, this.env);
+        } catch (err: any) {
+          console.error(`Job ${id} failed:`, err);
+          job.status = 'failed';
+          job.error = err.message || 'Unknown error';
+        }
+
+        // A cancel that landed mid-step wins over the step's own status
+        const latest = jobs.get(id)?.job;
+        if (latest?.status === 'cancelled') break;
+        entry.job = job;
+      }
+    } finally {
+      entry.driving = false;
+    }
+  }
+}
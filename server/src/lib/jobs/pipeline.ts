@@ -0,0 +1,131 @@
+import { createSearchProviderFromEnv, deepSearch, isSearchProviderName, MAX_SEARCH_COUNT, MAX_SEARCH_PAGES } from '../search';
+import { checkSite } from '../siteCheck';
+import { classifySite } from '../classify';
+import { getLeadStore, LeadEnrichment } from '../leads';
+import { getEmailScraper } from '../../scrapeEmailsFromSite';
+import { Job, JobParams, JobSite, JobStage } from './types';
+
+// Sites handled per step; a step must finish well inside one invocation's time limit
+const CHECK_BATCH_SIZE = 10;
+const EMAIL_BATCH_SIZE = 5;
+
+export function parseJobParams(body: any, env: Env): { params?: JobParams; error?: string } {
+  const { keyword, region, count, maxPages = MAX_SEARCH_PAGES, provider = env.DEFAULT_SEARCH_PROVIDER || 'serpapi' } = body || {};
+
+  if (!keyword || !region || !count) {
+    return { error: 'Missing required fields' };
+  }
+  if (!Number.isInteger(count) || count < 1 || count > MAX_SEARCH_COUNT) {
+    return { error: `count must be an integer between 1 and ${MAX_SEARCH_COUNT}` };
+  }
+  if (!isSearchProviderName(provider)) {
+    return { error: `Unknown provider: ${provider}` };
+  }
+
+  return {
+    params: {
+      keyword,
+      region,
+      count,
+      provider,
+      maxPages: Math.min(Math.max(Number(maxPages) || 1, 1), MAX_SEARCH_PAGES),
+    },
+  };
+}
+
+export function createJob(params: JobParams): Job {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    params,
+    status: 'running',
+    stage: 'search',
+    progress: { done: 0, total: 1 },
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Run one bounded slice of a job's pipeline, mutating `job` and `sites` in place.
+ * Returns the indexes of the sites that changed so callers can persist only those.
+ */
+export async function runJobStep(job: Job, sites: JobSite[], env: Env): Promise<number[]> {
+  let changed: number[] = [];
+
+  switch (job.stage) {
+    case 'search': {
+      const { keyword, region, count, provider, maxPages } = job.params;
+      const search = await deepSearch(createSearchProviderFromEnv(provider, env), `${keyword} ${region}`, { count, maxPages });
+
+      const recorded = await getLeadStore(env)
+        .recordSearch({ keyword, region, count, provider }, search.results)
+        .catch(err => {
+          console.error('Failed to record search:', err);
+          return null;
+        });
+      // Replaced, not appended: a search step cut short by a cancel may have filled `sites` already
+      sites.splice(0, sites.length, ...(recorded ? recorded.results : search.results).map(result => ({ ...result, classification: classifySite(result) })));
+      changed = sites.map((_, index) => index);
+      job.search = { pagesFetched: search.pagesFetched, stopReason: search.stopReason };
+      advance(job, 'check', sites.length);
+      break;
+    }
+
+    case 'check': {
+      changed = await processBatch(job, sites, CHECK_BATCH_SIZE, async site => {
+        site.check = await checkSite(site.link);
+        await saveLead(env, site, { check: { ...site.check, checkedAt: new Date().toISOString() } });
+      });
+      if (job.progress.done >= sites.length) advance(job, 'email', sites.length);
+      break;
+    }
+
+    case 'email': {
+      const scraper = getEmailScraper(env);
+      changed = await processBatch(job, sites, EMAIL_BATCH_SIZE, async site => {
+        // No point crawling a site that did not respond to the check
+        if (site.check && !site.check.isDomainActive) return;
+
+        const { emails, contacts, status, skipped, error } = await scraper.scrapeSite(site, { region: job.params.region });
+        site.email = { emails, contacts, status, skipped, error };
+        if (status !== 'error') {
+          await saveLead(env, site, { email: { emails, contacts, status, skipped, fetchedAt: new Date().toISOString() } });
+        }
+      });
+      if (job.progress.done >= sites.length) {
+        advance(job, 'done', sites.length);
+        job.status = 'completed';
+      }
+      break;
+    }
+
+    case 'done':
+      job.status = 'completed';
+      break;
+  }
+
+  job.updatedAt = new Date().toISOString();
+  return changed;
+}
+
+// Lead store writes are best-effort, as in the routes: a failed write must not fail the job
+const saveLead = (env: Env, site: JobSite, enrichment: LeadEnrichment) =>
+  getLeadStore(env)
+    .saveEnrichment(site, enrichment)
+    .catch(err => console.error('Failed to save leads:', err));
+
+async function processBatch(job: Job, sites: JobSite[], size: number, handler: (site: JobSite) => Promise<void>): Promise<number[]> {
+  const start = job.progress.done;
+  const indexes = sites.slice(start, start + size).map((_, offset) => start + offset);
+
+  await Promise.all(indexes.map(index => handler(sites[index])));
+  job.progress.done = start + indexes.length;
+
+  return indexes;
+}
+
+function advance(job: Job, stage: JobStage, total: number): void {
+  job.stage = stage;
+  job.progress = { done: stage === 'done' ? total : 0, total };
+}
@@ -0,0 +1,52 @@
+import { SearchProviderName, SearchResult, StopReason } from '../search';
+import { SiteCheckResult } from '../siteCheck';
+import { SiteClassification } from '../classify';
+import { SiteEmailResult } from '../../scrapeEmailsFromSite';
+
+export type JobStatus = 'running' | 'cancelled' | 'completed' | 'failed';
+
+// Pipeline stages, in the order a job moves through them
+export type JobStage = 'search' | 'check' | 'email' | 'done';
+
+export interface JobParams {
+  keyword: string;
+  region: string;
+  count: number;
+  provider: SearchProviderName;
+  maxPages: number;
+}
+
+export interface JobSite extends SearchResult {
+  domain?: string;
+  homepage?: string;
+  isNew?: boolean;
+  // From the search result; the site check refines it in `check.classification`
+  classification?: SiteClassification;
+  check?: SiteCheckResult;
+  email?: Pick<SiteEmailResult, 'emails' | 'contacts' | 'status' | 'skipped' | 'error'>;
+}
+
+export interface Job {
+  id: string;
+  params: JobParams;
+  status: JobStatus;
+  stage: JobStage;
+  // `done` doubles as the cursor into `sites` for the current stage
+  progress: { done: number; total: number };
+  search?: { pagesFetched: number; stopReason: StopReason };
+  error?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A job together with its partial or final results
+export interface JobSnapshot extends Job {
+  sites: JobSite[];
+}
+
+export interface JobRunner {
+  start(params: JobParams): Promise<Job>;
+  get(id: string): Promise<JobSnapshot | null>;
+  cancel(id: string): Promise<Job | null>;
+  resume(id: string): Promise<Job | null>;
+}
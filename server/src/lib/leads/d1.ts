@@ -0,0 +1,195 @@
+import { SearchResult } from '../search';
+import { domainOf } from '../url';
+import { Lead, LeadEnrichment, LeadQuery, LeadStore, RecordedResult, SearchRecord } from './types';
+
+// D1 rejects statements with more than 100 bound parameters
+const MAX_BOUND_PARAMS = 100;
+
+interface LeadRow {
+  domain: string;
+  title: string;
+  link: string;
+  enrichment: string;
+  first_seen_at: string;
+  last_seen_at: string;
+  search_ids: string | null;
+}
+
+interface SearchRow {
+  id: string;
+  keyword: string;
+  region: string;
+  count: number;
+  provider: SearchRecord['provider'];
+  result_count: number;
+  new_count: number;
+  created_at: string;
+}
+
+const LEAD_COLUMNS = `l.domain, l.title, l.link, l.enrichment, l.first_seen_at, l.last_seen_at,
+  (SELECT group_concat(search_id) FROM lead_searches WHERE domain = l.domain) AS search_ids`;
+
+export class D1LeadStore implements LeadStore {
+  constructor(private db: D1Database) {}
+
+  async recordSearch(
+    search: Pick<SearchRecord, 'keyword' | 'region' | 'count' | 'provider'>,
+    results: SearchResult[],
+  ): Promise<{ search: SearchRecord; results: RecordedResult[] }> {
+    const now = new Date().toISOString();
+    const withDomains = results.flatMap(result => {
+      const domain = domainOf(result.link);
+      return domain ? [{ ...result, domain }] : [];
+    });
+
+    const id = crypto.randomUUID();
+
+    // The upsert reports which rows it inserted, so concurrent searches cannot both count a
+    // domain as new: only the search that inserted a row is its first_search_id
+    const upserted = await this.batch<{ domain: string; first_search_id: string | null }>(
+      this.insertRows(
+        'INSERT INTO leads (domain, title, link, first_seen_at, last_seen_at, updated_at, first_search_id)',
+        withDomains.map(result => [result.domain, result.title, result.link, now, now, now, id]),
+        'ON CONFLICT (domain) DO UPDATE SET last_seen_at = excluded.last_seen_at RETURNING domain, first_search_id',
+      ),
+    );
+    const inserted = new Set(upserted.filter(row => row.first_search_id === id).map(row => row.domain));
+
+    // As in the memory store, only a domain's first result in the search is new
+    const recorded = withDomains.map(result => ({ ...result, isNew: inserted.delete(result.domain) }));
+
+    const record: SearchRecord = {
+      ...search,
+      id,
+      resultCount: recorded.length,
+      newCount: recorded.filter(result => result.isNew).length,
+      createdAt: now,
+    };
+
+    // Multi-row inserts keep the batch small; each stays under D1's bound parameter limit
+    const statements = [
+      this.db
+        .prepare(
+          `INSERT INTO searches (id, keyword, region, count, provider, result_count, new_count, created_at)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        )
+        .bind(record.id, record.keyword, record.region, record.count, record.provider, record.resultCount, record.newCount, now),
+      ...this.insertRows(
+        'INSERT OR IGNORE INTO lead_searches (domain, search_id, position, is_new)',
+        recorded.map(result => [result.domain, record.id, result.position, result.isNew ? 1 : 0]),
+      ),
+    ];
+
+    await this.db.batch(statements);
+    return { search: record, results: recorded };
+  }
+
+  async saveEnrichment(site: { title?: string; link: string }, enrichment: LeadEnrichment): Promise<void> {
+    const domain = domainOf(site.link);
+    if (!domain) return;
+
+    const entries = Object.entries(enrichment).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) return;
+
+    // Each key is replaced whole, as in the memory store, so a re-check drops stale nested fields
+    const now = new Date().toISOString();
+    await this.db
+      .prepare(
+        `INSERT INTO leads (domain, title, link, enrichment, first_seen_at, last_seen_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)
+         ON CONFLICT (domain) DO UPDATE SET
+           enrichment = json_set(leads.enrichment, ${entries.map(() => "'$.' || ?, json(?)").join(', ')}),
+           updated_at = excluded.updated_at`,
+      )
+      .bind(
+        domain,
+        site.title || '',
+        site.link,
+        JSON.stringify(enrichment),
+        now,
+        now,
+        now,
+        ...entries.flatMap(([key, value]) => [key, JSON.stringify(value)]),
+      )
+      .run();
+  }
+
+  async getLead(domain: string): Promise<Lead | null> {
+    const row = await this.db.prepare(`SELECT ${LEAD_COLUMNS} FROM leads l WHERE l.domain = ?`).bind(domain).first<LeadRow>();
+    return row ? toLead(row) : null;
+  }
+
+  async queryLeads({ q, searchId, limit, offset }: LeadQuery): Promise<{ leads: Lead[]; total: number }> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (q) {
+      conditions.push('(l.domain LIKE ? OR l.title LIKE ?)');
+      params.push(`%${q}%`, `%${q}%`);
+    }
+    if (searchId) {
+      conditions.push('EXISTS (SELECT 1 FROM lead_searches ls WHERE ls.domain = l.domain AND ls.search_id = ?)');
+      params.push(searchId);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const [rows, count] = await Promise.all([
+      this.db
+        .prepare(`SELECT ${LEAD_COLUMNS} FROM leads l ${where} ORDER BY l.last_seen_at DESC, l.domain LIMIT ? OFFSET ?`)
+        .bind(...params, limit, offset)
+        .all<LeadRow>(),
+      this.db.prepare(`SELECT COUNT(*) AS total FROM leads l ${where}`).bind(...params).first<number>('total'),
+    ]);
+
+    return { leads: rows.results.map(toLead), total: count || 0 };
+  }
+
+  async listSearches(): Promise<SearchRecord[]> {
+    const { results } = await this.db.prepare('SELECT * FROM searches ORDER BY created_at DESC').all<SearchRow>();
+    return results.map(row => ({
+      id: row.id,
+      keyword: row.keyword,
+      region: row.region,
+      count: row.count,
+      provider: row.provider,
+      resultCount: row.result_count,
+      newCount: row.new_count,
+      createdAt: row.created_at,
+    }));
+  }
+
+  // One INSERT per chunk of rows that fits in the bound parameter limit
+  private insertRows(insert: string, rows: unknown[][], conflict = ''): D1PreparedStatement[] {
+    if (rows.length === 0) return [];
+    const rowsPerStatement = Math.floor(MAX_BOUND_PARAMS / rows[0].length);
+    const placeholders = `(${rows[0].map(() => '?').join(', ')})`;
+    const statements: D1PreparedStatement[] = [];
+
+    for (let i = 0; i < rows.length; i += rowsPerStatement) {
+      const chunk = rows.slice(i, i + rowsPerStatement);
+      statements.push(
+        this.db.prepare(`${insert} VALUES ${chunk.map(() => placeholders).join(', ')} ${conflict}`).bind(...chunk.flat()),
+      );
+    }
+
+    return statements;
+  }
+
+  // Rows returned by every statement of a batch
+  private async batch<T>(statements: D1PreparedStatement[]): Promise<T[]> {
+    if (statements.length === 0) return [];
+    return (await this.db.batch<T>(statements)).flatMap(result => result.results);
+  }
+}
+
+function toLead(row: LeadRow): Lead {
+  return {
+    domain: row.domain,
+    title: row.title,
+    link: row.link,
+    enrichment: JSON.parse(row.enrichment),
+    searchIds: row.search_ids ? row.search_ids.split(',') : [],
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at,
+  };
+}
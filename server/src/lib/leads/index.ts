@@ -0,0 +1,10 @@
+import { D1LeadStore } from './d1';
+import { MemoryLeadStore } from './memory';
+import { LeadStore } from './types';
+
+export * from './types';
+
+// D1 when bound, in-memory otherwise
+export function getLeadStore(env: Env): LeadStore {
+  return env.DB ? new D1LeadStore(env.DB) : new MemoryLeadStore();
+}
@@ -0,0 +1,91 @@
+import { SearchResult } from '../search';
+import { domainOf } from '../url';
+import { Lead, LeadEnrichment, LeadQuery, LeadStore, RecordedResult, SearchRecord } from './types';
+
+// Lives as long as the isolate; used when no D1 database is bound
+const leads = new Map<string, Lead>();
+const searches: SearchRecord[] = [];
+
+export class MemoryLeadStore implements LeadStore {
+  async recordSearch(
+    search: Pick<SearchRecord, 'keyword' | 'region' | 'count' | 'provider'>,
+    results: SearchResult[],
+  ): Promise<{ search: SearchRecord; results: RecordedResult[] }> {
+    const now = new Date().toISOString();
+    const id = crypto.randomUUID();
+    const recorded: RecordedResult[] = [];
+
+    for (const result of results) {
+      const domain = domainOf(result.link);
+      if (!domain) continue;
+
+      const existing = leads.get(domain);
+      recorded.push({ ...result, domain, isNew: !existing });
+
+      if (existing) {
+        existing.lastSeenAt = now;
+        if (!existing.searchIds.includes(id)) existing.searchIds.push(id);
+      } else {
+        leads.set(domain, {
+          domain,
+          title: result.title,
+          link: result.link,
+          enrichment: {},
+          searchIds: [id],
+          firstSeenAt: now,
+          lastSeenAt: now,
+        });
+      }
+    }
+
+    const record: SearchRecord = {
+      ...search,
+      id,
+      resultCount: recorded.length,
+      newCount: recorded.filter(result => result.isNew).length,
+      createdAt: now,
+    };
+    searches.unshift(record);
+
+    return { search: record, results: recorded };
+  }
+
+  async saveEnrichment(site: { title?: string; link: string }, enrichment: LeadEnrichment): Promise<void> {
+    const domain = domainOf(site.link);
+    if (!domain) return;
+
+    const now = new Date().toISOString();
+    const existing = leads.get(domain);
+    if (existing) {
+      existing.enrichment = { ...existing.enrichment, ...enrichment };
+    } else {
+      leads.set(domain, {
+        domain,
+        title: site.title || '',
+        link: site.link,
+        enrichment,
+        searchIds: [],
+        firstSeenAt: now,
+        lastSeenAt: now,
+      });
+    }
+  }
+
+  async getLead(domain: string): Promise<Lead | null> {
+    return leads.get(domain) || null;
+  }
+
+  async queryLeads({ q, searchId, limit, offset }: LeadQuery): Promise<{ leads: Lead[]; total: number }> {
+    const needle = q?.toLowerCase();
+    const matches = [...leads.values()]
+      .filter(lead => !needle || lead.domain.includes(needle) || lead.title.toLowerCase().includes(needle))
+      .filter(lead => !searchId || lead.searchIds.includes(searchId))
+      .sort((a, b) => b.lastSeenAt.localeCompare(a.lastSeenAt) || a.domain.localeCompare(b.domain));
+
+    return { leads: matches.slice(offset, offset + limit), total: matches.length };
+  }
+
+  async listSearches(): Promise<SearchRecord[]> {
+    return [...searches];
+  }
+}
@@ -0,0 +1,54 @@
+import { SearchProviderName, SearchResult } from '../search';
+import { SiteCheckResult } from '../siteCheck';
+import { SiteEmailResult } from '../../scrapeEmailsFromSite';
+
+export interface LeadEnrichment {
+  check?: SiteCheckResult & { checkedAt: string };
+  email?: Pick<SiteEmailResult, 'emails' | 'contacts' | 'status' | 'skipped' | 'error'> & { fetchedAt: string };
+}
+
+export interface Lead {
+  domain: string;
+  title: string;
+  link: string;
+  enrichment: LeadEnrichment;
+  searchIds: string[];
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface SearchRecord {
+  id: string;
+  keyword: string;
+  region: string;
+  count: number;
+  provider: SearchProviderName;
+  resultCount: number;
+  newCount: number;
+  createdAt: string;
+}
+
+// A search result as recorded in the store
+export interface RecordedResult extends SearchResult {
+  domain: string;
+  isNew: boolean;
+}
+
+export interface LeadQuery {
+  // Substring match on domain or title
+  q?: string;
+  searchId?: string;
+  limit: number;
+  offset: number;
+}
+
+export interface LeadStore {
+  recordSearch(
+    search: Pick<SearchRecord, 'keyword' | 'region' | 'count' | 'provider'>,
+    results: SearchResult[],
+  ): Promise<{ search: SearchRecord; results: RecordedResult[] }>;
+  saveEnrichment(site: { title?: string; link: string }, enrichment: LeadEnrichment): Promise<void>;
+  getLead(domain: string): Promise<Lead | null>;
+  queryLeads(query: LeadQuery): Promise<{ leads: Lead[]; total: number }>;
+  listSearches(): Promise<SearchRecord[]>;
+}
@@ -0,0 +1,114 @@
+/**
+ * Phone normalization - turns the numbers stores print on their pages into E.164,
+ * using the search region as the country for numbers written in national format.
+ */
+
+interface CountryPlan {
+  iso: string;
+  callingCode: string;
+  // Dialled before national numbers and dropped in international format
+  trunkPrefix: string;
+  // Length range of the national significant number
+  nsnLength: [number, number];
+  // Lower-case names a search region may use for the country
+  names: string[];
+}
+
+// Numbering plans for the markets we search
+const COUNTRIES: CountryPlan[] = [
+  { iso: 'IE', callingCode: '353', trunkPrefix: '0', nsnLength: [7, 9], names: ['ireland', 'eire', 'republic of ireland'] },
+  { iso: 'GB', callingCode: '44', trunkPrefix: '0', nsnLength: [9, 10], names: ['united kingdom', 'uk', 'great britain', 'britain', 'england', 'scotland', 'wales', 'northern ireland'] },
+  { iso: 'US', callingCode: '1', trunkPrefix: '', nsnLength: [10, 10], names: ['united states', 'usa', 'us', 'america', 'united states of america'] },
+  { iso: 'CA', callingCode: '1', trunkPrefix: '', nsnLength: [10, 10], names: ['canada'] },
+  { iso: 'AU', callingCode: '61', trunkPrefix: '0', nsnLength: [9, 9], names: ['australia'] },
+  { iso: 'NZ', callingCode: '64', trunkPrefix: '0', nsnLength: [8, 10], names: ['new zealand'] },
+  { iso: 'IN', callingCode: '91', trunkPrefix: '0', nsnLength: [10, 10], names: ['india'] },
+  { iso: 'ZA', callingCode: '27', trunkPrefix: '0', nsnLength: [9, 9], names: ['south africa'] },
+  { iso: 'DE', callingCode: '49', trunkPrefix: '0', nsnLength: [6, 11], names: ['germany', 'deutschland'] },
+  { iso: 'FR', callingCode: '33', trunkPrefix: '0', nsnLength: [9, 9], names: ['france'] },
+  { iso: 'ES', callingCode: '34', trunkPrefix: '', nsnLength: [9, 9], names: ['spain', 'espana'] },
+  { iso: 'IT', callingCode: '39', trunkPrefix: '', nsnLength: [6, 11], names: ['italy', 'italia'] },
+  { iso: 'NL', callingCode: '31', trunkPrefix: '0', nsnLength: [9, 9], names: ['netherlands', 'holland', 'the netherlands'] },
+  { iso: 'BE', callingCode: '32', trunkPrefix: '0', nsnLength: [8, 9], names: ['belgium'] },
+  { iso: 'AT', callingCode: '43', trunkPrefix: '0', nsnLength: [4, 13], names: ['austria'] },
+  { iso: 'CH', callingCode: '41', trunkPrefix: '0', nsnLength: [9, 9], names: ['switzerland'] },
+  { iso: 'SE', callingCode: '46', trunkPrefix: '0', nsnLength: [7, 9], names: ['sweden'] },
+  { iso: 'NO', callingCode: '47', trunkPrefix: '', nsnLength: [8, 8], names: ['norway'] },
+  { iso: 'DK', callingCode: '45', trunkPrefix: '', nsnLength: [8, 8], names: ['denmark'] },
+  { iso: 'FI', callingCode: '358', trunkPrefix: '0', nsnLength: [5, 10], names: ['finland'] },
+  { iso: 'PL', callingCode: '48', trunkPrefix: '', nsnLength: [9, 9], names: ['poland'] },
+  { iso: 'PT', callingCode: '351', trunkPrefix: '', nsnLength: [9, 9], names: ['portugal'] },
+  { iso: 'BR', callingCode: '55', trunkPrefix: '0', nsnLength: [10, 11], names: ['brazil', 'brasil'] },
+  { iso: 'MX', callingCode: '52', trunkPrefix: '', nsnLength: [10, 10], names: ['mexico'] },
+  { iso: 'SG', callingCode: '65', trunkPrefix: '', nsnLength: [8, 8], names: ['singapore'] },
+  { iso: 'MY', callingCode: '60', trunkPrefix: '0', nsnLength: [8, 10], names: ['malaysia'] },
+  { iso: 'AE', callingCode: '971', trunkPrefix: '0', nsnLength: [8, 9], names: ['united arab emirates', 'uae', 'dubai'] },
+  { iso: 'PH', callingCode: '63', trunkPrefix: '0', nsnLength: [8, 10], names: ['philippines'] },
+  { iso: 'NG', callingCode: '234', trunkPrefix: '0', nsnLength: [8, 10], names: ['nigeria'] },
+  { iso: 'KE', callingCode: '254', trunkPrefix: '0', nsnLength: [9, 9], names: ['kenya'] },
+  { iso: 'JP', callingCode: '81', trunkPrefix: '0', nsnLength: [9, 10], names: ['japan'] },
+];
+
+const BY_ISO = new Map(COUNTRIES.map(country => [country.iso, country]));
+
+/**
+ * ISO code of the country a free-text search region refers to, e.g. `IE` for
+ * `Dublin, Ireland`. Null when the region names no country we know.
+ */
+export function countryFromRegion(region?: string): string | null {
+  if (!region) return null;
+
+  // The country is usually the last part of `City, County, Country`
+  const parts = region.toLowerCase().split(/[,/]/).map(part => part.trim()).filter(Boolean).reverse();
+  for (const part of [...parts, region.toLowerCase().trim()]) {
+    if (part.length === 2 && BY_ISO.has(part.toUpperCase())) return part.toUpperCase();
+    const country = COUNTRIES.find(plan => plan.names.includes(part));
+    if (country) return country.iso;
+  }
+
+  return null;
+}
+
+/**
+ * Normalize a printed number to E.164. International numbers (`+`/`00`) are
+ * checked against their country's plan; national ones need `defaultCountry`.
+ */
+export function normalizePhone(raw: string, defaultCountry?: string | null): string | null {
+  // Drop extensions and the `(0)` some sites print inside international numbers
+  const number = raw.split(/\s*(?:ext\.?|extension|x|#)\s*\d+\s*$/i)[0].replace(/\(0\)/g, '');
+  const digits = number.replace(/\D/g, '');
+
+  if (/^\s*(\+|00)/.test(number)) {
+    const international = digits.replace(/^00/, '');
+    const country = COUNTRIES
+      .filter(plan => international.startsWith(plan.callingCode))
+      .sort((a, b) => b.callingCode.length - a.callingCode.length)[0];
+
+    if (country) {
+      const nsn = international.slice(country.callingCode.length);
+      return fitsPlan(nsn, country) ? `+${international}` : null;
+    }
+    return international.length >= 8 && international.length <= 15 && !isFiller(international) ? `+${international}` : null;
+  }
+
+  const country = defaultCountry ? BY_ISO.get(defaultCountry) : undefined;
+  if (!country) return null;
+
+  let nsn = digits;
+  if (country.trunkPrefix && nsn.startsWith(country.trunkPrefix)) {
+    nsn = nsn.slice(country.trunkPrefix.length);
+  } else if (!country.trunkPrefix && nsn.startsWith(country.callingCode) && nsn.length > country.nsnLength[1]) {
+    // Written with the country code but no `+`, e.g. `1 (555) 010-0100`
+    nsn = nsn.slice(country.callingCode.length);
+  }
+
+  return fitsPlan(nsn, country) ? `+${country.callingCode}${nsn}` : null;
+}
+
+function fitsPlan(nsn: string, country: CountryPlan): boolean {
+  const [min, max] = country.nsnLength;
+  return nsn.length >= min && nsn.length <= max && !isFiller(nsn);
+}
+
+// Runs of one digit are filler, not numbers
+const isFiller = (digits: string) => /^(\d)\1+$/.test(digits);
@@ -0,0 +1,170 @@
+/**
+ * Platform fingerprinting - works out which e-commerce platform powers a site
+ * from the response headers, cookies, asset hosts and markup of its homepage.
+ */
+
+export type PlatformName = 'shopify' | 'woocommerce' | 'magento' | 'bigcommerce' | 'wix' | 'squarespace' | 'unknown';
+
+export type EvidenceType = 'header' | 'cookie' | 'asset' | 'meta' | 'html';
+
+export interface PlatformEvidence {
+  type: EvidenceType;
+  match: string;
+}
+
+export interface PlatformMatch {
+  name: PlatformName;
+  confidence: number;
+  evidence: PlatformEvidence[];
+}
+
+// A single fingerprint. `pattern` is tested against the value for its type:
+// header names/values, cookie names, asset hostnames/paths, the meta generator or raw HTML.
+interface PlatformRule {
+  type: EvidenceType;
+  pattern: RegExp;
+  weight: number;
+}
+
+const PLATFORM_RULES: Record<Exclude<PlatformName, 'unknown'>, PlatformRule[]> = {
+  shopify: [
+    { type: 'header', pattern: /^x-shopid:/i, weight: 0.9 },
+    { type: 'header', pattern: /^x-shopify-stage:/i, weight: 0.9 },
+    { type: 'header', pattern: /^powered-by:\s*shopify/i, weight: 0.9 },
+    { type: 'cookie', pattern: /^(_shopify_y|_shopify_s|secure_customer_sig|cart_sig|_shopify_essential)$/, weight: 0.8 },
+    { type: 'asset', pattern: /^cdn\.shopify\.com$/, weight: 0.7 },
+    { type: 'asset', pattern: /\.myshopify\.com$/, weight: 0.8 },
+    { type: 'html', pattern: /Shopify\.theme\s*=/, weight: 0.7 },
+    { type: 'html', pattern: /window\.ShopifyAnalytics/, weight: 0.6 },
+  ],
+  woocommerce: [
+    { type: 'meta', pattern: /^WooCommerce/i, weight: 0.9 },
+    { type: 'cookie', pattern: /^(woocommerce_items_in_cart|woocommerce_cart_hash|wp_woocommerce_session_)/, weight: 0.8 },
+    { type: 'asset', pattern: /\/wp-content\/plugins\/woocommerce\//, weight: 0.8 },
+    { type: 'html', pattern: /class="[^"]*\bwoocommerce\b/, weight: 0.5 },
+    { type: 'html', pattern: /wc_add_to_cart_params/, weight: 0.6 },
+  ],
+  magento: [
+    { type: 'header', pattern: /^x-magento-(cache-debug|tags|vary):/i, weight: 0.9 },
+    { type: 'meta', pattern: /^Magento/i, weight: 0.9 },
+    { type: 'asset', pattern: /\/static\/version\d+\/frontend\//, weight: 0.8 },
+    { type: 'html', pattern: /text\/x-magento-init/, weight: 0.8 },
+    { type: 'html', pattern: /data-mage-init=/, weight: 0.6 },
+    { type: 'html', pattern: /Mage\.Cookies/, weight: 0.6 },
+  ],
+  bigcommerce: [
+    { type: 'header', pattern: /^x-bc-/i, weight: 0.8 },
+    { type: 'cookie', pattern: /^(SHOP_SESSION_TOKEN|fornax_anonymousId|SF-CSRF-TOKEN)$/, weight: 0.7 },
+    { type: 'asset', pattern: /^cdn\d*\.bigcommerce\.com$/, weight: 0.8 },
+    { type: 'html', pattern: /BCData\s*=/, weight: 0.6 },
+    { type: 'html', pattern: /stencil-utils/, weight: 0.5 },
+  ],
+  wix: [
+    { type: 'header', pattern: /^x-wix-request-id:/i, weight: 0.9 },
+    { type: 'meta', pattern: /^Wix\.com/i, weight: 0.9 },
+    { type: 'asset', pattern: /^static\.wixstatic\.com$/, weight: 0.7 },
+    { type: 'asset', pattern: /^static\.parastorage\.com$/, weight: 0.7 },
+  ],
+  squarespace: [
+    { type: 'header', pattern: /^server:\s*squarespace/i, weight: 0.9 },
+    { type: 'cookie', pattern: /^(ss_cvr|ss_cvt|crumb)$/, weight: 0.4 },
+    { type: 'asset', pattern: /^(static1|images)\.squarespace(-cdn)?\.com$/, weight: 0.7 },
+    { type: 'html', pattern: /<!-- This is Squarespace\. -->/, weight: 0.9 },
+    { type: 'html', pattern: /Static\.SQUARESPACE_CONTEXT/, weight: 0.8 },
+  ],
+};
+
+export const KNOWN_PLATFORMS = Object.keys(PLATFORM_RULES) as Exclude<PlatformName, 'unknown'>[];
+
+// Below this a platform is reported as `unknown` rather than a weak guess.
+const MIN_CONFIDENCE = 0.5;
+
+export interface PageSnapshot {
+  headers: Headers;
+  html: string;
+}
+
+// The values each evidence type's patterns are tested against
+export type PageSignals = Record<EvidenceType, string[]>;
+
+export function collectSignals(page: PageSnapshot): PageSignals {
+  return {
+    header: collectHeaders(page.headers),
+    cookie: collectCookieNames(page.headers),
+    asset: collectAssets(page.html),
+    meta: collectGenerators(page.html),
+    html: [page.html],
+  };
+}
+
+export function detectPlatform(page: PageSnapshot, signals: PageSignals = collectSignals(page)): PlatformMatch {
+  let best: PlatformMatch = { name: 'unknown', confidence: 0, evidence: [] };
+
+  for (const [name, rules] of Object.entries(PLATFORM_RULES)) {
+    const evidence: PlatformEvidence[] = [];
+    // Independent signals: each one only reduces the remaining doubt
+    let doubt = 1;
+
+    for (const rule of rules) {
+      const hit = signals[rule.type].find(value => rule.pattern.test(value));
+      if (hit === undefined) continue;
+
+      evidence.push({ type: rule.type, match: rule.type === 'html' ? rule.pattern.source : hit });
+      doubt *= 1 - rule.weight;
+    }
+
+    const confidence = Math.round((1 - doubt) * 100) / 100;
+    if (confidence > best.confidence) {
+      best = { name: name as PlatformName, confidence, evidence };
+    }
+  }
+
+  if (best.confidence < MIN_CONFIDENCE) {
+    return { name: 'unknown', confidence: best.confidence, evidence: best.evidence };
+  }
+
+  return best;
+}
+
+function collectHeaders(headers: Headers): string[] {
+  const values: string[] = [];
+  headers.forEach((value, key) => values.push(`${key}: ${value}`));
+  return values;
+}
+
+function collectCookieNames(headers: Headers): string[] {
+  const cookies = typeof headers.getSetCookie === 'function' ? headers.getSetCookie() : [headers.get('set-cookie') || ''];
+  return cookies
+    .map(cookie => cookie.split('=')[0].trim())
+    .filter(Boolean);
+}
+
+// Hostnames and paths of every script, stylesheet, image and link on the page
+function collectAssets(html: string): string[] {
+  const assets = new Set<string>();
+  const attrRegex = /\b(?:src|href)\s*=\s*["']([^"']+)["']/gi;
+
+  for (const [, value] of html.matchAll(attrRegex)) {
+    try {
+      const parsed = new URL(value, 'https://relative.invalid');
+      if (parsed.hostname !== 'relative.invalid') assets.add(parsed.hostname);
+      assets.add(parsed.pathname);
+    } catch {
+      // Ignore malformed attribute values
+    }
+  }
+
+  return [...assets];
+}
+
+function collectGenerators(html: string): string[] {
+  const generators: string[] = [];
+  const metaRegex = /<meta\s[^>]*name=["']generator["'][^>]*>/gi;
+
+  for (const [tag] of html.matchAll(metaRegex)) {
+    const content = tag.match(/content=["']([^"']*)["']/i);
+    if (content) generators.push(content[1]);
+  }
+
+  return generators;
+}
@@ -0,0 +1,51 @@
+/**
+ * Progress streaming - the long-running endpoints report over Server-Sent Events
+ * instead of a single JSON body when the client asks for `text/event-stream`.
+ */
+
+import { Context } from 'hono';
+import { streamSSE } from 'hono/streaming';
+
+export type ProgressStage = 'search' | 'check' | 'email';
+
+// Sent as the SSE event name with the remaining fields as JSON data
+export type ProgressEvent =
+  | { type: 'progress'; stage: ProgressStage; done: number; total: number }
+  // One finished site; `index` is its position in the request
+  | { type: 'site'; stage: ProgressStage; index: number; url: string; result: unknown }
+  | { type: 'error'; stage: ProgressStage; index?: number; url?: string; message: string }
+  // Last event of a successful stream; `result` carries whatever the site events did not
+  | { type: 'done'; stage: ProgressStage; result?: unknown };
+
+export type EmitProgress = (event: ProgressEvent) => Promise<void>;
+
+export function wantsEventStream(c: Context): boolean {
+  return (c.req.header('Accept') || '').includes('text/event-stream');
+}
+
+/**
+ * Run `task`, streaming every event it emits. A thrown error ends the stream with
+ * an `error` event and no `done`. `signal` aborts when the client disconnects.
+ */
+export function streamProgress(
+  c: Context,
+  stage: ProgressStage,
+  task: (emit: EmitProgress, signal: AbortSignal) => Promise<void>,
+): Response {
+  return streamSSE(c, async (stream) => {
+    const controller = new AbortController();
+    stream.onAbort(() => controller.abort());
+
+    let id = 0;
+    const emit: EmitProgress = async ({ type, ...data }) => {
+      if (!stream.aborted) await stream.writeSSE({ event: type, data: JSON.stringify(data), id: String(id++) });
+    };
+
+    try {
+      await task(emit, controller.signal);
+    } catch (err) {
+      console.error(`Streamed ${stage} failed:`, err);
+      await emit({ type: 'error', stage, message: err instanceof Error ? err.message : String(err) });
+    }
+  });
+}
@@ -0,0 +1,64 @@
+import { ScoringProfile, ScoringProfileInput, ScoringProfileStore } from './types';
+
+interface ProfileRow {
+  id: string;
+  name: string;
+  config: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export class D1ScoringProfileStore implements ScoringProfileStore {
+  constructor(private db: D1Database) {}
+
+  async listProfiles(): Promise<ScoringProfile[]> {
+    const { results } = await this.db.prepare('SELECT * FROM scoring_profiles ORDER BY name').all<ProfileRow>();
+    return results.map(toProfile);
+  }
+
+  async getProfile(id: string): Promise<ScoringProfile | null> {
+    const row = await this.db.prepare('SELECT * FROM scoring_profiles WHERE id = ?').bind(id).first<ProfileRow>();
+    return row ? toProfile(row) : null;
+  }
+
+  async createProfile(input: ScoringProfileInput): Promise<ScoringProfile> {
+    const now = new Date().toISOString();
+    const profile: ScoringProfile = { ...input, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+
+    await this.db
+      .prepare('INSERT INTO scoring_profiles (id, name, config, created_at, updated_at) VALUES (?, ?, ?, ?, ?)')
+      .bind(profile.id, profile.name, toConfig(input), now, now)
+      .run();
+    return profile;
+  }
+
+  async updateProfile(id: string, input: ScoringProfileInput): Promise<ScoringProfile | null> {
+    const row = await this.db
+      .prepare('UPDATE scoring_profiles SET name = ?, config = ?, updated_at = ? WHERE id = ? RETURNING *')
+      .bind(input.name, toConfig(input), new Date().toISOString(), id)
+      .first<ProfileRow>();
+    return row ? toProfile(row) : null;
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    const { meta } = await this.db.prepare('DELETE FROM scoring_profiles WHERE id = ?').bind(id).run();
+    return meta.changes > 0;
+  }
+}
+
+function toConfig({ weights, platforms, techCategories }: ScoringProfileInput): string {
+  return JSON.stringify({ weights, platforms, techCategories });
+}
+
+function toProfile(row: ProfileRow): ScoringProfile {
+  const { weights, platforms = [], techCategories = [] } = JSON.parse(row.config);
+  return {
+    id: row.id,
+    name: row.name,
+    weights,
+    platforms,
+    techCategories,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
@@ -0,0 +1,11 @@
+import { D1ScoringProfileStore } from './d1';
+import { MemoryScoringProfileStore } from './memory';
+import { ScoringProfileStore } from './types';
+
+export * from './types';
+export { DEFAULT_PROFILE, parseProfileInput, SCORE_SIGNALS, scoreLead } from './score';
+
+// D1 when bound, in-memory otherwise
+export function getScoringProfileStore(env: Env): ScoringProfileStore {
+  return env.DB ? new D1ScoringProfileStore(env.DB) : new MemoryScoringProfileStore();
+}
@@ -0,0 +1,34 @@
+import { ScoringProfile, ScoringProfileInput, ScoringProfileStore } from './types';
+
+// Lives as long as the isolate; used when no D1 database is bound
+const profiles = new Map<string, ScoringProfile>();
+
+export class MemoryScoringProfileStore implements ScoringProfileStore {
+  async listProfiles(): Promise<ScoringProfile[]> {
+    return [...profiles.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getProfile(id: string): Promise<ScoringProfile | null> {
+    return profiles.get(id) || null;
+  }
+
+  async createProfile(input: ScoringProfileInput): Promise<ScoringProfile> {
+    const now = new Date().toISOString();
+    const profile: ScoringProfile = { ...input, id: crypto.randomUUID(), createdAt: now, updatedAt: now };
+    profiles.set(profile.id, profile);
+    return profile;
+  }
+
+  async updateProfile(id: string, input: ScoringProfileInput): Promise<ScoringProfile | null> {
+    const existing = profiles.get(id);
+    if (!existing) return null;
+
+    const profile: ScoringProfile = { ...existing, ...input, updatedAt: new Date().toISOString() };
+    profiles.set(id, profile);
+    return profile;
+  }
+
+  async deleteProfile(id: string): Promise<boolean> {
+    return profiles.delete(id);
+  }
+}
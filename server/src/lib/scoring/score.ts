@@ -0,0 +1,171 @@
+import { EmailValidity } from '../emailValidation';
+import { KNOWN_PLATFORMS } from '../platform';
+import { TECH_CATEGORIES } from '../techStack';
+import { LeadScore, ScoreComponent, ScoreInput, ScoreSignal, ScoringProfile, ScoringProfileInput } from './types';
+
+export const SCORE_SIGNALS: ScoreSignal[] = [
+  'active_domain', 'fast_loading', 'platform', 'tech_stack', 'contacts', 'email', 'independent_store',
+];
+
+export const MAX_WEIGHT = 10;
+const MAX_NAME_LENGTH = 80;
+
+// Always available and never stored, so there is something to score with before any profile is saved
+export const DEFAULT_PROFILE: ScoringProfile = {
+  id: 'default',
+  name: 'Default',
+  weights: {
+    active_domain: 3,
+    fast_loading: 1,
+    platform: 2,
+    tech_stack: 2,
+    contacts: 2,
+    email: 4,
+    independent_store: 4,
+  },
+  platforms: [],
+  techCategories: [],
+  createdAt: '1970-01-01T00:00:00.000Z',
+  updatedAt: '1970-01-01T00:00:00.000Z',
+};
+
+// A deliverable address beats a guess; an address that bounces is as good as none
+const EMAIL_VALUES: Record<EmailValidity, number> = { valid: 1, risky: 0.5, unknown: 0.5, invalid: 0 };
+
+/**
+ * Score a lead 0-100 under `profile`. Each signal earns its weight's share of the
+ * score in proportion to how fully the lead meets it.
+ */
+export function scoreLead(input: ScoreInput, profile: ScoringProfile): LeadScore {
+  const total = SCORE_SIGNALS.reduce((sum, signal) => sum + profile.weights[signal], 0);
+  const breakdown: ScoreComponent[] = [];
+  let score = 0;
+
+  for (const signal of SCORE_SIGNALS) {
+    const weight = profile.weights[signal];
+    if (!weight || !total) continue;
+
+    const { value, reason } = evaluate(signal, input, profile);
+    const max = (weight / total) * 100;
+    score += value * max;
+    breakdown.push({ signal, value, points: round(value * max), max: round(max), reason });
+  }
+
+  return { link: input.link, score: Math.round(score), profileId: profile.id, breakdown };
+}
+
+function evaluate(signal: ScoreSignal, input: ScoreInput, profile: ScoringProfile): { value: number; reason: string } {
+  switch (signal) {
+    case 'active_domain':
+      if (input.isDomainActive === undefined) return { value: 0, reason: 'Not checked yet' };
+      return input.isDomainActive ? { value: 1, reason: 'Domain is live' } : { value: 0, reason: 'Domain did not respond' };
+
+    case 'fast_loading':
+      if (input.loadsFast === undefined) return { value: 0, reason: 'Not checked yet' };
+      return input.loadsFast ? { value: 1, reason: 'Homepage loads fast' } : { value: 0, reason: 'Homepage is slow or down' };
+
+    case 'platform': {
+      if (!input.platform) return { value: 0, reason: 'Not checked yet' };
+      const { name } = input.platform;
+      if (name === 'unknown') return { value: 0, reason: 'No e-commerce platform detected' };
+      if (profile.platforms.length && !profile.platforms.includes(name)) {
+        return { value: 0, reason: `Runs ${name}, not a target platform` };
+      }
+      return { value: 1, reason: `Runs ${name}` };
+    }
+
+    case 'tech_stack': {
+      if (!input.tech) return { value: 0, reason: 'Not checked yet' };
+      const wanted = profile.techCategories;
+      const matching = input.tech.filter(tech => !wanted.length || wanted.includes(tech.category));
+      if (!matching.length) {
+        return { value: 0, reason: wanted.length ? `None of: ${wanted.join(', ')}` : 'No marketing tools detected' };
+      }
+
+      // With target categories, each one covered counts; otherwise three tools is a full stack
+      const categories = new Set(matching.map(tech => tech.category));
+      const value = wanted.length ? categories.size / wanted.length : Math.min(matching.length / 3, 1);
+      return { value: round(value, 2), reason: `Uses ${matching.map(tech => tech.name).join(', ')}` };
+    }
+
+    case 'contacts': {
+      const contacts = input.contacts;
+      if (!contacts) return { value: 0, reason: 'Not fetched yet' };
+
+      const found: string[] = [];
+      let value = 0;
+      if (contacts.phones.length) {
+        value += 0.4;
+        found.push(`${contacts.phones.length} phone${contacts.phones.length === 1 ? '' : 's'}`);
+      }
+      const networks = Object.keys(contacts.socials);
+      if (networks.length) {
+        value += 0.4;
+        found.push(networks.join(', '));
+      }
+      if (contacts.whatsapp || contacts.telegram) {
+        value += 0.2;
+        found.push(contacts.whatsapp ? 'WhatsApp' : 'Telegram');
+      }
+      return found.length ? { value: round(value, 2), reason: found.join(', ') } : { value: 0, reason: 'No phone or social profiles' };
+    }
+
+    case 'email': {
+      if (!input.emails) return { value: 0, reason: 'Not fetched yet' };
+      if (!input.emails.length) return { value: 0, reason: 'No email found' };
+
+      const best = input.emails.reduce((a, b) => (EMAIL_VALUES[b.status] > EMAIL_VALUES[a.status] ? b : a));
+      return { value: EMAIL_VALUES[best.status], reason: `${best.address} (${best.status})` };
+    }
+
+    case 'independent_store': {
+      const classification = input.classification;
+      if (!classification) return { value: 0, reason: 'Not classified' };
+      if (classification.category !== 'independent_store') {
+        return { value: 0, reason: `Classified as ${classification.category.replace('_', ' ')}` };
+      }
+      return { value: 1, reason: classification.reasons[0] ? `Independent store: ${classification.reasons[0]}` : 'Independent store' };
+    }
+  }
+}
+
+function round(value: number, digits = 1): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+export function parseProfileInput(body: any): { input?: ScoringProfileInput; error?: string } {
+  const { name, weights, platforms = [], techCategories = [] } = body || {};
+
+  if (typeof name !== 'string' || !name.trim() || name.length > MAX_NAME_LENGTH) {
+    return { error: `name must be a non-empty string of at most ${MAX_NAME_LENGTH} characters` };
+  }
+  if (!weights || typeof weights !== 'object') {
+    return { error: 'weights is required' };
+  }
+
+  const parsed = {} as ScoringProfileInput['weights'];
+  for (const signal of SCORE_SIGNALS) {
+    const weight = weights[signal] ?? 0;
+    if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > MAX_WEIGHT) {
+      return { error: `weights.${signal} must be a number between 0 and ${MAX_WEIGHT}` };
+    }
+    parsed[signal] = weight;
+  }
+
+  if (!Array.isArray(platforms) || platforms.some(platform => !KNOWN_PLATFORMS.includes(platform))) {
+    return { error: `platforms must be a list of: ${KNOWN_PLATFORMS.join(', ')}` };
+  }
+  if (!Array.isArray(techCategories) || techCategories.some(category => !TECH_CATEGORIES.includes(category))) {
+    return { error: `techCategories must be a list of: ${TECH_CATEGORIES.join(', ')}` };
+  }
+
+  return {
+    input: {
+      name: name.trim(),
+      weights: parsed,
+      platforms: [...new Set<string>(platforms)] as ScoringProfileInput['platforms'],
+      techCategories: [...new Set<string>(techCategories)] as ScoringProfileInput['techCategories'],
+    },
+  };
+}
@@ -0,0 +1,66 @@
+import { SiteClassification } from '../classify';
+import { SiteContacts } from '../contacts';
+import { EmailRecord } from '../emailValidation';
+import { PlatformMatch, PlatformName } from '../platform';
+import { DetectedTechnology, TechCategory } from '../techStack';
+
+export type ScoreSignal =
+  | 'active_domain'
+  | 'fast_loading'
+  | 'platform'
+  | 'tech_stack'
+  | 'contacts'
+  | 'email'
+  | 'independent_store';
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  // Relative importance of each signal, 0-10; 0 leaves the signal out of the score
+  weights: Record<ScoreSignal, number>;
+  // Platforms that earn the `platform` points; empty means any identified platform
+  platforms: Exclude<PlatformName, 'unknown'>[];
+  // Tech categories that earn the `tech_stack` points; empty means any
+  techCategories: TechCategory[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ScoringProfileInput = Pick<ScoringProfile, 'name' | 'weights' | 'platforms' | 'techCategories'>;
+
+// Whatever is known about a lead so far; missing signals score nothing
+export interface ScoreInput {
+  link: string;
+  isDomainActive?: boolean;
+  loadsFast?: boolean;
+  platform?: PlatformMatch;
+  tech?: DetectedTechnology[];
+  classification?: SiteClassification;
+  emails?: EmailRecord[];
+  contacts?: SiteContacts;
+}
+
+export interface ScoreComponent {
+  signal: ScoreSignal;
+  // 0-1, how fully the lead meets the signal
+  value: number;
+  // Share of the 0-100 score this signal earned, out of `max`
+  points: number;
+  max: number;
+  reason: string;
+}
+
+export interface LeadScore {
+  link: string;
+  score: number;
+  profileId: string;
+  breakdown: ScoreComponent[];
+}
+
+export interface ScoringProfileStore {
+  listProfiles(): Promise<ScoringProfile[]>;
+  getProfile(id: string): Promise<ScoringProfile | null>;
+  createProfile(input: ScoringProfileInput): Promise<ScoringProfile>;
+  updateProfile(id: string, input: ScoringProfileInput): Promise<ScoringProfile | null>;
+  deleteProfile(id: string): Promise<boolean>;
+}
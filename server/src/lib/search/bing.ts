@@ -0,0 +1,32 @@
+import axios from 'axios';
+import { SearchPage, SearchProvider, SearchQuery } from './types';
+
+// Bing Web Search API v7
+export class BingProvider implements SearchProvider {
+  readonly name = 'bing' as const;
+  readonly maxPageSize = 50;
+
+  constructor(private apiKey: string) {}
+
+  async search({ query, page, pageSize }: SearchQuery): Promise<SearchPage> {
+    const count = Math.min(pageSize, this.maxPageSize);
+    const offset = page * count;
+    const url = `https://api.bing.microsoft.com/v7.0/search?q=${encodeURIComponent(query)}&count=${count}&offset=${offset}&responseFilter=Webpages`;
+    const res = await axios.get(url, {
+      headers: { 'Ocp-Apim-Subscription-Key': this.apiKey },
+    });
+
+    const webPages: { value?: { name?: string; url?: string }[]; totalEstimatedMatches?: number } = res.data.webPages || {};
+    const results = (webPages.value || [])
+      .filter(item => item.name && item.url)
+      .map((item, index) => ({
+        title: item.name!,
+        link: item.url!,
+        position: offset + index + 1,
+        source: this.name,
+      }));
+
+    const hasMore = results.length > 0 && offset + count < (webPages.totalEstimatedMatches || 0);
+    return { results, hasMore };
+  }
+}
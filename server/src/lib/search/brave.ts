@@ -0,0 +1,35 @@
+import axios from 'axios';
+import { SearchPage, SearchProvider, SearchQuery } from './types';
+
+// Brave's offset counts pages, not results, and stops at 9
+const MAX_OFFSET = 9;
+
+export class BraveProvider implements SearchProvider {
+  readonly name = 'brave' as const;
+  readonly maxPageSize = 20;
+
+  constructor(private apiKey: string) {}
+
+  async search({ query, page, pageSize }: SearchQuery): Promise<SearchPage> {
+    if (page > MAX_OFFSET) return { results: [], hasMore: false };
+
+    const count = Math.min(pageSize, this.maxPageSize);
+    const url = `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=${count}&offset=${page}`;
+    const res = await axios.get(url, {
+      headers: { Accept: 'application/json', 'X-Subscription-Token': this.apiKey },
+    });
+
+    const webResults: { title?: string; url?: string }[] = res.data.web?.results || [];
+    const results = webResults
+      .filter(item => item.title && item.url)
+      .map((item, index) => ({
+        title: item.title!,
+        link: item.url!,
+        position: page * count + index + 1,
+        source: this.name,
+      }));
+
+    const hasMore = page < MAX_OFFSET && Boolean(res.data.query?.more_results_available);
+    return { results, hasMore };
+  }
+}
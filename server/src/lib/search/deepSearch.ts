@@ -0,0 +1,74 @@
+import { normalizeUrl } from '../url';
+import { SearchProvider, SearchResult } from './types';
+
+// Hard limits for one deep search
+export const MAX_SEARCH_COUNT = 1000;
+export const MAX_SEARCH_PAGES = 20;
+
+// Why a deep search stopped fetching pages
+export type StopReason = 'count_reached' | 'exhausted' | 'page_budget' | 'provider_error';
+
+export interface DeepSearchOptions {
+  // Unique domains wanted
+  count: number;
+  // Hard limit on the number of pages requested from the provider
+  maxPages: number;
+  // Called after every page with the running totals
+  onPage?: (progress: { pagesFetched: number; results: number }) => void | Promise<void>;
+}
+
+// A result with its link cleaned of tracking parameters
+export interface CanonicalSearchResult extends SearchResult {
+  domain: string;
+  homepage: string;
+}
+
+export interface DeepSearchResult {
+  results: CanonicalSearchResult[];
+  pagesFetched: number;
+  stopReason: StopReason;
+  error?: string;
+}
+
+/**
+ * Page through a provider until `count` unique domains are collected, the engine
+ * runs dry or the page budget is spent. Only the first result per registrable domain is kept.
+ */
+export async function deepSearch(provider: SearchProvider, query: string, options: DeepSearchOptions): Promise<DeepSearchResult> {
+  const { count, maxPages, onPage } = options;
+  const seenDomains = new Set<string>();
+  const results: CanonicalSearchResult[] = [];
+  let pagesFetched = 0;
+
+  while (pagesFetched < maxPages) {
+    let page;
+    try {
+      page = await provider.search({ query, page: pagesFetched, pageSize: provider.maxPageSize });
+    } catch (error: any) {
+      // Nothing collected yet means there is nothing useful to return
+      if (results.length === 0) throw error;
+      return { results, pagesFetched, stopReason: 'provider_error', error: error.message };
+    }
+    pagesFetched++;
+
+    for (const item of page.results) {
+      const normalized = normalizeUrl(item.link);
+      if (!normalized || seenDomains.has(normalized.domain)) continue;
+
+      seenDomains.add(normalized.domain);
+      results.push({ ...item, link: normalized.url, domain: normalized.domain, homepage: normalized.homepage });
+      if (results.length >= count) break;
+    }
+
+    await onPage?.({ pagesFetched, results: results.length });
+    if (results.length >= count) {
+      return { results, pagesFetched, stopReason: 'count_reached' };
+    }
+
+    if (!page.hasMore || page.results.length === 0) {
+      return { results, pagesFetched, stopReason: 'exhausted' };
+    }
+  }
+
+  return { results, pagesFetched, stopReason: 'page_budget' };
+}
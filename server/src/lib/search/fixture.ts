@@ -0,0 +1,35 @@
+import { SearchPage, SearchProvider, SearchQuery } from './types';
+import toothbrushIreland from '../data1';
+
+// Recorded result sets for offline development and tests
+const FIXTURES: Record<string, { title: string; link: string }[]> = {
+  'toothbrush-ireland': toothbrushIreland,
+};
+
+const DEFAULT_FIXTURE = 'toothbrush-ireland';
+
+export class FixtureProvider implements SearchProvider {
+  readonly name = 'fixture' as const;
+  readonly maxPageSize = 100;
+  private items: { title: string; link: string }[];
+
+  constructor(fixture = DEFAULT_FIXTURE) {
+    if (!FIXTURES[fixture]) {
+      throw new Error(`Unknown search fixture: ${fixture}`);
+    }
+    this.items = FIXTURES[fixture];
+  }
+
+  async search({ page, pageSize }: SearchQuery): Promise<SearchPage> {
+    const size = Math.min(pageSize, this.maxPageSize);
+    const start = page * size;
+    const results = this.items.slice(start, start + size).map((item, index) => ({
+      title: item.title,
+      link: item.link,
+      position: start + index + 1,
+      source: this.name,
+    }));
+
+    return { results, hasMore: start + size < this.items.length };
+  }
+}
@@ -0,0 +1,47 @@
+import { BingProvider } from './bing';
+import { BraveProvider } from './brave';
+import { FixtureProvider } from './fixture';
+import { SerpApiProvider } from './serpApi';
+import { SearchProvider, SearchProviderName } from './types';
+
+export * from './types';
+export * from './deepSearch';
+
+export const SEARCH_PROVIDERS: SearchProviderName[] = ['serpapi', 'bing', 'brave', 'fixture'];
+
+export interface SearchProviderKeys {
+  serpApiKey?: string;
+  bingApiKey?: string;
+  braveApiKey?: string;
+}
+
+export function isSearchProviderName(name: unknown): name is SearchProviderName {
+  return SEARCH_PROVIDERS.includes(name as SearchProviderName);
+}
+
+export function createSearchProvider(name: SearchProviderName, keys: SearchProviderKeys): SearchProvider {
+  switch (name) {
+    case 'serpapi':
+      return new SerpApiProvider(requireKey(keys.serpApiKey, 'SERP_API_KEY'));
+    case 'bing':
+      return new BingProvider(requireKey(keys.bingApiKey, 'BING_API_KEY'));
+    case 'brave':
+      return new BraveProvider(requireKey(keys.braveApiKey, 'BRAVE_API_KEY'));
+    case 'fixture':
+      return new FixtureProvider();
+  }
+}
+
+// Builds a provider from the worker's configured API keys
+export function createSearchProviderFromEnv(name: SearchProviderName, env: Env): SearchProvider {
+  return createSearchProvider(name, {
+    serpApiKey: env.SERP_API_KEY,
+    bingApiKey: env.BING_API_KEY,
+    braveApiKey: env.BRAVE_API_KEY,
+  });
+}
+
+function requireKey(key: string | undefined, variable: string): string {
+  if (!key) throw new Error(`${variable} is not configured`);
+  return key;
+}
@@ -0,0 +1,27 @@
+import axios from 'axios';
+import { SearchPage, SearchProvider, SearchQuery } from './types';
+
+export class SerpApiProvider implements SearchProvider {
+  readonly name = 'serpapi' as const;
+  readonly maxPageSize = 100;
+
+  constructor(private apiKey: string) {}
+
+  async search({ query, page, pageSize }: SearchQuery): Promise<SearchPage> {
+    const num = Math.min(pageSize, this.maxPageSize);
+    const url = `https://serpapi.com/search.json?engine=google&q=${encodeURIComponent(query)}&start=${page * num}&num=${num}&api_key=${this.apiKey}`;
+    const res = await axios.get(url);
+
+    const organicResults: { title?: string; link?: string; position?: number }[] = res.data.organic_results || [];
+    const results = organicResults
+      .filter(item => item.title && item.link)
+      .map((item, index) => ({
+        title: item.title!,
+        link: item.link!,
+        position: item.position || page * num + index + 1,
+        source: this.name,
+      }));
+
+    return { results, hasMore: Boolean(res.data.serpapi_pagination?.next) };
+  }
+}
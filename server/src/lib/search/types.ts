@@ -0,0 +1,28 @@
+export type SearchProviderName = 'serpapi' | 'bing' | 'brave' | 'fixture';
+
+// One organic result, in the same shape whichever engine produced it
+export interface SearchResult {
+  title: string;
+  link: string;
+  position: number;
+  source: SearchProviderName;
+}
+
+export interface SearchQuery {
+  query: string;
+  // Zero-based page index
+  page: number;
+  pageSize: number;
+}
+
+export interface SearchPage {
+  results: SearchResult[];
+  hasMore: boolean;
+}
+
+export interface SearchProvider {
+  name: SearchProviderName;
+  // Largest page the engine will return in one request
+  maxPageSize: number;
+  search(query: SearchQuery): Promise<SearchPage>;
+}
@@ -0,0 +1,138 @@
+/**
+ * Shopify enrichment - catalogue size, prices, locale, theme and installed apps of a
+ * Shopify store, read from its public storefront endpoints and homepage markup.
+ */
+
+import { DetectedTechnology, shopifyApps } from './techStack';
+
+export interface ShopifyStoreInfo {
+  shopName?: string;
+  myshopifyDomain?: string;
+  productCount?: number;
+  // The count stopped at the page budget; the store has at least this many products
+  productCountCapped: boolean;
+  priceRange?: { min: number; max: number };
+  currency?: string;
+  // ISO 3166-1 alpha-2
+  country?: string;
+  theme?: string;
+  // Creation date of the newest product seen, as an activity signal
+  newestProductAt?: string;
+  apps: string[];
+}
+
+interface StorefrontProduct {
+  created_at?: string;
+  published_at?: string;
+  variants?: { price?: string }[];
+}
+
+// products.json serves at most 250 products a page
+const PAGE_SIZE = 250;
+const MAX_PRODUCT_PAGES = 4;
+// Budget for all enrichment requests to one store
+const ENRICH_TIMEOUT = 15000;
+
+/**
+ * Enrich a store already identified as Shopify, whose homepage `tech` was detected in.
+ * Every source is optional: whatever the store does not expose is left undefined.
+ */
+export async function enrichShopifyStore(homepage: string, html: string, tech: DetectedTechnology[]): Promise<ShopifyStoreInfo> {
+  const origin = new URL(homepage).origin;
+  const signal = AbortSignal.timeout(ENRICH_TIMEOUT);
+  const storefront = readStorefrontGlobals(html);
+
+  const info: ShopifyStoreInfo = {
+    myshopifyDomain: storefront.shop,
+    productCountCapped: false,
+    currency: storefront.currency,
+    country: storefront.country,
+    theme: storefront.theme,
+    apps: shopifyApps(tech),
+  };
+
+  const [meta, products] = await Promise.all([
+    fetchJson<Record<string, unknown>>(`${origin}/meta.json`, signal),
+    fetchProducts(origin, signal),
+  ]);
+
+  if (meta) {
+    if (typeof meta.name === 'string') info.shopName = meta.name;
+    if (typeof meta.myshopify_domain === 'string') info.myshopifyDomain = meta.myshopify_domain;
+    if (typeof meta.currency === 'string') info.currency ??= meta.currency;
+    if (typeof meta.country === 'string') info.country ??= meta.country;
+  }
+
+  if (products) {
+    info.productCount = products.items.length;
+    info.productCountCapped = products.capped;
+
+    const prices = products.items
+      .flatMap(product => product.variants || [])
+      .map(variant => parseFloat(variant.price || ''))
+      .filter(price => Number.isFinite(price) && price > 0);
+    if (prices.length) info.priceRange = { min: Math.min(...prices), max: Math.max(...prices) };
+
+    const created = products.items
+      .map(product => product.created_at || product.published_at)
+      .filter((date): date is string => !!date && !Number.isNaN(Date.parse(date)))
+      .sort((a, b) => Date.parse(b) - Date.parse(a));
+    if (created.length) info.newestProductAt = new Date(created[0]).toISOString();
+  }
+
+  // meta.json has the exact count even when pagination stopped early
+  if (meta && typeof meta.published_products_count === 'number') {
+    info.productCount = meta.published_products_count;
+    info.productCountCapped = false;
+  }
+
+  return info;
+}
+
+// The `Shopify.*` globals every storefront theme prints into the page
+function readStorefrontGlobals(html: string): { shop?: string; currency?: string; country?: string; theme?: string } {
+  const theme = parseJson<{ name?: string; schema_name?: string }>(html.match(/Shopify\.theme\s*=\s*(\{[^;]*?\})\s*;/)?.[1]);
+  const currency = parseJson<{ active?: string }>(html.match(/Shopify\.currency\s*=\s*(\{[^;]*?\})\s*;/)?.[1]);
+
+  return {
+    shop: html.match(/Shopify\.shop\s*=\s*["']([^"']+)["']/)?.[1],
+    currency: currency?.active,
+    country: html.match(/Shopify\.country\s*=\s*["']([A-Z]{2})["']/)?.[1],
+    // schema_name is the theme as published; name is whatever the merchant renamed their copy to
+    theme: theme?.schema_name || theme?.name,
+  };
+}
+
+async function fetchProducts(origin: string, signal: AbortSignal): Promise<{ items: StorefrontProduct[]; capped: boolean } | null> {
+  const items: StorefrontProduct[] = [];
+
+  for (let page = 1; page <= MAX_PRODUCT_PAGES; page++) {
+    const body = await fetchJson<{ products?: StorefrontProduct[] }>(`${origin}/products.json?limit=${PAGE_SIZE}&page=${page}`, signal);
+    // Some stores disable the endpoint; a later page failing leaves a lower bound
+    if (!body?.products) return page === 1 ? null : { items, capped: true };
+
+    items.push(...body.products);
+    if (body.products.length < PAGE_SIZE) return { items, capped: false };
+  }
+
+  return { items, capped: true };
+}
+
+async function fetchJson<T>(url: string, signal: AbortSignal): Promise<T | null> {
+  try {
+    const res = await fetch(url, { headers: { Accept: 'application/json' }, signal });
+    if (!res.ok) return null;
+    return (await res.json()) as T;
+  } catch {
+    return null;
+  }
+}
+
+function parseJson<T>(text: string | undefined): T | null {
+  if (!text) return null;
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
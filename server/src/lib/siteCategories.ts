@@ -0,0 +1,69 @@
+/**
+ * Known non-lead sites, by registrable domain. A brand's country sites are listed one by
+ * one (tesco.com, tesco.ie, ...) rather than by bare label, since a label such as `next`
+ * or `target` is also somebody's independent store on another suffix.
+ * Add to these lists when a search surfaces a site that is clearly not a lead.
+ */
+
+export const MARKETPLACES = [
+  'amazon.com', 'amazon.co.uk', 'amazon.ca', 'amazon.com.au', 'amazon.in', 'amazon.de', 'amazon.fr', 'amazon.it',
+  'amazon.es', 'amazon.nl', 'amazon.com.mx', 'amazon.com.br', 'amazon.co.jp', 'amazon.ae', 'amazon.sg',
+  'ebay.com', 'ebay.co.uk', 'ebay.ie', 'ebay.ca', 'ebay.com.au', 'ebay.de', 'ebay.fr', 'ebay.it', 'ebay.es',
+  'etsy.com', 'aliexpress.com', 'aliexpress.us', 'alibaba.com', 'temu.com', 'shein.com', 'wish.com', 'rakuten.com',
+  'rakuten.co.jp', 'mercadolibre.com', 'mercadolibre.com.mx', 'mercadolibre.com.ar', 'flipkart.com', 'snapdeal.com',
+  'meesho.com', 'fruugo.co.uk', 'fruugo.ie', 'fruugo.com.au', 'fruugo.us', 'onbuy.com', 'catch.com.au', 'kogan.com',
+  'trademe.co.nz', 'bol.com', 'allegro.pl', 'zalando.co.uk', 'zalando.ie', 'zalando.de', 'asos.com', 'depop.com',
+  'vinted.co.uk', 'vinted.com', 'poshmark.com', 'poshmark.ca', 'notonthehighstreet.com', 'donedeal.ie',
+  'gumtree.com', 'gumtree.com.au', 'craigslist.org', 'facebook.com', 'instagram.com', 'nykaa.com', 'myntra.com',
+  'ajio.com', 'tatacliq.com', 'jiomart.com', 'bigbasket.com',
+];
+
+export const LARGE_RETAILERS = [
+  'walmart.com', 'walmart.ca', 'target.com', 'target.com.au', 'costco.com', 'costco.co.uk', 'costco.ca',
+  'costco.com.au', 'bestbuy.com', 'bestbuy.ca', 'homedepot.com', 'homedepot.ca', 'lowes.com', 'kohls.com',
+  'macys.com', 'cvs.com', 'walgreens.com', 'tesco.com', 'tesco.ie', 'sainsburys.co.uk', 'asda.com',
+  'morrisons.com', 'argos.co.uk', 'argos.ie', 'currys.co.uk', 'currys.ie', 'johnlewis.com', 'boots.com', 'boots.ie',
+  'superdrug.com', 'very.co.uk', 'very.ie', 'next.co.uk', 'next.ie', 'next.com.au', 'marksandspencer.com',
+  'debenhams.com', 'harveynorman.com.au', 'harveynorman.ie', 'harveynorman.co.nz', 'dunnesstores.com', 'lidl.co.uk',
+  'lidl.ie', 'lidl.com', 'aldi.co.uk', 'aldi.ie', 'aldi.us', 'aldi.com.au', 'supervalu.ie', 'woolworths.com.au',
+  'woolworths.co.nz', 'coles.com.au', 'jbhifi.com.au', 'jbhifi.co.nz', 'bigw.com.au', 'kmart.com.au', 'kmart.co.nz',
+  'chemistwarehouse.com.au', 'chemistwarehouse.co.nz', 'priceline.com.au', 'myer.com.au', 'davidjones.com',
+  'canadiantire.ca', 'loblaws.ca', 'shoppersdrugmart.ca', 'thebay.com', 'reliancedigital.in', 'croma.com',
+  'lenskart.com', 'specsavers.co.uk', 'specsavers.ie', 'specsavers.com.au', 'specsavers.co.nz', 'specsavers.ca',
+  'visionexpress.com', 'visionexpress.ie', 'ikea.com', 'decathlon.co.uk', 'decathlon.ie', 'decathlon.in',
+  'decathlon.ca', 'decathlon.com.au', 'primark.com', 'hm.com', 'zara.com', 'uniqlo.com', 'sephora.com',
+  'sephora.co.uk', 'sephora.ca', 'ulta.com',
+];
+
+export const DIRECTORIES = [
+  'yelp.com', 'yelp.co.uk', 'yelp.ie', 'yelp.ca', 'yelp.com.au', 'yellowpages.com', 'yellowpages.ca',
+  'yellowpages.com.au', 'yell.com', 'goldenpages.ie', 'tripadvisor.com', 'tripadvisor.co.uk', 'tripadvisor.ie',
+  'tripadvisor.ca', 'tripadvisor.com.au', 'tripadvisor.in', 'trustpilot.com', 'reviews.io', 'reviews.co.uk',
+  'bbb.org', 'foursquare.com', 'justdial.com', 'sulekha.com', 'indiamart.com', 'tradeindia.com', 'truelocal.com.au',
+  'hotfrog.com', 'hotfrog.co.uk', 'hotfrog.ie', 'hotfrog.com.au', 'cylex-uk.co.uk', 'cylex.ie', 'manta.com',
+  'thomsonlocal.com', 'pricerunner.com', 'idealo.co.uk', 'idealo.de', 'pricespy.co.uk', 'pricespy.co.nz',
+  'google.com', 'google.co.uk', 'google.ie', 'google.ca', 'google.com.au', 'google.co.in', 'bing.com', 'yahoo.com',
+  'mapquest.com', 'nextdoor.com', 'nextdoor.co.uk', 'productreview.com.au', 'canstarblue.com.au',
+  'canstarblue.co.nz', 'choice.com.au', 'which.co.uk', 'finder.com', 'finder.com.au', 'whathifi.com', 'clutch.co',
+  'crunchbase.com',
+];
+
+export const NEWS_BLOGS = [
+  'wikipedia.org', 'reddit.com', 'quora.com', 'medium.com', 'substack.com', 'youtube.com', 'pinterest.com',
+  'pinterest.co.uk', 'pinterest.ie', 'pinterest.ca', 'pinterest.com.au', 'tiktok.com', 'buzzfeed.com',
+  'nytimes.com', 'theguardian.com', 'bbc.co.uk', 'bbc.com', 'independent.co.uk', 'independent.ie', 'telegraph.co.uk',
+  'dailymail.co.uk', 'irishtimes.com', 'rte.ie', 'thejournal.ie', 'forbes.com', 'businessinsider.com', 'cnet.com',
+  'techradar.com', 'tomsguide.com', 'wired.com', 'theverge.com', 'goodhousekeeping.com', 'healthline.com',
+  'verywellhealth.com', 'timesofindia.com', 'indiatimes.com', 'ndtv.com', 'news.com.au', 'abc.net.au', 'smh.com.au',
+  'cbc.ca',
+];
+
+export const MANUFACTURERS = [
+  'oralb.com', 'oralb.co.uk', 'oralb.ie', 'oralb.com.au', 'philips.com', 'philips.co.uk', 'philips.ie', 'philips.ca',
+  'philips.com.au', 'philips.co.in', 'colgate.com', 'braun.com', 'braun.co.uk', 'samsung.com', 'apple.com', 'sony.com',
+  'sony.co.uk', 'sony.ie', 'sony.ca', 'sony.com.au', 'sony.co.in', 'lg.com', 'panasonic.com', 'dyson.com',
+  'dyson.co.uk', 'dyson.ie', 'dyson.ca', 'dyson.com.au', 'dyson.in', 'bosch.com', 'bosch-home.co.uk', 'nike.com',
+  'adidas.com', 'adidas.co.uk', 'adidas.ie', 'adidas.ca', 'adidas.com.au', 'adidas.co.in', 'puma.com', 'ray-ban.com',
+  'oakley.com', 'loreal.com', 'loreal-paris.co.uk', 'nivea.com', 'nivea.co.uk', 'gillette.com', 'gillette.co.uk',
+  'pg.com', 'unilever.com',
+];
@@ -0,0 +1,250 @@
+import { classifySite, SiteClassification } from './classify';
+import { collectSignals, detectPlatform, PlatformMatch } from './platform';
+import { DetectedTechnology, detectTechStack } from './techStack';
+import { enrichShopifyStore, ShopifyStoreInfo } from './shopify';
+import { normalizeUrl } from './url';
+
+// A redirect response on the way to the final page
+export interface RedirectHop {
+  url: string;
+  status: number;
+}
+
+export interface SiteMetrics {
+  // Every redirect followed, in order, before landing on `finalUrl`
+  redirects: RedirectHop[];
+  finalUrl: string;
+  // HTTP status of the final response; missing when no response arrived
+  status?: number;
+  // Milliseconds from the first request to the final response's headers and to its last byte
+  ttfb?: number;
+  downloadTime?: number;
+  // Size of the HTML after decompression
+  htmlBytes?: number;
+  // Content-Encoding of the final response, e.g. gzip or br
+  compression?: string;
+  https: boolean;
+  hsts: boolean;
+  // Whether http:// on the same host ends up on https://; null when it could not be tested
+  httpsRedirect: boolean | null;
+  error?: string;
+}
+
+export interface SiteCheckResult {
+  // Homepage that was actually checked
+  url: string;
+  isDomainActive: boolean;
+  // The homepage finished downloading within the check's threshold
+  loadsFast: boolean;
+  metrics: SiteMetrics;
+  platform: PlatformMatch;
+  classification: SiteClassification;
+  // Marketing, analytics, chat and review tools found on the homepage
+  tech: DetectedTechnology[];
+  // Only for sites identified as Shopify
+  shopify?: ShopifyStoreInfo;
+}
+
+export interface CheckOptions {
+  // Milliseconds the homepage may take to download in full (`metrics.downloadTime`, not
+  // TTFB) and still count as fast
+  fastThreshold?: number;
+}
+
+// One line of a batch check, reported as soon as that site is done
+export interface SiteCheckLine {
+  // Position of the URL in the request
+  index: number;
+  url: string;
+  result?: SiteCheckResult;
+  error?: 'deadline_exceeded';
+}
+
+export interface BatchCheckOptions extends CheckOptions {
+  concurrency?: number;
+  // Milliseconds for the whole batch; sites not done by then are reported as timed out
+  deadline?: number;
+  // Stops starting new checks, e.g. when the client has gone away
+  signal?: AbortSignal;
+}
+
+export const CHECK_TIMEOUT = 7000;
+export const FAST_THRESHOLD = 5000;
+const MAX_REDIRECTS = 10;
+// A Worker has six connections open at once; further checks would only queue for them
+const BATCH_CONCURRENCY = 6;
+const BATCH_DEADLINE = 120_000;
+
+// Only the head of the document matters for fingerprinting; the rest is counted, not kept
+const MAX_HTML_LENGTH = 500_000;
+
+const UNKNOWN_PLATFORM: PlatformMatch = { name: 'unknown', confidence: 0, evidence: [] };
+
+// Checks the canonical homepage of the site `link` belongs to
+export async function checkSite(link: string, { fastThreshold = FAST_THRESHOLD }: CheckOptions = {}): Promise<SiteCheckResult> {
+  const url = normalizeUrl(link)?.homepage || link;
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), CHECK_TIMEOUT);
+
+  let isDomainActive = false;
+  let loadsFast = false;
+  let platform = UNKNOWN_PLATFORM;
+  let tech: DetectedTechnology[] = [];
+  let html: string | undefined;
+  let shopify: ShopifyStoreInfo | undefined;
+  const metrics: SiteMetrics = { redirects: [], finalUrl: url, https: false, hsts: false, httpsRedirect: null };
+
+  // Runs alongside the main request; an http:// homepage answers the question itself
+  const httpsProbe = url.startsWith('https:') ? checkHttpsRedirect(url, controller.signal) : null;
+
+  const start = Date.now();
+  try {
+    const { res, redirects, finalUrl } = await followRedirects(url, controller.signal);
+    metrics.ttfb = Date.now() - start;
+    metrics.redirects = redirects;
+    metrics.finalUrl = finalUrl;
+    metrics.status = res.status;
+    metrics.compression = res.headers.get('content-encoding') || undefined;
+    metrics.https = finalUrl.startsWith('https:');
+    // Browsers ignore HSTS sent over plain http
+    metrics.hsts = metrics.https && res.headers.has('strict-transport-security');
+
+    const body = await readHead(res, MAX_HTML_LENGTH);
+    metrics.downloadTime = Date.now() - start;
+    metrics.htmlBytes = body.bytes;
+
+    if (res.ok) {
+      isDomainActive = true;
+      loadsFast = metrics.downloadTime <= fastThreshold;
+
+      html = body.head;
+      const page = { headers: res.headers, html };
+      const signals = collectSignals(page);
+      platform = detectPlatform(page, signals);
+      tech = detectTechStack(signals);
+    }
+  } catch (err) {
+    console.warn('Site check failed:', url, err);
+    metrics.error = controller.signal.aborted ? 'timeout' : err instanceof Error ? err.message : String(err);
+  }
+
+  metrics.httpsRedirect = httpsProbe ? await httpsProbe : metrics.status !== undefined ? metrics.https : null;
+  clearTimeout(timeout);
+
+  if (platform.name === 'shopify' && html) {
+    shopify = await enrichShopifyStore(url, html, tech);
+  }
+
+  const classification = classifySite({
+    link,
+    title: html?.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1],
+    html,
+    hasStorefront: platform.name !== 'unknown',
+  });
+
+  return { url, isDomainActive, loadsFast, metrics, platform, classification, tech, ...(shopify && { shopify }) };
+}
+
+/**
+ * Check many sites, a few at a time, calling `onLine` as each one finishes. Results
+ * arrive in completion order, not request order.
+ */
+export async function checkSites(
+  links: string[],
+  onLine: (line: SiteCheckLine) => Promise<void>,
+  { concurrency = BATCH_CONCURRENCY, deadline = BATCH_DEADLINE, signal, ...options }: BatchCheckOptions = {},
+): Promise<void> {
+  const expires = Date.now() + deadline;
+  let next = 0;
+
+  const worker = async () => {
+    while (next < links.length && !signal?.aborted) {
+      const index = next++;
+      const url = links[index];
+
+      const remaining = expires - Date.now();
+      if (remaining <= 0) {
+        await onLine({ index, url, error: 'deadline_exceeded' });
+        continue;
+      }
+
+      // A slow Shopify enrichment must not hold the batch past its deadline
+      let timer: ReturnType<typeof setTimeout> | null = null;
+      const result = await Promise.race([
+        checkSite(url, options),
+        new Promise<null>(resolve => (timer = setTimeout(() => resolve(null), remaining))),
+      ]);
+      clearTimeout(timer);
+
+      await onLine(result ? { index, url, result } : { index, url, error: 'deadline_exceeded' });
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, links.length) }, worker));
+}
+
+// Fetch `url`, following redirects by hand so each hop is recorded
+async function followRedirects(
+  url: string,
+  signal: AbortSignal,
+): Promise<{ res: Response; redirects: RedirectHop[]; finalUrl: string }> {
+  const redirects: RedirectHop[] = [];
+  let current = url;
+
+  for (;;) {
+    const res = await fetch(current, { method: 'GET', redirect: 'manual', signal });
+    const location = res.headers.get('location');
+    if (res.status < 300 || res.status >= 400 || !location || redirects.length >= MAX_REDIRECTS) {
+      return { res, redirects, finalUrl: current };
+    }
+
+    redirects.push({ url: current, status: res.status });
+    await res.body?.cancel();
+    current = new URL(location, current).toString();
+  }
+}
+
+/**
+ * Read a response to the end, decoding its first `limit` bytes. Later chunks are only
+ * counted, so a huge or endless body costs time (bounded by the check timeout), not memory.
+ */
+async function readHead(res: Response, limit: number): Promise<{ head: string; bytes: number }> {
+  const decoder = new TextDecoder();
+  let head = '';
+  let bytes = 0;
+
+  if (res.body) {
+    const reader = res.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      if (bytes < limit) head += decoder.decode(value.subarray(0, limit - bytes), { stream: true });
+      bytes += value.byteLength;
+    }
+  }
+
+  return { head: head + decoder.decode(), bytes };
+}
+
+// Whether the plain-http homepage sends visitors on to https
+async function checkHttpsRedirect(httpsUrl: string, signal: AbortSignal): Promise<boolean | null> {
+  let current = httpsUrl.replace(/^https:/, 'http:');
+
+  try {
+    for (let hop = 0; hop < MAX_REDIRECTS; hop++) {
+      const res = await fetch(current, { method: 'GET', redirect: 'manual', signal });
+      await res.body?.cancel();
+
+      const location = res.headers.get('location');
+      if (res.status < 300 || res.status >= 400 || !location) return false;
+
+      // Only the hops still on http need fetching
+      current = new URL(location, current).toString();
+      if (current.startsWith('https:')) return true;
+    }
+    return false;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * Tech-stack detection - which marketing, analytics, chat, review and store tools a site
+ * runs, from the same homepage signals as platform fingerprinting. Shopify enrichment
+ * reads a store's installed apps from the same rules.
+ */
+
+import { EvidenceType, PageSignals, PlatformEvidence } from './platform';
+
+export type TechCategory =
+  | 'analytics'
+  | 'tag_manager'
+  | 'ad_pixel'
+  | 'email_marketing'
+  | 'session_recording'
+  | 'live_chat'
+  | 'reviews'
+  | 'store_apps';
+
+export const TECH_CATEGORIES: TechCategory[] = [
+  'analytics', 'tag_manager', 'ad_pixel', 'email_marketing', 'session_recording', 'live_chat', 'reviews', 'store_apps',
+];
+
+export interface DetectedTechnology {
+  name: string;
+  category: TechCategory;
+  evidence: PlatformEvidence[];
+}
+
+// A product is reported when any one of its patterns matches.
+// `pattern` is tested against the value for its type, as in platform rules.
+interface TechRule {
+  name: string;
+  category: TechCategory;
+  patterns: { type: EvidenceType; pattern: RegExp }[];
+  // Sold as a Shopify app, so also listed among a Shopify store's installed apps
+  shopifyApp?: boolean;
+}
+
+const TECH_RULES: TechRule[] = [
+  // Analytics
+  { name: 'Google Analytics 4', category: 'analytics', patterns: [
+    { type: 'asset', pattern: /\/gtag\/js$/ },
+    { type: 'html', pattern: /gtag\(\s*['"]config['"]\s*,\s*['"]G-[A-Z0-9]+/ },
+  ] },
+  { name: 'Universal Analytics', category: 'analytics', patterns: [
+    { type: 'html', pattern: /google-analytics\.com\/(analytics|ga)\.js/ },
+    { type: 'html', pattern: /['"]UA-\d{4,10}-\d{1,4}['"]/ },
+  ] },
+  { name: 'Plausible', category: 'analytics', patterns: [{ type: 'asset', pattern: /^plausible\.io$/ }] },
+  { name: 'Matomo', category: 'analytics', patterns: [
+    { type: 'asset', pattern: /\/(matomo|piwik)\.js$/ },
+    { type: 'html', pattern: /_paq\.push/ },
+  ] },
+  { name: 'Adobe Analytics', category: 'analytics', patterns: [{ type: 'asset', pattern: /^assets\.adobedtm\.com$/ }] },
+
+  // Tag managers
+  { name: 'Google Tag Manager', category: 'tag_manager', patterns: [
+    { type: 'html', pattern: /googletagmanager\.com\/(gtm\.js|ns\.html)/ },
+    { type: 'html', pattern: /['"]GTM-[A-Z0-9]{4,}['"]/ },
+  ] },
+  { name: 'Segment', category: 'tag_manager', patterns: [{ type: 'asset', pattern: /^cdn\.segment\.com$/ }] },
+
+  // Advertising pixels
+  { name: 'Meta Pixel', category: 'ad_pixel', patterns: [
+    { type: 'html', pattern: /connect\.facebook\.net\/[\w_]+\/fbevents\.js/ },
+    { type: 'html', pattern: /fbq\(\s*['"]init['"]/ },
+  ] },
+  { name: 'TikTok Pixel', category: 'ad_pixel', patterns: [
+    { type: 'html', pattern: /analytics\.tiktok\.com\/i18n\/pixel/ },
+    { type: 'html', pattern: /ttq\.load\(/ },
+  ] },
+  { name: 'Pinterest Tag', category: 'ad_pixel', patterns: [
+    { type: 'html', pattern: /s\.pinimg\.com\/ct\/core\.js/ },
+    { type: 'html', pattern: /pintrk\(\s*['"]load['"]/ },
+  ] },
+  { name: 'Snap Pixel', category: 'ad_pixel', patterns: [{ type: 'html', pattern: /sc-static\.net\/scevent\.min\.js/ }] },
+  { name: 'Google Ads', category: 'ad_pixel', patterns: [
+    { type: 'html', pattern: /gtag\(\s*['"]config['"]\s*,\s*['"]AW-\d+/ },
+    { type: 'asset', pattern: /^googleads\.g\.doubleclick\.net$/ },
+  ] },
+  { name: 'Microsoft Advertising', category: 'ad_pixel', patterns: [{ type: 'html', pattern: /bat\.bing\.com\/bat\.js/ }] },
+  { name: 'LinkedIn Insight Tag', category: 'ad_pixel', patterns: [{ type: 'html', pattern: /snap\.licdn\.com\/li\.lms-analytics/ }] },
+
+  // Email and SMS marketing
+  { name: 'Klaviyo', category: 'email_marketing', shopifyApp: true, patterns: [
+    { type: 'asset', pattern: /^static(-tracking)?\.klaviyo\.com$/ },
+    { type: 'html', pattern: /klaviyo\.com\/onsite\/js|klaviyo\.js/i },
+  ] },
+  { name: 'Mailchimp', category: 'email_marketing', patterns: [
+    { type: 'asset', pattern: /^chimpstatic\.com$/ },
+    { type: 'html', pattern: /[\w-]+\.list-manage\.com\/subscribe/ },
+  ] },
+  { name: 'Omnisend', category: 'email_marketing', shopifyApp: true, patterns: [{ type: 'html', pattern: /omnisnippet|omnisrc\.com|omnisend\.com/i }] },
+  { name: 'Brevo', category: 'email_marketing', patterns: [{ type: 'html', pattern: /sibautomation\.com|sendinblue\.com\/js/ }] },
+  { name: 'ActiveCampaign', category: 'email_marketing', patterns: [{ type: 'html', pattern: /trackcmp\.net|activehosted\.com/ }] },
+  { name: 'Privy', category: 'email_marketing', shopifyApp: true, patterns: [{ type: 'html', pattern: /widget\.privy\.com|privy\.com/i }] },
+  { name: 'Drip', category: 'email_marketing', patterns: [{ type: 'html', pattern: /tag\.getdrip\.com/ }] },
+  { name: 'HubSpot', category: 'email_marketing', patterns: [
+    { type: 'html', pattern: /js\.hs-scripts\.com|js\.hsforms\.net/ },
+    { type: 'cookie', pattern: /^(__hstc|hubspotutk)$/ },
+  ] },
+  { name: 'Attentive', category: 'email_marketing', shopifyApp: true, patterns: [{ type: 'html', pattern: /attn\.tv|attentivemobile/i }] },
+  { name: 'Postscript', category: 'email_marketing', shopifyApp: true, patterns: [{ type: 'html', pattern: /postscript\.io/i }] },
+
+  // Heatmaps and session recording
+  { name: 'Hotjar', category: 'session_recording', patterns: [
+    { type: 'html', pattern: /static\.hotjar\.com/ },
+    { type: 'html', pattern: /hjid\s*:\s*\d+/ },
+  ] },
+  { name: 'Microsoft Clarity', category: 'session_recording', patterns: [{ type: 'html', pattern: /clarity\.ms\/tag/ }] },
+  { name: 'FullStory', category: 'session_recording', patterns: [{ type: 'html', pattern: /fullstory\.com\/s\/fs\.js|edge\.fullstory\.com/ }] },
+  { name: 'Lucky Orange', category: 'session_recording', patterns: [{ type: 'html', pattern: /luckyorange\.(com|net)/ }] },
+
+  // Live chat
+  { name: 'Intercom', category: 'live_chat', patterns: [{ type: 'html', pattern: /widget\.intercom\.io|intercomSettings/ }] },
+  { name: 'Zendesk', category: 'live_chat', patterns: [{ type: 'html', pattern: /static\.zdassets\.com|zopim\.com/ }] },
+  { name: 'Tidio', category: 'live_chat', shopifyApp: true, patterns: [{ type: 'html', pattern: /code\.tidio\.co|tidiochat/i }] },
+  { name: 'Gorgias', category: 'live_chat', shopifyApp: true, patterns: [{ type: 'html', pattern: /gorgias\.chat|gorgias-chat|gorgias\.io/i }] },
+  { name: 'LiveChat', category: 'live_chat', patterns: [{ type: 'html', pattern: /cdn\.livechatinc\.com/ }] },
+  { name: 'Drift', category: 'live_chat', patterns: [{ type: 'html', pattern: /js\.driftt\.com/ }] },
+  { name: 'Crisp', category: 'live_chat', patterns: [{ type: 'html', pattern: /client\.crisp\.chat/ }] },
+  { name: 'Tawk.to', category: 'live_chat', patterns: [{ type: 'html', pattern: /embed\.tawk\.to/ }] },
+  { name: 'Shopify Inbox', category: 'live_chat', patterns: [{ type: 'html', pattern: /shopify-chat|cdn\.shopify\.com\/extensions\/[^"']*\/inbox/ }] },
+
+  // Review platforms
+  { name: 'Trustpilot', category: 'reviews', patterns: [{ type: 'html', pattern: /widget\.trustpilot\.com/ }] },
+  { name: 'Judge.me', category: 'reviews', shopifyApp: true, patterns: [{ type: 'html', pattern: /judge\.me|judgeme|jdgm-/i }] },
+  { name: 'Yotpo', category: 'reviews', shopifyApp: true, patterns: [{ type: 'html', pattern: /yotpo\.com/i }] },
+  { name: 'Reviews.io', category: 'reviews', patterns: [{ type: 'html', pattern: /widget\.reviews\.(io|co\.uk)/ }] },
+  { name: 'Feefo', category: 'reviews', patterns: [{ type: 'html', pattern: /api\.feefo\.com/ }] },
+  { name: 'Okendo', category: 'reviews', shopifyApp: true, patterns: [{ type: 'html', pattern: /okendo\.io/i }] },
+  { name: 'Loox', category: 'reviews', shopifyApp: true, patterns: [{ type: 'html', pattern: /loox\.io/i }] },
+  { name: 'Stamped.io', category: 'reviews', shopifyApp: true, patterns: [{ type: 'html', pattern: /stamped\.io/i }] },
+  { name: 'Bazaarvoice', category: 'reviews', patterns: [{ type: 'html', pattern: /bazaarvoice\.com/ }] },
+
+  // Store apps: subscriptions, loyalty, page builders, instalments, search and shipping protection
+  { name: 'ReCharge', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /rechargecdn\.com|rechargepayments\.com|rc_container/i }] },
+  { name: 'Bold', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /boldapps\.net|boldcommerce/i }] },
+  { name: 'Smile.io', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /smile\.io|sweettooth\.io/i }] },
+  { name: 'PageFly', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /pagefly/i }] },
+  { name: 'Shogun', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /getshogun\.com|shogun-frontend/i }] },
+  { name: 'Afterpay', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /afterpay\.com|afterpay-js/i }] },
+  { name: 'Klarna', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /klarna(services|cdn)?\.(com|net)|klarna-placement/i }] },
+  { name: 'Searchanise', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /searchanise/i }] },
+  { name: 'Route', category: 'store_apps', shopifyApp: true, patterns: [{ type: 'html', pattern: /routeapp\.io/i }] },
+];
+
+const SHOPIFY_APPS = new Set(TECH_RULES.filter(rule => rule.shopifyApp).map(rule => rule.name));
+
+export function detectTechStack(signals: PageSignals): DetectedTechnology[] {
+  const detected: DetectedTechnology[] = [];
+
+  for (const rule of TECH_RULES) {
+    const evidence: PlatformEvidence[] = [];
+    for (const { type, pattern } of rule.patterns) {
+      const hit = signals[type].find(value => pattern.test(value));
+      if (hit !== undefined) evidence.push({ type, match: type === 'html' ? pattern.source : hit });
+    }
+
+    if (evidence.length) detected.push({ name: rule.name, category: rule.category, evidence });
+  }
+
+  return detected;
+}
+
+// The detected tools a Shopify store installs as apps
+export function shopifyApps(tech: DetectedTechnology[]): string[] {
+  return tech.filter(technology => SHOPIFY_APPS.has(technology.name)).map(technology => technology.name);
+}
@@ -0,0 +1,125 @@
+/**
+ * URL canonicalization - strips tracking parameters, resolves the registrable domain
+ * (public-suffix rules) and picks the homepage we treat as a site's identity.
+ */
+
+// Query parameters added by search engines, ad platforms and mailers
+const TRACKING_PARAMS = new Set([
+  'srsltid', 'gclid', 'gclsrc', 'dclid', 'gbraid', 'wbraid', 'fbclid', 'msclkid', 'yclid', 'twclid', 'ttclid',
+  'igshid', 'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'ref', 'ref_src', 'spm', 'sca_ref',
+]);
+const TRACKING_PREFIXES = ['utm_', 'pk_', 'mtm_', 'hsa_'];
+
+// Multi-label public suffixes from the Public Suffix List for the markets we search.
+// Single-label TLDs need no entry: the implicit `*` rule covers them.
+const SUFFIX_RULES = new Set([
+  // United Kingdom
+  'co.uk', 'org.uk', 'me.uk', 'ltd.uk', 'plc.uk', 'net.uk', 'sch.uk', 'ac.uk', 'gov.uk', 'nhs.uk', 'police.uk',
+  // Ireland
+  'gov.ie',
+  // Australia
+  'com.au', 'net.au', 'org.au', 'edu.au', 'gov.au', 'asn.au', 'id.au',
+  // New Zealand
+  'co.nz', 'net.nz', 'org.nz', 'ac.nz', 'govt.nz', 'geek.nz', 'kiwi.nz',
+  // India
+  'co.in', 'net.in', 'org.in', 'firm.in', 'gen.in', 'ind.in', 'ac.in', 'edu.in', 'gov.in', 'res.in',
+  // Canada and United States
+  'gc.ca', 'on.ca', 'qc.ca', 'bc.ca', 'ab.ca', 'ny.us', 'ca.us', 'tx.us',
+  // Elsewhere
+  'co.za', 'org.za', 'com.br', 'net.br', 'com.mx', 'com.ar', 'com.co', 'com.sg', 'com.my', 'com.hk', 'com.cn',
+  'com.tw', 'com.tr', 'co.il', 'co.jp', 'ne.jp', 'or.jp', 'co.kr', 'co.th', 'com.ph', 'com.pk', 'com.ng',
+  'co.ke', 'com.eg', 'com.sa', 'com.pl', 'co.at', 'or.at', 'com.ua', 'com.vn', 'co.id', 'com.pe',
+  // Hosted storefronts where every subdomain is a separate owner (PSL private section)
+  'myshopify.com', 'wixsite.com', 'github.io', 'netlify.app', 'vercel.app', 'pages.dev', 'workers.dev', 'herokuapp.com', 'blogspot.com',
+]);
+const WILDCARD_RULES = new Set(['ck', 'bd', 'np', 'er', 'fk', 'jm', 'kh', 'mm', 'pg']);
+const EXCEPTION_RULES = new Set(['www.ck']);
+
+export interface NormalizedUrl {
+  // Input URL with tracking parameters and the fragment removed
+  url: string;
+  hostname: string;
+  // Registrable domain, e.g. `oralb.co.uk` for `shop.oralb.co.uk`
+  domain: string;
+  // Canonical homepage used for site checks and scraping
+  homepage: string;
+}
+
+/**
+ * Parse and clean a link. Bare domains (`example.com/shop`) are accepted and treated
+ * as https. Returns null for anything that is not an http(s) URL with a real host.
+ */
+export function normalizeUrl(input: string): NormalizedUrl | null {
+  const trimmed = input?.trim();
+  if (!trimmed) return null;
+
+  // Some other scheme (mailto:, tel:, javascript:); a `host:port` prefix is fine
+  if (!trimmed.includes('://') && /^[a-z][a-z0-9+.-]*:(?!\d)/i.test(trimmed)) return null;
+
+  let parsed: URL;
+  try {
+    parsed = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null;
+
+  const hostname = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  const domain = getRegistrableDomain(hostname);
+  if (!domain) return null;
+
+  parsed.hash = '';
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (isTrackingParam(key)) parsed.searchParams.delete(key);
+  }
+
+  return {
+    url: parsed.toString(),
+    hostname,
+    domain,
+    homepage: `https://${hostname}/`,
+  };
+}
+
+// Registrable domain of a link, or null if it cannot be parsed
+export function domainOf(link: string): string | null {
+  return normalizeUrl(link)?.domain || null;
+}
+
+export function stripTrackingParams(link: string): string {
+  return normalizeUrl(link)?.url || link;
+}
+
+export function getRegistrableDomain(hostname: string): string | null {
+  // IP addresses and localhost are their own domain; other single labels are not public hosts
+  if (/^\d+(\.\d+){3}$/.test(hostname) || hostname.startsWith('[') || hostname === 'localhost') {
+    return hostname;
+  }
+  if (!hostname.includes('.')) return null;
+
+  const labels = hostname.split('.');
+  const suffixLength = publicSuffixLength(labels);
+
+  // The host is itself a public suffix (e.g. `co.uk`)
+  if (labels.length <= suffixLength) return null;
+
+  return labels.slice(-(suffixLength + 1)).join('.');
+}
+
+function isTrackingParam(key: string): boolean {
+  const lower = key.toLowerCase();
+  return TRACKING_PARAMS.has(lower) || TRACKING_PREFIXES.some(prefix => lower.startsWith(prefix));
+}
+
+// Number of labels in the longest matching public suffix rule
+function publicSuffixLength(labels: string[]): number {
+  for (let i = 0; i < labels.length; i++) {
+    const candidate = labels.slice(i).join('.');
+
+    if (EXCEPTION_RULES.has(candidate)) return labels.length - i - 1;
+    if (SUFFIX_RULES.has(candidate)) return labels.length - i;
+    if (i + 1 < labels.length && WILDCARD_RULES.has(labels.slice(i + 1).join('.'))) return labels.length - i;
+  }
+
+  return 1;
+}
@@ -2,38 +2,95 @@
  * EmailScraper - Efficient email extraction utility for Cloudflare Workers
  */
 
-// Core email regex pattern
-const EMAIL_REGEX = /([a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,})/g;
+import { normalizeUrl } from './lib/url';
+import { countryFromRegion } from './lib/phone';
+import { CrawlCache, CrawlPolicy, PolicySkip, PolicySkipReason } from './lib/crawlPolicy';
+import { extractPageLinks, PageLink, rankContactPages, sitemapUrls } from './lib/contactDiscovery';
+import { emptyContacts, extractContacts, mergeContacts, SiteContacts } from './lib/contacts';
+import { EmailCandidate, extractEmailCandidates } from './lib/emailExtraction';
+import { DEFAULT_RESOLVER_URL, DohMxResolver, EmailRecord, getMxResolver, isUsableEmail, MxResolver, validateEmails } from './lib/emailValidation';
 
-// Common patterns to exclude
+// Asset filenames that match the email regex; placeholders are left to validation
 const EMAIL_EXCLUSIONS = [
-  '.png', '.jpg', '.gif', '.jpeg', '.webp',
-  'example.com', 'domain.com', 'yourdomain',
-  '@example', '@test', '@sample',
-  'email@', 'user@',
+  '.png', '.jpg', '.gif', '.jpeg', '.webp', '.svg',
 ];
 
+// Guessed when neither the sitemaps nor the homepage links point to a contact page
+const CONTACT_PATHS = [
+  'contact', 'contact-us', 'pages/contact', 'pages/contact-us',
+  'about', 'about-us', 'pages/about-us',
+  'impressum', 'imprint', 'legal-notice',
+];
+
+// Our product token in robots.txt User-agent lines
+const ROBOTS_TOKEN = 'EmailScraper';
+
+// How long a site's emails are served from cache
+const CACHE_TTL = 24 * 60 * 60 * 1000;
+
+// Sites' emails by domain, for reuse across scrapers
+export type SiteEmailCache = Map<string, { emails: EmailRecord[]; contacts: SiteContacts; timestamp: number }>;
+
 // Configuration interface
-interface EmailScraperConfig {
+export interface EmailScraperConfig {
   concurrency?: number;
   timeout?: number;
   maxRetries?: number;
   retryDelay?: number;
   excludePatterns?: string[];
   userAgent?: string;
+  mxResolver?: MxResolver;
+  // Robots.txt rules and per-host spacing to share with other scrapers
+  crawlCache?: CrawlCache;
+  siteCache?: SiteEmailCache;
+  // Discovered contact, about and legal pages crawled per site
+  maxContactPages?: number;
 }
 
 // Result type definition
-interface ScrapingResult {
+export interface ScrapingResult {
   url: string;
   emails: string[];
+  // The same addresses with how each was found
+  candidates: EmailCandidate[];
+  contacts: SiteContacts;
   success: boolean;
+  // Set when the crawl policy ruled the page out and it was never requested
+  skipped?: PolicySkipReason;
+  // Same-site links on the page, for finding contact pages
+  links?: PageLink[];
   error?: string;
 }
 
+export type SiteEmailStatus = 'found' | 'not_found' | 'error';
+
+// Per-site result: the homepage plus any contact pages that were needed
+export interface SiteEmailResult {
+  title: string;
+  link: string;
+  url: string;
+  emails: EmailRecord[];
+  // Phones, social profiles and messaging links found on the same pages
+  contacts: SiteContacts;
+  status: SiteEmailStatus;
+  // Pages not fetched because of robots.txt or crawl-delay
+  skipped?: PolicySkip[];
+  error?: string;
+}
+
+export interface ScrapeOptions {
+  // Search region; sets the country for phone numbers written in national format
+  region?: string;
+  // Called as each site finishes, with its position in `sites`
+  onResult?: (result: SiteEmailResult, index: number) => void | Promise<void>;
+}
+
 export class EmailScraper {
-  private config: Required<EmailScraperConfig>;
+  private config: Required<Omit<EmailScraperConfig, 'mxResolver' | 'crawlCache' | 'siteCache'>>;
+  private mxResolver: MxResolver;
+  private crawlPolicy: CrawlPolicy;
   private controller: AbortController;
+  private cache: SiteEmailCache;
   
   constructor(config: EmailScraperConfig = {}) {
     this.config = {
@@ -42,8 +99,12 @@ export class EmailScraper {
       maxRetries: config.maxRetries || 2,
       retryDelay: config.retryDelay || 1000,
       excludePatterns: [...EMAIL_EXCLUSIONS, ...(config.excludePatterns || [])],
-      userAgent: config.userAgent || 'Mozilla/5.0 (compatible; EmailScraper/1.0)'
+      userAgent: config.userAgent || 'Mozilla/5.0 (compatible; EmailScraper/1.0)',
+      maxContactPages: config.maxContactPages || 5
     };
+    this.mxResolver = config.mxResolver || new DohMxResolver(DEFAULT_RESOLVER_URL);
+    this.crawlPolicy = new CrawlPolicy({ userAgent: this.config.userAgent, robotsToken: ROBOTS_TOKEN }, config.crawlCache);
+    this.cache = config.siteCache || new Map();
     
     this.controller = new AbortController();
   }
@@ -66,32 +127,166 @@ export class EmailScraper {
     return results;
   }
   
+  async scrapeSites(sites: { title: string; link: string }[], options: ScrapeOptions = {}): Promise<SiteEmailResult[]> {
+    const results: SiteEmailResult[] = [];
+    const batches = this.chunkArray(sites, this.config.concurrency);
+
+    for (const batch of batches) {
+      const offset = results.length;
+      results.push(...await Promise.all(batch.map(async (site, i) => {
+        const result = await this.scrapeSite(site, options);
+        await options.onResult?.(result, offset + i);
+        return result;
+      })));
+    }
+
+    return results;
+  }
+
+  async scrapeSite({ title, link }: { title: string; link: string }, options: ScrapeOptions = {}): Promise<SiteEmailResult> {
+    // Scan from the site's canonical homepage, whatever page the link points at
+    const normalized = normalizeUrl(link);
+    if (!normalized) {
+      return { title, link, url: link, emails: [], contacts: emptyContacts(), status: 'error', error: 'Invalid URL' };
+    }
+    const baseUrl = normalized.homepage;
+
+    const cached = this.cache.get(normalized.domain);
+    if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
+      return { title, link, url: baseUrl, emails: cached.emails, contacts: cached.contacts, status: siteEmailStatus(cached.emails) };
+    }
+
+    const country = countryFromRegion(options.region);
+    const contacts = emptyContacts();
+
+    const records = new Map<string, EmailRecord>();
+    const addEmails = async (candidates: EmailCandidate[]) => {
+      const fresh = candidates.filter(candidate => !records.has(candidate.address));
+      const validated = await validateEmails(fresh.map(candidate => candidate.address), this.mxResolver);
+      validated.forEach((record, i) => records.set(record.address, { ...record, source: fresh[i].source }));
+    };
+
+    const skipped: PolicySkip[] = [];
+    const visit = async (url: string) => {
+      const page = await this.processSite(url, country);
+      if (page.skipped) skipped.push({ url, reason: page.skipped });
+      await addEmails(page.candidates);
+      mergeContacts(contacts, page.contacts);
+      return page;
+    };
+
+    const homepage = await visit(baseUrl);
+    let reachable = homepage.success;
+
+    // If no usable emails found, try contact pages, unless the whole site is off limits
+    const siteBlocked = homepage.skipped && homepage.skipped !== 'robots_disallowed';
+    if (!siteBlocked && ![...records.values()].some(isUsableEmail)) {
+      for (const url of await this.findContactPages(baseUrl, homepage.links || [])) {
+        const contactPage = await visit(url);
+        reachable = reachable || contactPage.success;
+
+        if ([...records.values()].some(isUsableEmail)) break;
+      }
+    }
+
+    const policySkips = skipped.length ? { skipped } : {};
+    if (!reachable) {
+      return { title, link, url: baseUrl, emails: [], contacts, status: 'error', ...policySkips, error: homepage.error };
+    }
+
+    const found = [...records.values()];
+    this.cache.set(normalized.domain, { emails: found, contacts, timestamp: Date.now() });
+
+    return { title, link, url: baseUrl, emails: found, contacts, status: siteEmailStatus(found), ...policySkips };
+  }
+
+  /**
+   * The pages most likely to carry contact details, best first. Sitemaps are only
+   * read when the homepage does not already link to a contact page.
+   */
+  private async findContactPages(baseUrl: string, links: PageLink[]): Promise<string[]> {
+    const origin = new URL(baseUrl).origin;
+    const domain = normalizeUrl(baseUrl)?.domain;
+
+    let ranked = rankContactPages([], links);
+    if (!ranked.some(candidate => candidate.score >= 1)) {
+      const robots = await this.crawlPolicy.getRobots(origin);
+      const listed = await sitemapUrls(origin, robots.sitemaps, url => this.fetchText(url));
+      ranked = rankContactPages(listed.filter(url => normalizeUrl(url)?.domain === domain), links);
+    }
+
+    const pages = ranked.slice(0, this.config.maxContactPages).map(candidate => candidate.url);
+    return pages.length ? pages : CONTACT_PATHS.map(path => `${baseUrl}${path}`);
+  }
+
+  // Body of a page the crawl policy allows, or null
+  private async fetchText(url: string): Promise<string | null> {
+    try {
+      if (!(await this.crawlPolicy.check(url)).allowed) return null;
+
+      return await this.crawlPolicy.schedule(url, async () => {
+        const response = await this.fetchWithTimeout(url, {
+          headers: { 'User-Agent': this.config.userAgent },
+          signal: this.controller.signal,
+          timeout: this.config.timeout
+        });
+        return response.ok ? response.text() : null;
+      });
+    } catch {
+      return null;
+    }
+  }
+
   cancel(): void {
     this.controller.abort();
     this.controller = new AbortController();
   }
   
-  private async processSite(url: string): Promise<ScrapingResult> {
+  private async processSite(url: string, country?: string | null): Promise<ScrapingResult> {
+    const decision = await this.crawlPolicy.check(url);
+    if (!decision.allowed) {
+      return {
+        url,
+        emails: [],
+        candidates: [],
+        contacts: emptyContacts(),
+        success: false,
+        skipped: decision.reason,
+        error: `Skipped by crawl policy (${decision.reason})`
+      };
+    }
+
     let attempts = 0;
     
     while (attempts <= this.config.maxRetries) {
       try {
-        const response = await this.fetchWithTimeout(url, {
-          headers: {
-            'User-Agent': this.config.userAgent,
-            'Accept': 'text/html,application/xhtml+xml',
-            'Accept-Language': 'en-US,en;q=0.9',
-          },
-          signal: this.controller.signal,
-          timeout: this.config.timeout
+        // One request at a time per host, spaced by its Crawl-delay; the body is read inside the slot
+        const { status, html } = await this.crawlPolicy.schedule(url, async () => {
+          const response = await this.fetchWithTimeout(url, {
+            headers: {
+              'User-Agent': this.config.userAgent,
+              'Accept': 'text/html,application/xhtml+xml',
+              'Accept-Language': 'en-US,en;q=0.9',
+            },
+            signal: this.controller.signal,
+            timeout: this.config.timeout
+          });
+          return { status: response.status, html: response.ok ? await response.text() : '' };
         });
         
-        if (!response.ok) throw new Error(`HTTP error ${response.status}`);
+        // A missing page will not appear on retry
+        if (status >= 400 && status < 500) {
+          return { url, emails: [], candidates: [], contacts: emptyContacts(), success: false, error: `HTTP error ${status}` };
+        }
+        if (status < 200 || status >= 300) throw new Error(`HTTP error ${status}`);
+        
+        const candidates = this.extractEmails(html);
         
-        const html = await response.text();
-        const emails = this.extractEmails(html);
+        const contacts = extractContacts(html, country);
         
-        return { url, emails, success: true };
+        const links = extractPageLinks(html, url);
+        
+        return { url, emails: candidates.map(candidate => candidate.address), candidates, contacts, links, success: true };
       } catch (error: any) {
         attempts++;
         
@@ -99,6 +294,8 @@ export class EmailScraper {
           return {
             url,
             emails: [],
+            candidates: [],
+            contacts: emptyContacts(),
             success: false,
             error: error.message || 'Unknown error'
           };
@@ -108,18 +305,14 @@ export class EmailScraper {
       }
     }
     
-    return { url, emails: [], success: false, error: 'Maximum retries exceeded' };
+    return { url, emails: [], candidates: [], contacts: emptyContacts(), success: false, error: 'Maximum retries exceeded' };
   }
   
-  private extractEmails(html: string): string[] {
-    const matches = html.match(EMAIL_REGEX) || [];
-    
-    return [...new Set(matches)]
-      .filter(email => {
-        if (!email.includes('@')) return false;
-        
+  private extractEmails(html: string): EmailCandidate[] {
+    return extractEmailCandidates(html)
+      .filter(({ address }) => {
         for (const pattern of this.config.excludePatterns) {
-          if (email.toLowerCase().includes(pattern.toLowerCase())) {
+          if (address.includes(pattern.toLowerCase())) {
             return false;
           }
         }
@@ -184,20 +377,23 @@ export class EmailScraper {
   }
 }
 
-// Singleton instance
-let scraperInstance: EmailScraper | null = null;
+// Found means at least one address that is not known to be bad
+function siteEmailStatus(emails: EmailRecord[]): SiteEmailStatus {
+  return emails.some(isUsableEmail) ? 'found' : 'not_found';
+}
+
+// Settled results outlive a request; the scrapers holding requests in flight do not
+const crawlCache = new CrawlCache();
+const siteCache: SiteEmailCache = new Map();
 
-export function getEmailScraper(config?: EmailScraperConfig): EmailScraper {
-  if (!scraperInstance) {
-    scraperInstance = new EmailScraper(config);
-  }
-  return scraperInstance;
+// A scraper for one request or job step
+export function getEmailScraper(env: Env): EmailScraper {
+  return new EmailScraper({ mxResolver: getMxResolver(env), crawlCache, siteCache });
 }
 
 export async function scrapeEmailsFromSites(
   sites: { title: string; link: string }[],
   config?: EmailScraperConfig
 ): Promise<ScrapingResult[]> {
-  const scraper = getEmailScraper(config);
-  return scraper.scrapeEmails(sites);
+  return new EmailScraper(config).scrapeEmails(sites);
 }
\ No newline at end of file
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { classifySite } from '../src/lib/classify';
+import { DIRECTORIES, LARGE_RETAILERS, MANUFACTURERS, MARKETPLACES, NEWS_BLOGS } from '../src/lib/siteCategories';
+import { domainOf } from '../src/lib/url';
+
+describe('classifySite', () => {
+  it('matches listed sites on their full registrable domain', () => {
+    expect(classifySite({ link: 'https://www.next.co.uk/shop' }).category).toBe('large_retailer');
+    expect(classifySite({ link: 'https://next.io/' }).category).toBe('independent_store');
+    expect(classifySite({ link: 'https://target-optics.com/' }).category).toBe('independent_store');
+    expect(classifySite({ link: 'https://choice-coffee.ie/' }).category).toBe('independent_store');
+  });
+
+  it('does not call a store a blog on its title alone', () => {
+    expect(classifySite({ link: 'https://beans.ie/', title: 'Best Coffee Beans – Shop Online' }).category).toBe('independent_store');
+    expect(classifySite({ link: 'https://beans.ie/', title: 'Espresso vs Filter Coffee Beans' }).category).toBe('independent_store');
+  });
+
+  it('counts a listicle title towards other article evidence', () => {
+    const result = classifySite({ link: 'https://coffeeblog.ie/blog/best-beans', title: '10 Best Coffee Beans Reviewed' });
+    expect(result.category).toBe('news_blog');
+    expect(result.reasons).toEqual(['article-style URL path', 'listicle or review title']);
+  });
+
+  it('lists only registrable domains', () => {
+    for (const domain of [...MARKETPLACES, ...LARGE_RETAILERS, ...DIRECTORIES, ...NEWS_BLOGS, ...MANUFACTURERS]) {
+      expect(domainOf(domain)).toBe(domain);
+    }
+  });
+});
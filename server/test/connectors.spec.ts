@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parsePushRequest } from '../src/lib/connectors/push';
+import { PipedriveConnector } from '../src/lib/connectors/pipedrive';
+import { sign, SIGNATURE_HEADER, WebhookConnector } from '../src/lib/connectors/webhook';
+
+const lead = { domain: 'shop.com', name: 'Shop', website: 'https://shop.com/' };
+
+const reply = (body: unknown, status = 200) => new Response(JSON.stringify(body), { status });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('sign', () => {
+  it('produces a hex HMAC-SHA256', async () => {
+    // RFC 4231 test case 2
+    expect(await sign('Jefe', 'what do ya want for nothing?')).toBe('5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843');
+  });
+});
+
+describe('WebhookConnector', () => {
+  it('signs the timestamp and body with the shared secret', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(reply({ id: 42 }));
+
+    const result = await new WebhookConnector('https://hooks.example.com/leads', 'secret').upsert(lead, { name: 'Shop' });
+
+    const init = fetch.mock.calls[0][1]!;
+    const body = init.body as string;
+    const header = (init.headers as Record<string, string>)[SIGNATURE_HEADER];
+    const [, timestamp, signature] = header.match(/^t=(\d+),v1=([0-9a-f]{64})$/)!;
+    expect(signature).toBe(await sign('secret', `${timestamp}.${body}`));
+    expect(JSON.parse(body)).toMatchObject({ event: 'lead.upsert', idempotencyKey: 'lead:shop.com', lead: { name: 'Shop' } });
+    expect(result).toEqual({ externalId: '42', action: 'created' });
+  });
+});
+
+describe('PipedriveConnector', () => {
+  it('writes the domain to its custom field and finds organizations by it', async () => {
+    const fetch = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(reply({ success: true, data: { items: [{ item: { id: 7 } }] } }))
+      .mockResolvedValueOnce(reply({ success: true, data: { id: 7 } }));
+
+    const result = await new PipedriveConnector('token', 'abc123').upsert(lead, {});
+
+    const [searchUrl] = fetch.mock.calls[0];
+    expect(String(searchUrl)).toContain('/v1/organizations/search?term=shop.com&fields=custom_fields&exact_match=true');
+    const [updateUrl, update] = fetch.mock.calls[1];
+    expect(String(updateUrl)).toContain('/v1/organizations/7?');
+    expect(JSON.parse(update!.body as string)).toEqual({ name: 'Shop', abc123: 'shop.com' });
+    expect(result).toEqual({ externalId: '7', action: 'updated' });
+  });
+});
+
+describe('parsePushRequest', () => {
+  it('normalizes domains to their registrable domain', () => {
+    const { leads } = parsePushRequest({ leads: [{ ...lead, domain: 'https://www.Shop.com/path?x=1' }] });
+    expect(leads?.[0].domain).toBe('shop.com');
+  });
+
+  it('rejects domains that do not parse', () => {
+    expect(parsePushRequest({ leads: [{ ...lead, domain: 'not a domain' }] }).error).toMatch(/Invalid lead domain/);
+    expect(parsePushRequest({ leads: [{ ...lead, domain: 'mailto:a@shop.com' }] }).error).toMatch(/Invalid lead domain/);
+  });
+
+  it('rejects mappings onto unknown lead fields', () => {
+    expect(parsePushRequest({ leads: [lead], mapping: { notes: 'password' } }).error).toMatch(/mapping.notes/);
+  });
+});
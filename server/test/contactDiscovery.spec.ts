@@ -0,0 +1,109 @@
+import { describe, expect, it } from 'vitest';
+import { extractPageLinks, parseSitemap, rankContactPages, scoreContactUrl, sitemapUrls } from '../src/lib/contactDiscovery';
+
+describe('scoreContactUrl', () => {
+  it('scores contact, legal and about pages in that order', () => {
+    const contact = scoreContactUrl('https://shop.de/kontakt');
+    const imprint = scoreContactUrl('https://shop.de/impressum');
+    const about = scoreContactUrl('https://shop.de/pages/ueber-uns');
+    expect(contact).toBe(1);
+    expect(imprint).toBeLessThan(contact);
+    expect(about).toBeLessThan(imprint);
+  });
+
+  it('only matches keywords at the start of a path segment or word', () => {
+    expect(scoreContactUrl('https://shop.de/bagboo')).toBe(0);
+    expect(scoreContactUrl('https://shop.de/pages/shop-agb')).toBeGreaterThan(0);
+  });
+
+  it('ignores the homepage, product pages and files', () => {
+    expect(scoreContactUrl('https://shop.com/')).toBe(0);
+    expect(scoreContactUrl('https://shop.com/products/contact-lens')).toBe(0);
+    expect(scoreContactUrl('https://shop.com/contact.pdf')).toBe(0);
+  });
+
+  it('counts link text for a little less than the path', () => {
+    expect(scoreContactUrl('https://shop.com/pages/p1', 'Get in touch')).toBeCloseTo(0.9);
+  });
+
+  it('discounts deep pages', () => {
+    expect(scoreContactUrl('https://shop.com/a/b/contact')).toBeCloseTo(0.6);
+  });
+});
+
+describe('extractPageLinks', () => {
+  it('keeps same-site http links once, with their text and whether they sit in the footer', () => {
+    const html = `
+      <a href="/pages/about">About <b>us</b></a>
+      <a href="https://blog.shop.co.uk/post#top">Blog</a>
+      <a href="https://other.com/contact">Elsewhere</a>
+      <a href="mailto:hi@shop.co.uk">Mail</a>
+      <a href="/pages/about">About again</a>
+      <footer><a href="/pages/contact?a=1&amp;b=2">Contact &amp; help</a></footer>`;
+
+    expect(extractPageLinks(html, 'https://www.shop.co.uk/')).toEqual([
+      { url: 'https://www.shop.co.uk/pages/about', text: 'About us', inFooter: false },
+      { url: 'https://blog.shop.co.uk/post', text: 'Blog', inFooter: false },
+      { url: 'https://www.shop.co.uk/pages/contact?a=1&b=2', text: 'Contact & help', inFooter: true },
+    ]);
+  });
+});
+
+describe('parseSitemap', () => {
+  it('tells a url set from a sitemap index', () => {
+    expect(parseSitemap('<urlset><url><loc> https://a.com/x?a=1&amp;b=2 </loc></url><url><loc><![CDATA[https://a.com/y]]></loc></url></urlset>')).toEqual({
+      urls: ['https://a.com/x?a=1&b=2', 'https://a.com/y'],
+      sitemaps: [],
+    });
+    expect(parseSitemap('<sitemapindex><sitemap><loc>https://a.com/s1.xml</loc></sitemap></sitemapindex>')).toEqual({
+      urls: [],
+      sitemaps: ['https://a.com/s1.xml'],
+    });
+  });
+});
+
+describe('sitemapUrls', () => {
+  const urlset = (...urls: string[]) => `<urlset>${urls.map(url => `<url><loc>${url}</loc></url>`).join('')}</urlset>`;
+  const index = (...urls: string[]) => `<sitemapindex>${urls.map(url => `<sitemap><loc>${url}</loc></sitemap>`).join('')}</sitemapindex>`;
+
+  it('falls back to /sitemap.xml and follows only page sitemaps of an index', async () => {
+    const files: Record<string, string> = {
+      'https://a.com/sitemap.xml': index('https://a.com/sitemap_products_1.xml', 'https://a.com/sitemap_pages_1.xml'),
+      'https://a.com/sitemap_pages_1.xml': urlset('https://a.com/pages/contact'),
+    };
+    const fetched: string[] = [];
+
+    const urls = await sitemapUrls('https://a.com', [], async url => {
+      fetched.push(url);
+      return files[url] ?? null;
+    });
+    expect(urls).toEqual(['https://a.com/pages/contact']);
+    expect(fetched).toEqual(['https://a.com/sitemap.xml', 'https://a.com/sitemap_pages_1.xml']);
+  });
+
+  it('reads declared sitemaps and skips ones that fail', async () => {
+    const urls = await sitemapUrls('https://a.com', ['https://a.com/missing.xml', 'https://a.com/s.xml'], async url =>
+      url.endsWith('/s.xml') ? urlset('https://a.com/about') : null,
+    );
+    expect(urls).toEqual(['https://a.com/about']);
+  });
+});
+
+describe('rankContactPages', () => {
+  it('ranks candidates best first and keeps the strongest sighting of each page', () => {
+    const ranked = rankContactPages(
+      ['https://a.com/pages/about', 'https://a.com/contact/', 'https://a.com/products/x'],
+      [
+        { url: 'https://a.com/contact', text: 'Contact', inFooter: true },
+        { url: 'https://a.com/privacy', text: 'Privacy', inFooter: false },
+      ],
+    );
+
+    expect(ranked.map(({ url, found }) => [url, found])).toEqual([
+      ['https://a.com/contact', 'footer'],
+      ['https://a.com/pages/about', 'sitemap'],
+      ['https://a.com/privacy', 'link'],
+    ]);
+    expect(ranked[0].score).toBeCloseTo(1.1);
+  });
+});
@@ -0,0 +1,108 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CrawlCache, CrawlPolicy, parseRobots, RobotsRules } from '../src/lib/crawlPolicy';
+
+const ROBOTS = `
+User-agent: *
+Disallow: /private
+Crawl-delay: 2
+
+User-agent: OtherBot
+User-agent: EmailScraper/1.0
+Disallow: /
+Allow: /contact$
+Allow: /pages/*about
+Crawl-delay: 1
+
+Sitemap: https://shop.com/sitemap.xml
+`;
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+});
+
+describe('parseRobots', () => {
+  it('uses the group naming our token over the * group', () => {
+    const rules = parseRobots(ROBOTS, 'EmailScraper');
+    expect(rules.isAllowed('/contact')).toBe(true);
+    expect(rules.isAllowed('/contact/form')).toBe(false);
+    expect(rules.isAllowed('/pages/team-about-us')).toBe(true);
+    expect(rules.isAllowed('/products')).toBe(false);
+    expect(rules.isAllowed('/robots.txt')).toBe(true);
+    expect(rules.crawlDelay).toBe(1);
+    expect(rules.sitemaps).toEqual(['https://shop.com/sitemap.xml']);
+  });
+
+  it('falls back to the * group', () => {
+    const rules = parseRobots(ROBOTS, 'SomeoneElse');
+    expect(rules.isAllowed('/private/data')).toBe(false);
+    expect(rules.isAllowed('/products')).toBe(true);
+    expect(rules.crawlDelay).toBe(2);
+  });
+
+  it('lets the longest pattern win, and Allow win a tie', () => {
+    const rules = parseRobots('User-agent: *\nDisallow: /shop\nAllow: /shop/contact\nDisallow: /a\nAllow: /a', 'bot');
+    expect(rules.isAllowed('/shop/contact')).toBe(true);
+    expect(rules.isAllowed('/shop/cart')).toBe(false);
+    expect(rules.isAllowed('/a')).toBe(true);
+  });
+
+  it('treats an empty Disallow as allowing everything', () => {
+    expect(parseRobots('User-agent: *\nDisallow:', 'bot').isAllowed('/anything')).toBe(true);
+  });
+});
+
+describe('CrawlPolicy.check', () => {
+  const policy = (cache?: CrawlCache) => new CrawlPolicy({ userAgent: 'test', robotsToken: 'EmailScraper', minInterval: 0 }, cache);
+
+  it('allows everything when robots.txt is missing', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 404 }));
+    expect(await policy().check('https://shop.com/contact')).toEqual({ allowed: true });
+  });
+
+  it('disallows everything when robots.txt errors', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('', { status: 503 }));
+    expect(await policy().check('https://shop.com/contact')).toEqual({ allowed: false, reason: 'robots_unavailable' });
+  });
+
+  it('skips hosts asking for a longer crawl delay than allowed', async () => {
+    vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('User-agent: *\nCrawl-delay: 30'));
+    expect(await policy().check('https://shop.com/')).toEqual({ allowed: false, reason: 'crawl_delay_too_long' });
+  });
+
+  it('fetches robots.txt once per origin', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('User-agent: *\nDisallow: /cart'));
+    const crawl = policy();
+    expect(await crawl.check('https://shop.com/cart')).toEqual({ allowed: false, reason: 'robots_disallowed' });
+    expect(await crawl.check('https://shop.com/about')).toEqual({ allowed: true });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('shares robots.txt rules with later policies through the cache', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch').mockResolvedValue(new Response('User-agent: *\nDisallow: /cart'));
+    const cache = new CrawlCache();
+    expect(await policy(cache).check('https://shop.com/about')).toEqual({ allowed: true });
+    expect(await policy(cache).check('https://shop.com/cart')).toEqual({ allowed: false, reason: 'robots_disallowed' });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('CrawlCache', () => {
+  it('spaces requests to a host across the policies sharing it', () => {
+    const cache = new CrawlCache();
+    const now = Date.now();
+    expect(cache.reserve('shop.com', 1000)).toBeLessThanOrEqual(now + 50);
+    expect(cache.reserve('shop.com', 1000)).toBeGreaterThanOrEqual(now + 1000);
+    expect(cache.reserve('other.com', 1000)).toBeLessThanOrEqual(now + 50);
+  });
+
+  it('keeps unavailable robots.txt for a shorter time', () => {
+    vi.useFakeTimers();
+    const cache = new CrawlCache();
+    cache.setRobots('https://a.com', parseRobots('', 'bot'));
+    cache.setRobots('https://b.com', RobotsRules.unavailable());
+    vi.advanceTimersByTime(2 * 60 * 60 * 1000);
+    expect(cache.getRobots('https://a.com')).toBeDefined();
+    expect(cache.getRobots('https://b.com')).toBeUndefined();
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { deepSearch } from '../src/lib/search/deepSearch';
+import { SearchPage, SearchProvider, SearchQuery } from '../src/lib/search/types';
+
+// A provider that serves the given pages in order and records every query
+function fakeProvider(pages: (string[] | Error)[], pageSize = 10) {
+  const queries: SearchQuery[] = [];
+  const provider: SearchProvider = {
+    name: 'fixture',
+    maxPageSize: pageSize,
+    async search(query) {
+      queries.push(query);
+      const page = pages[query.page];
+      if (page instanceof Error) throw page;
+      const links = page || [];
+      const results = links.map((link, i) => ({ title: link, link, position: query.page * pageSize + i + 1, source: 'fixture' as const }));
+      return { results, hasMore: query.page + 1 < pages.length } satisfies SearchPage;
+    },
+  };
+  return { provider, queries };
+}
+
+describe('deepSearch', () => {
+  it('pages until enough unique registrable domains are collected', async () => {
+    const { provider, queries } = fakeProvider([
+      ['https://shop.example.co.uk/a?utm_source=x', 'https://www.example.co.uk/b', 'https://one.com/'],
+      ['https://two.com/p#top', 'https://three.com/', 'https://four.com/'],
+    ]);
+
+    const result = await deepSearch(provider, 'toothbrush', { count: 3, maxPages: 5 });
+    expect(result.stopReason).toBe('count_reached');
+    expect(result.pagesFetched).toBe(2);
+    expect(result.results.map(r => r.domain)).toEqual(['example.co.uk', 'one.com', 'two.com']);
+    expect(result.results[0]).toMatchObject({ link: 'https://shop.example.co.uk/a', homepage: 'https://shop.example.co.uk/' });
+    expect(result.results[2].link).toBe('https://two.com/p');
+    expect(queries).toEqual([
+      { query: 'toothbrush', page: 0, pageSize: 10 },
+      { query: 'toothbrush', page: 1, pageSize: 10 },
+    ]);
+  });
+
+  it('skips links that are not http(s) URLs', async () => {
+    const { provider } = fakeProvider([['mailto:a@b.com', 'not a url', 'https://ok.com/']]);
+
+    const result = await deepSearch(provider, 'q', { count: 5, maxPages: 5 });
+    expect(result.results.map(r => r.domain)).toEqual(['ok.com']);
+  });
+
+  it('stops when the engine runs dry', async () => {
+    const { provider } = fakeProvider([['https://a.com/'], ['https://b.com/']]);
+
+    const result = await deepSearch(provider, 'q', { count: 10, maxPages: 5 });
+    expect(result).toMatchObject({ stopReason: 'exhausted', pagesFetched: 2 });
+    expect(result.results).toHaveLength(2);
+  });
+
+  it('stops at the page budget', async () => {
+    const { provider, queries } = fakeProvider([['https://a.com/'], ['https://b.com/'], ['https://c.com/']]);
+
+    const result = await deepSearch(provider, 'q', { count: 10, maxPages: 2 });
+    expect(result).toMatchObject({ stopReason: 'page_budget', pagesFetched: 2 });
+    expect(queries).toHaveLength(2);
+  });
+
+  it('reports progress after every page', async () => {
+    const { provider } = fakeProvider([['https://a.com/', 'https://a.com/x'], ['https://b.com/']]);
+    const progress: { pagesFetched: number; results: number }[] = [];
+
+    await deepSearch(provider, 'q', { count: 10, maxPages: 5, onPage: p => { progress.push(p); } });
+    expect(progress).toEqual([
+      { pagesFetched: 1, results: 1 },
+      { pagesFetched: 2, results: 2 },
+    ]);
+  });
+
+  it('returns what it has when a later page fails', async () => {
+    const { provider } = fakeProvider([['https://a.com/'], new Error('rate limited')]);
+
+    const result = await deepSearch(provider, 'q', { count: 10, maxPages: 5 });
+    expect(result).toMatchObject({ stopReason: 'provider_error', error: 'rate limited', pagesFetched: 1 });
+    expect(result.results).toHaveLength(1);
+  });
+
+  it('throws when the first page fails', async () => {
+    const { provider } = fakeProvider([new Error('bad key')]);
+
+    await expect(deepSearch(provider, 'q', { count: 10, maxPages: 5 })).rejects.toThrow('bad key');
+  });
+});
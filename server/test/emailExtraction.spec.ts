@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCfEmail, decodeEntities, extractEmailCandidates, unescapeScript } from '../src/lib/emailExtraction';
+
+describe('unescapeScript', () => {
+  it('reads exactly four hex digits after an unbraced \\u', () => {
+    expect(unescapeScript('"\\u20acdef"')).toBe('"€def"');
+    expect(unescapeScript('contact\\u0040abc.com')).toBe('contact@abc.com');
+  });
+
+  it('reads one to six hex digits inside braces', () => {
+    expect(unescapeScript('info\\u{40}shop.com')).toBe('info@shop.com');
+    expect(unescapeScript('\\u{1F600}')).toBe('😀');
+  });
+
+  it('leaves code points above U+10FFFF alone', () => {
+    expect(unescapeScript('\\u{110000}')).toBe('\\u{110000}');
+  });
+
+  it('decodes \\x escapes, escaped slashes and joined literals', () => {
+    expect(unescapeScript("'info' + '\\x40' + 'shop.com'")).toBe("'info@shop.com'");
+    expect(unescapeScript('https:\\/\\/shop.com')).toBe('https://shop.com');
+  });
+});
+
+describe('decodeEntities', () => {
+  it('decodes numeric and named entities', () => {
+    expect(decodeEntities('info&#64;shop&period;com')).toBe('info@shop.com');
+    expect(decodeEntities('info&#x40;shop.com')).toBe('info@shop.com');
+  });
+
+  it('leaves invalid code points and unknown names alone', () => {
+    expect(decodeEntities('&#x110000; &bogus;')).toBe('&#x110000; &bogus;');
+  });
+});
+
+describe('decodeCfEmail', () => {
+  it('XORs each byte with the key', () => {
+    const key = 0x42;
+    const hex = [key, ...[...'a@b.co'].map(c => c.charCodeAt(0) ^ key)].map(b => b.toString(16).padStart(2, '0')).join('');
+    expect(decodeCfEmail(hex)).toBe('a@b.co');
+  });
+});
+
+describe('extractEmailCandidates', () => {
+  const sources = (html: string) => Object.fromEntries(extractEmailCandidates(html).map(c => [c.address, c.source]));
+
+  it('tags each address with the most direct way it was found', () => {
+    const html = '<a href="mailto:Sales@Shop.com?subject=hi">Sales@Shop.com</a> <p>help@shop.com</p>';
+    expect(sources(html)).toEqual({ 'sales@shop.com': 'mailto', 'help@shop.com': 'text' });
+  });
+
+  it('finds obfuscated, entity-encoded and JSON-LD addresses', () => {
+    const html = [
+      '<p>info [at] shop [dot] co [dot] uk</p>',
+      '<p>orders&#64;shop.com</p>',
+      '<script type="application/ld+json">{"email": "mailto:press@shop.com"}</script>'
+    ].join('');
+    expect(sources(html)).toEqual({ 'info@shop.co.uk': 'obfuscated', 'orders@shop.com': 'entity', 'press@shop.com': 'json_ld' });
+  });
+
+  it('recovers addresses hidden in inline scripts', () => {
+    const html = '<script>var a = "contact\\u0040abc.com"; var b = "\\u20acdef"; var c = \'hi\' + \'@\' + \'abc.com\';</script>';
+    expect(sources(html)).toEqual({ 'contact@abc.com': 'script', 'hi@abc.com': 'script' });
+  });
+});
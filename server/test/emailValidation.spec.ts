@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DohMxResolver, MxResolver, validateEmails } from '../src/lib/emailValidation';
+
+const dnsAnswer = (answers: { type: number; data: string }[]) => Response.json({ Status: 0, Answer: answers });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('validateEmails', () => {
+  it('looks a domain up once for all its addresses', async () => {
+    const resolver: MxResolver = { hasMailServer: vi.fn(async (domain: string) => domain === 'shop.com') };
+    const records = await validateEmails(['info@shop.com', 'Sales@shop.com', 'info@shop.com ', 'hi@nomail.com'], resolver);
+
+    expect(records.map(record => [record.address, record.status])).toEqual([
+      ['info@shop.com', 'valid'],
+      ['sales@shop.com', 'valid'],
+      ['hi@nomail.com', 'invalid'],
+    ]);
+    expect(resolver.hasMailServer).toHaveBeenCalledTimes(2);
+  });
+
+  it('marks addresses unknown when the lookup fails', async () => {
+    const resolver: MxResolver = { hasMailServer: async () => Promise.reject(new Error('timeout')) };
+    expect(await validateEmails(['info@shop.com'], resolver)).toEqual([
+      { address: 'info@shop.com', status: 'unknown', reason: 'dns_lookup_failed', type: 'role' },
+    ]);
+  });
+});
+
+describe('DohMxResolver', () => {
+  it('caches answers but retries failed lookups', async () => {
+    const fetch = vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response('', { status: 502 }))
+      .mockResolvedValueOnce(dnsAnswer([{ type: 15, data: '10 mx.shop.com.' }]));
+    const resolver = new DohMxResolver('https://dns.test/dns-query');
+
+    await expect(resolver.hasMailServer('shop.com')).rejects.toThrow('DNS resolver returned 502');
+    expect(await resolver.hasMailServer('shop.com')).toBe(true);
+    expect(await resolver.hasMailServer('shop.com')).toBe(true);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to A records and treats a null MX as no mail server', async () => {
+    vi.spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(dnsAnswer([]))
+      .mockResolvedValueOnce(dnsAnswer([{ type: 1, data: '192.0.2.1' }]))
+      .mockResolvedValueOnce(dnsAnswer([{ type: 15, data: '0 .' }]))
+      .mockResolvedValueOnce(dnsAnswer([]));
+    const resolver = new DohMxResolver('https://dns.test/dns-query');
+
+    expect(await resolver.hasMailServer('a-only.com')).toBe(true);
+    expect(await resolver.hasMailServer('null-mx.com')).toBe(false);
+  });
+});
@@ -0,0 +1,111 @@
+import { env } from 'cloudflare:test';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryJobRunner } from '../src/lib/jobs/memory';
+import type { JobParams, JobSnapshot } from '../src/lib/jobs';
+
+const params: JobParams = { keyword: 'toothbrush', region: 'Dublin', count: 3, provider: 'fixture', maxPages: 1 };
+
+// Collects the drive loops the runner hands to waitUntil so a test can wait for them
+function createRunner() {
+  const pending: Promise<unknown>[] = [];
+  const runner = new MemoryJobRunner({ ...env, DNS_RESOLVER_URL: 'stub' }, promise => pending.push(promise));
+  const settle = async () => {
+    while (pending.length) await pending.shift();
+  };
+  return { runner, settle };
+}
+
+// Every site is up, upgrades http to https and lists an address on its homepage
+const mockSites = (onFetch: (url: URL) => void = () => {}) =>
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async input => {
+    const url = new URL(input instanceof Request ? input.url : String(input));
+    onFetch(url);
+    if (url.protocol === 'http:') {
+      return new Response(null, { status: 301, headers: { location: url.href.replace(/^http:/, 'https:') } });
+    }
+    if (url.pathname === '/') {
+      const domain = url.hostname.replace(/^www\./, '');
+      return new Response(`<html><title>${domain}</title><a href="mailto:hello@${domain}">Email us</a></html>`);
+    }
+    return new Response('Not found', { status: 404 });
+  });
+
+beforeEach(() => {
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('MemoryJobRunner', () => {
+  it('runs a job through search, check and email', async () => {
+    const { runner, settle } = createRunner();
+    const stages = new Set<string>();
+    let id: string | undefined;
+    // The progress a client polling the job would see while each request is made
+    mockSites(() => {
+      if (id) runner.get(id).then(job => job && stages.add(`${job.stage} ${job.progress.done}/${job.progress.total}`));
+    });
+
+    const job = await runner.start({ ...params, count: 12 });
+    id = job.id;
+    expect(job).toMatchObject({ status: 'running', stage: 'search', progress: { done: 0, total: 1 } });
+    await settle();
+
+    const done = (await runner.get(job.id)) as JobSnapshot;
+    expect(done).toMatchObject({
+      status: 'completed',
+      stage: 'done',
+      progress: { done: 12, total: 12 },
+      search: { pagesFetched: 1, stopReason: 'count_reached' },
+    });
+    expect([...stages]).toEqual(['check 0/12', 'check 10/12', 'email 0/12', 'email 5/12', 'email 10/12']);
+
+    expect(done.sites).toHaveLength(12);
+    const [site] = done.sites;
+    expect(site).toMatchObject({ domain: 'lenskart.com', check: { isDomainActive: true, metrics: { httpsRedirect: true } } });
+    expect(site.email?.emails.map(email => [email.address, email.status])).toEqual([['hello@lenskart.com', 'valid']]);
+  });
+
+  it('pauses on cancel and picks up where it stopped on resume', async () => {
+    mockSites();
+    const { runner, settle } = createRunner();
+
+    const job = await runner.start(params);
+    // Lands while the search step is still running; the step's result is discarded
+    expect(await runner.cancel(job.id)).toMatchObject({ status: 'cancelled', stage: 'search' });
+    await settle();
+    expect(await runner.get(job.id)).toMatchObject({ status: 'cancelled', stage: 'search', progress: { done: 0, total: 1 } });
+
+    expect(await runner.resume(job.id)).toMatchObject({ status: 'running' });
+    await settle();
+
+    const done = (await runner.get(job.id)) as JobSnapshot;
+    expect(done).toMatchObject({ status: 'completed', progress: { done: 3, total: 3 } });
+    expect(done.sites.map(site => site.domain)).toEqual(['lenskart.com', 'burstoralcare.com', 'currys.ie']);
+
+    // Finished jobs stay finished
+    expect(await runner.cancel(job.id)).toMatchObject({ status: 'completed' });
+    expect(await runner.resume(job.id)).toMatchObject({ status: 'completed' });
+  });
+
+  it('fails a job whose step throws and retries it on resume', async () => {
+    const { runner, settle } = createRunner();
+
+    const job = await runner.start({ ...params, provider: 'serpapi' });
+    await settle();
+    expect(await runner.get(job.id)).toMatchObject({ status: 'failed', stage: 'search', error: 'SERP_API_KEY is not configured' });
+
+    expect(await runner.resume(job.id)).toMatchObject({ status: 'running', error: undefined });
+    await settle();
+    expect(await runner.get(job.id)).toMatchObject({ status: 'failed' });
+  });
+
+  it('returns null for unknown jobs', async () => {
+    const { runner } = createRunner();
+    expect(await runner.get('missing')).toBeNull();
+    expect(await runner.cancel('missing')).toBeNull();
+    expect(await runner.resume('missing')).toBeNull();
+  });
+});
@@ -0,0 +1,87 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { D1LeadStore } from '../src/lib/leads/d1';
+import { MemoryLeadStore } from '../src/lib/leads/memory';
+import type { LeadEnrichment, LeadStore } from '../src/lib/leads';
+
+const search = { keyword: 'shoes', region: 'Dublin', count: 10, provider: 'fixture' as const };
+const result = (domain: string, position: number, title = domain) => ({ title, link: `https://www.${domain}/shop`, position });
+
+// Only the fields a test looks at; the stores keep enrichment as opaque JSON
+const check = (fields: object) => ({ isDomainActive: true, checkedAt: '2026-01-01T00:00:00.000Z', ...fields }) as LeadEnrichment['check'];
+
+describe.each([
+  ['D1LeadStore', () => new D1LeadStore(env.DB)],
+  ['MemoryLeadStore', () => new MemoryLeadStore()],
+])('%s', (_, createStore: () => LeadStore) => {
+  it('marks only domains no earlier search found as new', async () => {
+    const store = createStore();
+    const first = await store.recordSearch(search, [result('first-a.com', 1), result('first-b.com', 2)]);
+    const second = await store.recordSearch(search, [result('first-b.com', 1), result('first-c.com', 2), result('first-c.com', 3)]);
+
+    expect(first.search.newCount).toBe(2);
+    expect(second.results.map(r => [r.domain, r.isNew])).toEqual([
+      ['first-b.com', false],
+      ['first-c.com', true],
+      ['first-c.com', false],
+    ]);
+    expect(second.search).toMatchObject({ resultCount: 3, newCount: 1 });
+    expect((await store.getLead('first-b.com'))?.searchIds.sort()).toEqual([first.search.id, second.search.id].sort());
+  });
+
+  it('counts a domain as new for only one of two concurrent searches', async () => {
+    const store = createStore();
+    const [a, b] = await Promise.all([
+      store.recordSearch(search, [result('race.com', 1)]),
+      store.recordSearch(search, [result('race.com', 1)]),
+    ]);
+
+    expect(a.search.newCount + b.search.newCount).toBe(1);
+    expect((await store.getLead('race.com'))?.searchIds).toHaveLength(2);
+  });
+
+  it('replaces each enrichment key whole and keeps the others', async () => {
+    const store = createStore();
+    await store.saveEnrichment({ title: 'Enriched', link: 'https://enriched.com/' }, { check: check({ shopify: { apps: ['Klaviyo'] } }) });
+    await store.saveEnrichment({ link: 'https://enriched.com/' }, { email: { emails: [], contacts: { phones: [], socials: {} }, status: 'fetched', fetchedAt: '2026-01-02T00:00:00.000Z' } });
+    await store.saveEnrichment({ link: 'https://www.enriched.com/about' }, { check: check({ loadsFast: true }) });
+
+    const lead = await store.getLead('enriched.com');
+    expect(lead).toMatchObject({ domain: 'enriched.com', title: 'Enriched', link: 'https://enriched.com/', searchIds: [] });
+    expect(lead?.enrichment.check).toEqual(check({ loadsFast: true }));
+    expect(lead?.enrichment.email?.fetchedAt).toBe('2026-01-02T00:00:00.000Z');
+  });
+
+  it('ignores enrichment for links without a domain', async () => {
+    const store = createStore();
+    await store.saveEnrichment({ link: 'not a link' }, { check: check({}) });
+    expect(await store.getLead('not a link')).toBeNull();
+  });
+
+  it('filters leads by search and text, and pages through them', async () => {
+    const store = createStore();
+    const { search: recorded } = await store.recordSearch(search, [
+      result('query-b.com', 1, 'Toothbrush Outlet'),
+      result('query-a.com', 2, 'Garden tools'),
+      result('query-c.com', 3, 'Electric toothbrushes'),
+    ]);
+
+    const all = await store.queryLeads({ searchId: recorded.id, limit: 10, offset: 0 });
+    expect(all.total).toBe(3);
+    expect(all.leads.map(lead => lead.domain)).toEqual(['query-a.com', 'query-b.com', 'query-c.com']);
+
+    const matching = await store.queryLeads({ q: 'toothbrush', searchId: recorded.id, limit: 10, offset: 0 });
+    expect(matching.leads.map(lead => lead.domain)).toEqual(['query-b.com', 'query-c.com']);
+    expect((await store.queryLeads({ q: 'query-a', limit: 10, offset: 0 })).leads.map(lead => lead.domain)).toEqual(['query-a.com']);
+
+    const page = await store.queryLeads({ searchId: recorded.id, limit: 1, offset: 1 });
+    expect(page).toMatchObject({ total: 3, leads: [{ domain: 'query-b.com' }] });
+  });
+
+  it('lists recorded searches', async () => {
+    const store = createStore();
+    const { search: recorded } = await store.recordSearch({ ...search, keyword: 'socks' }, [result('socks.com', 1)]);
+
+    expect(await store.listSearches()).toContainEqual(recorded);
+  });
+});
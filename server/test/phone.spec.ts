@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { countryFromRegion, normalizePhone } from '../src/lib/phone';
+
+describe('countryFromRegion', () => {
+  it('reads the country from the end of the region', () => {
+    expect(countryFromRegion('Dublin, Ireland')).toBe('IE');
+    expect(countryFromRegion('Manchester, Greater Manchester, England')).toBe('GB');
+  });
+
+  it('accepts country names and ISO codes', () => {
+    expect(countryFromRegion('uk')).toBe('GB');
+    expect(countryFromRegion('United States')).toBe('US');
+    expect(countryFromRegion('NZ')).toBe('NZ');
+  });
+
+  it('returns null for regions naming no known country', () => {
+    expect(countryFromRegion('Springfield')).toBeNull();
+    expect(countryFromRegion('')).toBeNull();
+    expect(countryFromRegion()).toBeNull();
+  });
+});
+
+describe('normalizePhone', () => {
+  it('uses the default country for national numbers', () => {
+    expect(normalizePhone('01 234 5678', 'IE')).toBe('+35312345678');
+    expect(normalizePhone('020 7946 0018', 'GB')).toBe('+442079460018');
+  });
+
+  it('needs a default country for national numbers', () => {
+    expect(normalizePhone('01 234 5678')).toBeNull();
+    expect(normalizePhone('01 234 5678', null)).toBeNull();
+  });
+
+  it('checks international numbers against their own plan', () => {
+    expect(normalizePhone('+44 (0)20 7946 0018', 'IE')).toBe('+442079460018');
+    expect(normalizePhone('00353 1 234 5678')).toBe('+35312345678');
+    expect(normalizePhone('+44 20 79')).toBeNull();
+  });
+
+  it('strips a country code written without a plus', () => {
+    expect(normalizePhone('1 (555) 010-0100', 'US')).toBe('+15550100100');
+    expect(normalizePhone('(555) 010-0100', 'US')).toBe('+15550100100');
+  });
+
+  it('drops extensions', () => {
+    expect(normalizePhone('(555) 010-0100 ext. 12', 'US')).toBe('+15550100100');
+    expect(normalizePhone('+1 555 010 0100 x 3')).toBe('+15550100100');
+  });
+
+  it('rejects filler and numbers of the wrong length', () => {
+    expect(normalizePhone('000 000 0000', 'US')).toBeNull();
+    expect(normalizePhone('+353 111111111')).toBeNull();
+    expect(normalizePhone('555 0100', 'US')).toBeNull();
+  });
+});
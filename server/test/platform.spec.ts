@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { collectSignals, detectPlatform } from '../src/lib/platform';
+
+const page = (html: string, headers: HeadersInit = {}) => ({ headers: new Headers(headers), html });
+
+describe('collectSignals', () => {
+  it('collects header lines, cookie names, asset hosts and paths, and generators', () => {
+    const headers = new Headers([
+      ['server', 'nginx'],
+      ['set-cookie', 'cart_sig=abc; Path=/'],
+      ['set-cookie', '_shopify_y=1; Path=/'],
+    ]);
+    const html = `<meta name="generator" content="WooCommerce 8.0">
+      <script src="https://cdn.shopify.com/s/files/theme.js"></script><link href="/wp-content/plugins/woocommerce/style.css">`;
+
+    const signals = collectSignals({ headers, html });
+    expect(signals.header).toContain('server: nginx');
+    expect(signals.cookie).toEqual(['cart_sig', '_shopify_y']);
+    expect(signals.asset).toEqual(['cdn.shopify.com', '/s/files/theme.js', '/wp-content/plugins/woocommerce/style.css']);
+    expect(signals.meta).toEqual(['WooCommerce 8.0']);
+  });
+});
+
+describe('detectPlatform', () => {
+  it('combines independent signals into one confidence', () => {
+    const match = detectPlatform(page('<script src="https://cdn.shopify.com/a.js"></script><script>Shopify.theme = {}</script>', { 'x-shopid': '1' }));
+    expect(match.name).toBe('shopify');
+    // 1 - (0.1 * 0.3 * 0.3)
+    expect(match.confidence).toBe(0.99);
+    expect(match.evidence).toEqual([
+      { type: 'header', match: 'x-shopid: 1' },
+      { type: 'asset', match: 'cdn.shopify.com' },
+      { type: 'html', match: 'Shopify\\.theme\\s*=' },
+    ]);
+  });
+
+  it.each([
+    ['woocommerce', page('<meta name="generator" content="WooCommerce 8.2.1">')],
+    ['magento', page('<script type="text/x-magento-init">{}</script>')],
+    ['bigcommerce', page('<script src="https://cdn11.bigcommerce.com/s-1/app.js"></script>')],
+    ['wix', page('', { 'x-wix-request-id': 'abc' })],
+    ['squarespace', page('<!-- This is Squarespace. -->')],
+  ])('recognizes %s', (name, snapshot) => {
+    expect(detectPlatform(snapshot).name).toBe(name);
+  });
+
+  it('reports weak evidence as unknown, keeping what was found', () => {
+    const match = detectPlatform(page('', { 'set-cookie': 'crumb=1' }));
+    expect(match).toEqual({ name: 'unknown', confidence: 0.4, evidence: [{ type: 'cookie', match: 'crumb' }] });
+  });
+
+  it('finds nothing on a plain page', () => {
+    expect(detectPlatform(page('<html><body>Hello</body></html>'))).toEqual({ name: 'unknown', confidence: 0, evidence: [] });
+  });
+});
@@ -0,0 +1,147 @@
+import { env } from 'cloudflare:test';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROFILE, parseProfileInput, scoreLead, SCORE_SIGNALS } from '../src/lib/scoring';
+import { D1ScoringProfileStore } from '../src/lib/scoring/d1';
+import { MemoryScoringProfileStore } from '../src/lib/scoring/memory';
+import type { ScoreInput, ScoreSignal, ScoringProfile, ScoringProfileStore } from '../src/lib/scoring';
+
+const weights = (overrides: Partial<Record<ScoreSignal, number>>) =>
+  Object.fromEntries(SCORE_SIGNALS.map(signal => [signal, overrides[signal] ?? 0])) as Record<ScoreSignal, number>;
+
+const profile = (overrides: Partial<ScoringProfile>): ScoringProfile => ({ ...DEFAULT_PROFILE, id: 'test', ...overrides });
+
+const completeLead: ScoreInput = {
+  link: 'https://shop.com/',
+  isDomainActive: true,
+  loadsFast: true,
+  platform: { name: 'shopify', confidence: 0.99, evidence: [] },
+  tech: [
+    { name: 'Klaviyo', category: 'email_marketing', evidence: [] },
+    { name: 'Hotjar', category: 'session_recording', evidence: [] },
+    { name: 'Meta Pixel', category: 'ad_pixel', evidence: [] },
+  ],
+  classification: { category: 'independent_store', confidence: 0.9, reasons: ['Has a cart'] },
+  emails: [{ address: 'hi@shop.com', status: 'valid', reason: 'mx_found', type: 'role' }],
+  contacts: { phones: [{ number: '+35312345678', raw: '01 234 5678', source: 'tel' }], socials: { instagram: 'https://instagram.com/shop' }, whatsapp: '+35312345678' },
+};
+
+describe('scoreLead', () => {
+  it('gives a lead that meets every signal 100', () => {
+    const result = scoreLead(completeLead, DEFAULT_PROFILE);
+    expect(result.score).toBe(100);
+    expect(result.profileId).toBe('default');
+    expect(result.breakdown.map(c => c.signal)).toEqual(SCORE_SIGNALS);
+  });
+
+  it('gives a lead nothing is known about 0', () => {
+    const result = scoreLead({ link: 'https://shop.com/' }, DEFAULT_PROFILE);
+    expect(result.score).toBe(0);
+    expect(result.breakdown.find(c => c.signal === 'email')?.reason).toBe('Not fetched yet');
+  });
+
+  it('shares the score between signals by weight and leaves zero weights out', () => {
+    const result = scoreLead(
+      { ...completeLead, emails: [{ address: 'x@shop.com', status: 'risky', reason: 'mx_found', type: 'personal' }] },
+      profile({ weights: weights({ email: 1, platform: 1 }) }),
+    );
+    expect(result.score).toBe(75);
+    expect(result.breakdown).toEqual([
+      { signal: 'platform', value: 1, points: 50, max: 50, reason: 'Runs shopify' },
+      { signal: 'email', value: 0.5, points: 25, max: 50, reason: 'x@shop.com (risky)' },
+    ]);
+  });
+
+  it('scores the best email found', () => {
+    const emails = [
+      { address: 'bad@shop.com', status: 'invalid' as const, reason: 'no_mx_records' as const, type: 'role' as const },
+      { address: 'hi@shop.com', status: 'valid' as const, reason: 'mx_found' as const, type: 'role' as const },
+    ];
+    const result = scoreLead({ link: 'https://shop.com/', emails }, profile({ weights: weights({ email: 1 }) }));
+    expect(result.breakdown[0]).toMatchObject({ value: 1, reason: 'hi@shop.com (valid)' });
+  });
+
+  it('only credits target platforms and tech categories when the profile names some', () => {
+    const targeted = profile({ weights: weights({ platform: 1, tech_stack: 1 }), platforms: ['woocommerce'], techCategories: ['email_marketing', 'reviews'] });
+    const [platform, tech] = scoreLead(completeLead, targeted).breakdown;
+
+    expect(platform).toMatchObject({ value: 0, reason: 'Runs shopify, not a target platform' });
+    expect(tech).toMatchObject({ value: 0.5, reason: 'Uses Klaviyo' });
+  });
+
+  it('counts a full stack as three tools when no categories are targeted', () => {
+    const [tech] = scoreLead({ ...completeLead, tech: completeLead.tech!.slice(0, 2) }, profile({ weights: weights({ tech_stack: 1 }) })).breakdown;
+    expect(tech.value).toBe(0.67);
+  });
+
+  it('adds up phones, social profiles and messengers', () => {
+    const contactsOnly = profile({ weights: weights({ contacts: 1 }) });
+    const score = (contacts: ScoreInput['contacts']) => scoreLead({ link: 'https://shop.com/', contacts }, contactsOnly).breakdown[0];
+
+    expect(score(completeLead.contacts)).toMatchObject({ value: 1, reason: '1 phone, instagram, WhatsApp' });
+    expect(score({ phones: [], socials: {}, telegram: 'shop' })).toMatchObject({ value: 0.2, reason: 'Telegram' });
+    expect(score({ phones: [], socials: {} })).toMatchObject({ value: 0, reason: 'No phone or social profiles' });
+  });
+
+  it('scores 0 under a profile with every weight at 0', () => {
+    expect(scoreLead(completeLead, profile({ weights: weights({}) }))).toMatchObject({ score: 0, breakdown: [] });
+  });
+});
+
+describe('parseProfileInput', () => {
+  it('fills missing weights with 0, trims the name and drops duplicate targets', () => {
+    expect(parseProfileInput({ name: ' Shopify ', weights: { email: 5 }, platforms: ['shopify', 'shopify'], techCategories: ['reviews'] })).toEqual({
+      input: { name: 'Shopify', weights: weights({ email: 5 }), platforms: ['shopify'], techCategories: ['reviews'] },
+    });
+  });
+
+  it.each([
+    [null, 'name must be a non-empty string of at most 80 characters'],
+    [{ name: '  ', weights: {} }, 'name must be a non-empty string of at most 80 characters'],
+    [{ name: 'x'.repeat(81), weights: {} }, 'name must be a non-empty string of at most 80 characters'],
+    [{ name: 'p' }, 'weights is required'],
+    [{ name: 'p', weights: { email: 11 } }, 'weights.email must be a number between 0 and 10'],
+    [{ name: 'p', weights: { platform: '3' } }, 'weights.platform must be a number between 0 and 10'],
+  ])('rejects %j', (body, error) => {
+    expect(parseProfileInput(body)).toEqual({ error });
+  });
+
+  it('rejects unknown platforms and tech categories', () => {
+    expect(parseProfileInput({ name: 'p', weights: {}, platforms: ['unknown'] }).error).toMatch(/^platforms must be a list of: shopify/);
+    expect(parseProfileInput({ name: 'p', weights: {}, techCategories: 'reviews' }).error).toMatch(/^techCategories must be a list of: analytics/);
+  });
+});
+
+describe.each([
+  ['D1ScoringProfileStore', () => new D1ScoringProfileStore(env.DB)],
+  ['MemoryScoringProfileStore', () => new MemoryScoringProfileStore()],
+])('%s', (_, createStore: () => ScoringProfileStore) => {
+  const input = { name: 'Zeta stores', weights: weights({ email: 4 }), platforms: ['shopify' as const], techCategories: [] };
+
+  it('creates, reads, updates and deletes a profile', async () => {
+    const store = createStore();
+    const created = await store.createProfile(input);
+    expect(created).toMatchObject(input);
+    expect(await store.getProfile(created.id)).toEqual(created);
+
+    const updated = await store.updateProfile(created.id, { ...input, name: 'Zeta renamed', techCategories: ['reviews'] });
+    expect(updated).toMatchObject({ id: created.id, name: 'Zeta renamed', techCategories: ['reviews'], createdAt: created.createdAt });
+    expect(await store.getProfile(created.id)).toEqual(updated);
+
+    expect(await store.deleteProfile(created.id)).toBe(true);
+    expect(await store.deleteProfile(created.id)).toBe(false);
+    expect(await store.getProfile(created.id)).toBeNull();
+  });
+
+  it('lists profiles by name', async () => {
+    const store = createStore();
+    const b = await store.createProfile({ ...input, name: 'Beta' });
+    const a = await store.createProfile({ ...input, name: 'Alpha' });
+
+    const ids = (await store.listProfiles()).map(p => p.id);
+    expect(ids.indexOf(a.id)).toBeLessThan(ids.indexOf(b.id));
+  });
+
+  it('does not update a profile that does not exist', async () => {
+    expect(await createStore().updateProfile('missing', input)).toBeNull();
+  });
+});
@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { checkSite } from '../src/lib/siteCheck';
+
+type Handler = (init?: RequestInit) => Response;
+
+// Answers each URL from `handlers`; anything else is a test failure
+const mockFetch = (handlers: Record<string, Handler>) =>
+  vi.spyOn(globalThis, 'fetch').mockImplementation(async (input, init) => {
+    const url = input instanceof Request ? input.url : String(input);
+    const handler = handlers[url];
+    if (!handler) throw new Error(`Unexpected fetch: ${url}`);
+    return handler(init);
+  });
+
+const redirect = (location: string, status = 301): Handler => () => new Response(null, { status, headers: { location } });
+
+// A body of `size` bytes in 64 KiB chunks, with `marker` written at `offset`
+const largeBody = (size: number, marker: string, offset: number) => {
+  const chunk = 64 * 1024;
+  let sent = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (sent >= size) return controller.close();
+      const bytes = new Uint8Array(Math.min(chunk, size - sent)).fill(0x20);
+      if (offset >= sent && offset < sent + bytes.length) bytes.set(new TextEncoder().encode(marker).subarray(0, bytes.length - (offset - sent)), offset - sent);
+      sent += bytes.length;
+      controller.enqueue(bytes);
+    },
+  });
+};
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('checkSite', () => {
+  const hotjar = '<script src="https://static.hotjar.com/c/hotjar.js"></script>';
+
+  it('counts the whole body but only reads the first 500 kB of it', async () => {
+    mockFetch({
+      'https://shop.com/': () => new Response(largeBody(2_000_000, hotjar, 1_500_000)),
+      'http://shop.com/': redirect('https://shop.com/'),
+    });
+
+    const result = await checkSite('https://shop.com/');
+    expect(result.isDomainActive).toBe(true);
+    expect(result.metrics.htmlBytes).toBe(2_000_000);
+    expect(result.tech).toEqual([]);
+  });
+
+  it('fingerprints what is inside the first 500 kB', async () => {
+    mockFetch({
+      'https://shop.com/': () => new Response(largeBody(600_000, hotjar, 1000)),
+      'http://shop.com/': redirect('https://shop.com/'),
+    });
+
+    const result = await checkSite('https://shop.com/');
+    expect(result.metrics.htmlBytes).toBe(600_000);
+    expect(result.tech.map(tech => tech.name)).toEqual(['Hotjar']);
+  });
+});
+
+describe('checkSite metrics', () => {
+  const page = (headers: HeadersInit = {}, status = 200): Handler => () => new Response('<html><title>Shop</title></html>', { status, headers });
+
+  it('records each redirect hop on the way to the final page', async () => {
+    mockFetch({
+      'https://shop.com/': redirect('https://www.shop.com/', 302),
+      'https://www.shop.com/': redirect('/en/'),
+      'https://www.shop.com/en/': page({ 'strict-transport-security': 'max-age=31536000', 'content-encoding': 'br' }),
+      'http://shop.com/': redirect('http://www.shop.com/'),
+      'http://www.shop.com/': redirect('https://www.shop.com/'),
+    });
+
+    const { isDomainActive, metrics } = await checkSite('shop.com');
+    expect(isDomainActive).toBe(true);
+    expect(metrics).toMatchObject({
+      redirects: [
+        { url: 'https://shop.com/', status: 302 },
+        { url: 'https://www.shop.com/', status: 301 },
+      ],
+      finalUrl: 'https://www.shop.com/en/',
+      status: 200,
+      compression: 'br',
+      https: true,
+      hsts: true,
+      httpsRedirect: true,
+    });
+    expect(metrics.ttfb).toBeGreaterThanOrEqual(0);
+    expect(metrics.downloadTime).toBeGreaterThanOrEqual(metrics.ttfb!);
+  });
+
+  it('ignores HSTS sent over plain http and notices http is not upgraded', async () => {
+    mockFetch({
+      'https://shop.com/': redirect('http://shop.com/'),
+      'http://shop.com/': page({ 'strict-transport-security': 'max-age=31536000' }),
+    });
+
+    const { metrics } = await checkSite('https://shop.com/');
+    expect(metrics).toMatchObject({ finalUrl: 'http://shop.com/', https: false, hsts: false, httpsRedirect: false });
+  });
+
+  it('leaves httpsRedirect unknown when http cannot be reached', async () => {
+    mockFetch({
+      'https://shop.com/': page(),
+      'http://shop.com/': () => {
+        throw new TypeError('connection refused');
+      },
+    });
+
+    const { metrics } = await checkSite('https://shop.com/');
+    expect(metrics).toMatchObject({ https: true, hsts: false, httpsRedirect: null });
+  });
+
+  it('stops following redirects after ten hops', async () => {
+    mockFetch({
+      'https://shop.com/': redirect('https://shop.com/'),
+      'http://shop.com/': redirect('https://shop.com/'),
+    });
+
+    const { isDomainActive, metrics } = await checkSite('https://shop.com/');
+    expect(isDomainActive).toBe(false);
+    expect(metrics.redirects).toHaveLength(10);
+    expect(metrics.status).toBe(301);
+  });
+
+  it('reports an error status as an inactive domain', async () => {
+    mockFetch({
+      'https://shop.com/': page({}, 404),
+      'http://shop.com/': redirect('https://shop.com/'),
+    });
+
+    const result = await checkSite('https://shop.com/');
+    expect(result).toMatchObject({ isDomainActive: false, loadsFast: false, metrics: { status: 404, httpsRedirect: true } });
+  });
+
+  it('records why the request failed', async () => {
+    mockFetch({
+      'https://shop.com/': () => {
+        throw new TypeError('DNS lookup failed');
+      },
+      'http://shop.com/': () => {
+        throw new TypeError('DNS lookup failed');
+      },
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const { isDomainActive, metrics } = await checkSite('https://shop.com/');
+    expect(isDomainActive).toBe(false);
+    expect(metrics).toEqual({ redirects: [], finalUrl: 'https://shop.com/', https: false, hsts: false, httpsRedirect: null, error: 'DNS lookup failed' });
+  });
+});
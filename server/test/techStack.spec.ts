@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { collectSignals } from '../src/lib/platform';
+import { detectTechStack, shopifyApps } from '../src/lib/techStack';
+
+const detect = (html: string, headers: HeadersInit = {}) => detectTechStack(collectSignals({ headers: new Headers(headers), html }));
+
+describe('detectTechStack', () => {
+  it('reports each product once with every pattern that matched', () => {
+    const tech = detect(`
+      <script async src="https://www.googletagmanager.com/gtag/js?id=G-ABC123"></script>
+      <script>gtag('config', 'G-ABC123'); gtag('config', 'AW-123456');</script>`);
+
+    expect(tech.map(({ name, category }) => [name, category])).toEqual([
+      ['Google Analytics 4', 'analytics'],
+      ['Google Ads', 'ad_pixel'],
+    ]);
+    expect(tech[0].evidence.map(e => e.type)).toEqual(['asset', 'html']);
+  });
+
+  it('reports the asset or cookie that matched, and the pattern for raw HTML', () => {
+    const tech = detect('<script src="https://static.klaviyo.com/onsite/js/klaviyo.js"></script>', [['set-cookie', 'hubspotutk=1; Path=/']]);
+
+    expect(tech.find(t => t.name === 'Klaviyo')?.evidence[0]).toEqual({ type: 'asset', match: 'static.klaviyo.com' });
+    expect(tech.find(t => t.name === 'HubSpot')?.evidence).toEqual([{ type: 'cookie', match: 'hubspotutk' }]);
+  });
+
+  it('covers chat, reviews, session recording and store apps', () => {
+    const tech = detect(`
+      <script src="https://static.hotjar.com/c/hotjar-1.js"></script>
+      <script src="https://code.tidio.co/abc.js"></script>
+      <div class="jdgm-widget"></div>
+      <script src="https://widget.trustpilot.com/bootstrap/v5/tp.widget.bootstrap.min.js"></script>
+      <script src="https://static.rechargecdn.com/assets/js/widget.min.js"></script>`);
+
+    expect(tech.map(t => t.name)).toEqual(['Hotjar', 'Tidio', 'Trustpilot', 'Judge.me', 'ReCharge']);
+  });
+
+  it('finds nothing on a bare page', () => {
+    expect(detect('<html><body><h1>Hello</h1></body></html>')).toEqual([]);
+  });
+});
+
+describe('shopifyApps', () => {
+  it('keeps only tools sold as Shopify apps', () => {
+    const tech = detect(`
+      <script src="https://static.klaviyo.com/onsite/js/klaviyo.js"></script>
+      <script src="https://widget.trustpilot.com/tp.js"></script>
+      <script src="https://static.hotjar.com/c/hotjar-1.js"></script>
+      <div data-pf-type="Section" class="pagefly"></div>`);
+
+    expect(shopifyApps(tech)).toEqual(['Klaviyo', 'PageFly']);
+  });
+});
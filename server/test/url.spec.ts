@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { domainOf, getRegistrableDomain, normalizeUrl, stripTrackingParams } from '../src/lib/url';
+
+describe('normalizeUrl', () => {
+  it('strips tracking parameters and the fragment but keeps the rest of the query', () => {
+    expect(normalizeUrl('https://Shop.Example.com/p?id=7&utm_source=g&UTM_Medium=x&gclid=1&srsltid=2#reviews')).toEqual({
+      url: 'https://shop.example.com/p?id=7',
+      hostname: 'shop.example.com',
+      domain: 'example.com',
+      homepage: 'https://shop.example.com/',
+    });
+  });
+
+  it('treats bare domains as https and keeps a port', () => {
+    expect(normalizeUrl('  example.com/shop ')?.url).toBe('https://example.com/shop');
+    expect(normalizeUrl('example.com:8080/x')?.url).toBe('https://example.com:8080/x');
+  });
+
+  it('keeps http links but always points the homepage at https', () => {
+    expect(normalizeUrl('http://example.com/a')).toMatchObject({ url: 'http://example.com/a', homepage: 'https://example.com/' });
+  });
+
+  it('drops a trailing dot from the hostname', () => {
+    expect(normalizeUrl('https://example.com./')?.hostname).toBe('example.com');
+  });
+
+  it.each(['', '   ', 'mailto:a@example.com', 'tel:+441234', 'javascript:void(0)', 'ftp://example.com/', 'https://co.uk/', 'https://intranet/', 'https://exa mple.com/'])(
+    'rejects %j',
+    input => {
+      expect(normalizeUrl(input)).toBeNull();
+    },
+  );
+});
+
+describe('getRegistrableDomain', () => {
+  it.each([
+    ['www.example.com', 'example.com'],
+    ['shop.oralb.co.uk', 'oralb.co.uk'],
+    ['oralb.co.uk', 'oralb.co.uk'],
+    ['a.b.store.com.au', 'store.com.au'],
+    ['brand.myshopify.com', 'brand.myshopify.com'],
+    ['x.shop.github.io', 'shop.github.io'],
+    // Wildcard rule `*.ck` with the `www.ck` exception
+    ['shop.brand.co.ck', 'brand.co.ck'],
+    ['www.ck', 'www.ck'],
+    ['192.168.0.1', '192.168.0.1'],
+    ['localhost', 'localhost'],
+  ])('%s → %s', (hostname, domain) => {
+    expect(getRegistrableDomain(hostname)).toBe(domain);
+  });
+
+  it.each(['co.uk', 'com.au', 'myshopify.com', 'co.ck', 'intranet'])('has no registrable domain for %s', hostname => {
+    expect(getRegistrableDomain(hostname)).toBeNull();
+  });
+});
+
+describe('domainOf and stripTrackingParams', () => {
+  it('reads the domain of a link', () => {
+    expect(domainOf('https://www.boots.co.uk/brush?fbclid=1')).toBe('boots.co.uk');
+    expect(domainOf('not a link')).toBeNull();
+  });
+
+  it('returns unparseable links unchanged', () => {
+    expect(stripTrackingParams('https://a.com/?ref=x&q=1')).toBe('https://a.com/?q=1');
+    expect(stripTrackingParams('mailto:a@b.com')).toBe('mailto:a@b.com');
+  });
+});
@@ -1,11 +1,23 @@
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import path from 'node:path';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
-	test: {
-		poolOptions: {
-			workers: {
-				wrangler: { configPath: './wrangler.jsonc' },
+export default defineWorkersConfig(async () => {
+	// Applied to the test database by test/applyMigrations.ts
+	const migrations = await readD1Migrations(path.join(__dirname, 'migrations'));
+
+	return {
+		resolve: {
+			// Wrangler bundles axios' browser build, which has no node:https; tests load the same one
+			alias: [{ find: /^axios$/, replacement: path.join(__dirname, 'node_modules/axios/dist/esm/axios.js') }],
+		},
+		test: {
+			setupFiles: ['./test/applyMigrations.ts'],
+			poolOptions: {
+				workers: {
+					wrangler: { configPath: './wrangler.jsonc' },
+					miniflare: { bindings: { TEST_MIGRATIONS: migrations } },
+				},
 			},
 		},
-	},
+	};
 });
@@ -3,6 +3,21 @@
 // Runtime types generated with workerd@1.20250508.0 2025-05-15 
 declare namespace Cloudflare {
 	interface Env {
+		DEFAULT_SEARCH_PROVIDER: "serpapi";
+		SERP_API_KEY?: string;
+		BING_API_KEY?: string;
+		BRAVE_API_KEY?: string;
+		JOB_BACKEND?: string;
+		DNS_RESOLVER_URL?: string;
+		HUBSPOT_TOKEN?: string;
+		HUBSPOT_API_URL?: string;
+		PIPEDRIVE_API_TOKEN?: string;
+		PIPEDRIVE_DOMAIN_FIELD?: string;
+		PIPEDRIVE_API_URL?: string;
+		WEBHOOK_URL?: string;
+		WEBHOOK_SECRET?: string;
+		JOBS: DurableObjectNamespace<import("./src/index").JobDurableObject>;
+		DB: D1Database;
 	}
 }
 interface Env extends Cloudflare.Env {}